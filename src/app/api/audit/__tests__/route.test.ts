@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import ganache from 'ganache';
+import { ethers } from 'ethers';
+import { generateTokenContract } from '@/lib/token-builder';
+import { compileContract } from '@/lib/token-builder/__tests__/local-chain';
+
+// The audit reads bytecode over HTTP from ETHEREUM_RPC_URL and verified source from Etherscan
+const RPC_PORT = 18545;
+
+// A classic honeypot: everyone can buy, only the owner decides who may move tokens again
+const BLACKLIST_HONEYPOT = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract HoneyToken {
+    mapping(address => uint256) private _balances;
+    mapping(address => bool) private _blacklisted;
+    address public owner;
+    uint256 public totalSupply = 1000000 ether;
+
+    constructor() {
+        owner = msg.sender;
+        _balances[msg.sender] = totalSupply;
+    }
+
+    function balanceOf(address account) public view returns (uint256) {
+        return _balances[account];
+    }
+
+    function transfer(address to, uint256 amount) public returns (bool) {
+        if (msg.sender != owner) {
+            require(!_blacklisted[msg.sender], "Blocked");
+        }
+        _balances[msg.sender] -= amount;
+        _balances[to] += amount;
+        return true;
+    }
+
+    function setBlacklist(address account, bool value) external {
+        require(msg.sender == owner);
+        _blacklisted[account] = value;
+    }
+}
+`;
+
+interface AuditIssue {
+  title: string;
+  description: string;
+  impact: string;
+}
+
+describe('audit of generated and hostile tokens', () => {
+  const server = ganache.server({
+    logging: { quiet: true },
+    chain: { hardfork: 'shanghai' },
+    wallet: { totalAccounts: 1, deterministic: true },
+  });
+  const sources = new Map<string, { source: string; contractName: string }>();
+  let POST: (request: Request) => Promise<Response>;
+
+  async function deploy(source: string, contractName: string, args: unknown[] = []) {
+    const signer = await new ethers.JsonRpcProvider(`http://127.0.0.1:${RPC_PORT}`).getSigner(0);
+    const compiled = await compileContract(source, contractName);
+    const contract = await new ethers.ContractFactory(compiled.abi, compiled.bytecode, signer).deploy(...args);
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+    sources.set(address.toLowerCase(), { source, contractName });
+    return address;
+  }
+
+  async function audit(address: string): Promise<AuditIssue[]> {
+    const response = await POST(new Request('http://localhost/api/audit', {
+      method: 'POST',
+      body: JSON.stringify({ address }),
+    }));
+    expect(response.status).toBe(200);
+    return (await response.json()).securityAnalysis.issues;
+  }
+
+  beforeAll(async () => {
+    await server.listen(RPC_PORT);
+    process.env.ETHEREUM_RPC_URL = `http://127.0.0.1:${RPC_PORT}`;
+
+    // Etherscan answers with the source of the contracts deployed here
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      if (url.hostname !== 'api.etherscan.io') {
+        return realFetch(input, init);
+      }
+      const verified = sources.get(url.searchParams.get('address')!.toLowerCase());
+      return Response.json(verified
+        ? { status: '1', result: [{ SourceCode: verified.source, ContractName: verified.contractName, CompilerVersion: 'v0.8.20' }] }
+        : { status: '0', result: [] });
+    });
+
+    // The route creates its provider when it is loaded
+    ({ POST } = await import('@/app/api/audit/route'));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await server.close();
+  });
+
+  it('explains reflection balances instead of reporting a honeypot', async () => {
+    const { source, contractName } = generateTokenContract({
+      name: 'Reflect Token',
+      symbol: 'RFL',
+      totalSupply: '1000000',
+      template: 'reflection',
+      reflectionFee: 2,
+    });
+    const [owner] = await server.provider.request({ method: 'eth_accounts', params: [] });
+    const issues = await audit(await deploy(source, contractName, [owner]));
+
+    expect(issues.map(issue => issue.title)).toContain('Reflection Fee Mechanism');
+    expect(issues.filter(issue => /honeypot/i.test(issue.description))).toEqual([]);
+    expect(issues.filter(issue => issue.impact === 'Critical')).toEqual([]);
+  });
+
+  it('still reports a blacklist honeypot', async () => {
+    const issues = await audit(await deploy(BLACKLIST_HONEYPOT, 'HoneyToken'));
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ title: 'Owner-Based Transfer Rules', impact: 'High', description: expect.stringMatching(/honeypot/) }),
+      expect.objectContaining({ title: 'Address Restriction Functionality' }),
+    ]));
+    expect(issues.map(issue => issue.title)).not.toContain('Reflection Fee Mechanism');
+  });
+});
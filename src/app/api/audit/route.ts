@@ -710,6 +710,26 @@ function detectHoneypotPatterns(sourceCode: string, ast: ParseResult): Vulnerabi
     return true;
   };
 
+  // Reflection (RFI) tokens derive balances from reflected units and take their fee inside _transfer,
+  // which is how holder rewards work rather than a way to fake balances or block sells
+  const isReflectionToken = hasReflectionAccounting(sourceCode);
+
+  // Explain reflection balances, which are not read from a plain mapping, instead of leaving them unexplained
+  const customBalanceOf = Array.from(
+    sourceCode.matchAll(/function\s+balanceOf\s*\([^)]*\)[^{;]*\{([^}]*)\}/g)
+  ).find(match => !/^\s*return\s+_balances\[\s*\w+\s*\]\s*;\s*$/.test(match[1]));
+
+  if (customBalanceOf && isReflectionToken) {
+    vulnerabilities.push({
+      name: 'Reflection Fee Mechanism',
+      severity: 'Informational',
+      codeSnippet: extractCodeSnippet(sourceCode, /function\s+tokenFromReflection\s*\(/),
+      explanation: 'The contract is a reflection token: balances are derived from reflected units and a fee on transfers is redistributed to holders through the reflection rate.',
+      impact: 'Holder balances grow without transfers and each transfer pays the reflection fee. Accounts excluded from rewards keep a fixed balance.',
+      recommendation: 'Check the reflection fee cap and which accounts are excluded from rewards, typically the pair and the burn address.'
+    });
+  }
+
   // Check for trading restrictions with better context
   const hasTradingRestrictions = isInRiskyContext(
     /(canTrade|tradingEnabled|trading[A-Z][a-zA-Z0-9]*Enabled)/,
@@ -767,7 +787,8 @@ function detectHoneypotPatterns(sourceCode: string, ast: ParseResult): Vulnerabi
     sourceCode.includes('marketing') ||
     sourceCode.includes('charity') ||
     sourceCode.includes('development') ||
-    sourceCode.includes('ecosystem');
+    sourceCode.includes('ecosystem') ||
+    isReflectionToken;
   
   if (highestTax > 0) {
     let severity: 'Critical' | 'High' | 'Medium' | 'Low' | 'Informational' = 'Informational';
@@ -840,7 +861,8 @@ function detectHoneypotPatterns(sourceCode: string, ast: ParseResult): Vulnerabi
   // Check if special rules are for legitimate purposes
   const hasLegitimateSpecialRules = 
     sourceCode.includes('fee') && sourceCode.includes('exclude') ||
-    sourceCode.includes('tax') && sourceCode.includes('exempt');
+    sourceCode.includes('tax') && sourceCode.includes('exempt') ||
+    isReflectionToken && sourceCode.includes('excludeFromReward');
   
   if (hasOwnerSpecialRules) {
     const codeSnippet = extractCodeSnippet(sourceCode, 
@@ -895,6 +917,15 @@ function detectHoneypotPatterns(sourceCode: string, ast: ParseResult): Vulnerabi
   return vulnerabilities;
 }
 
+// Helper function to recognize reflection token accounting (_rOwned/_tOwned balances and tokenFromReflection)
+function hasReflectionAccounting(sourceCode: string): boolean {
+  return (
+    /function\s+tokenFromReflection\s*\(/.test(sourceCode) &&
+    /\b_rOwned\b/.test(sourceCode) &&
+    /\b_rTotal\b/.test(sourceCode)
+  );
+}
+
 // 4. Detect Access Control & Privilege Escalation
 function detectAccessControlIssues(sourceCode: string, ast: ParseResult): Vulnerability[] {
   const vulnerabilities: Vulnerability[] = [];
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { generateTokenContract, TokenBuildError } from '@/lib/token-builder';
+import { compileSolidity } from '@/lib/solidity/compiler';
+import { CompileQueueFullError } from '@/lib/solidity/compile-queue';
+import { getCompilerProfile, OPTIMIZATION_LEVELS } from '@/lib/solidity/profiles';
+import { OptimizationComparison, OptimizationLevel } from '@/types';
+
+// Compile the same contract at every optimization level and report size and deploy gas for each
+export async function POST(request: Request) {
+  try {
+    const { contractDetails, chainId } = await request.json();
+
+    if (!contractDetails) {
+      return NextResponse.json({ error: 'Contract details are required' }, { status: 400 });
+    }
+
+    const { source, contractName } = generateTokenContract(contractDetails);
+
+    // Levels are compiled one after another, solc is CPU bound and the IR pipeline is slow
+    const levels: OptimizationComparison[] = [];
+    for (const level of Object.keys(OPTIMIZATION_LEVELS) as OptimizationLevel[]) {
+      console.log(`Compiling ${contractName} with optimization level ${level}`);
+      const result = await compileSolidity({
+        source,
+        contractName,
+        profile: getCompilerProfile(Number(chainId ?? contractDetails.chainId), level, contractDetails.fullMatch === true),
+      });
+
+      levels.push({
+        level,
+        compiled: result.success,
+        compilerProfile: result.profile,
+        bytecodeSize: result.bytecodeSize,
+        deployedBytecodeSize: result.deployedBytecodeSize,
+        estimatedDeployGas: result.estimatedDeployGas,
+        deployGasIsLowerBound: result.deployGasIsLowerBound,
+      });
+    }
+
+    return NextResponse.json({ contractName, levels });
+  } catch (error) {
+    if (error instanceof TokenBuildError) {
+      return NextResponse.json(
+        { error: 'Invalid contract configuration', details: error.conflicts },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CompileQueueFullError) {
+      return NextResponse.json(
+        { error: 'Compiler is busy, please try again shortly', details: error.message },
+        { status: 503 }
+      );
+    }
+    console.error('Error comparing optimization levels:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare optimization levels',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
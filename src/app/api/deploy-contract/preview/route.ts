@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { generateTokenContract, TokenBuildError } from '@/lib/token-builder';
+import { compileSolidity } from '@/lib/solidity/compiler';
+import { CompileQueueFullError } from '@/lib/solidity/compile-queue';
+import { getCompilerProfile } from '@/lib/solidity/profiles';
+import { ContractPreview } from '@/types';
+
+// Generate and compile contract details in memory without writing any files
+export async function POST(request: Request) {
+  try {
+    const { contractDetails, chainId } = await request.json();
+
+    if (!contractDetails) {
+      return NextResponse.json({ error: 'Contract details are required' }, { status: 400 });
+    }
+
+    const { source, contractName } = generateTokenContract(contractDetails);
+
+    const result = await compileSolidity({
+      source,
+      contractName,
+      profile: getCompilerProfile(
+        Number(chainId ?? contractDetails.chainId),
+        contractDetails.optimizationLevel,
+        contractDetails.fullMatch === true
+      ),
+    });
+
+    const preview: ContractPreview = {
+      contractCode: source,
+      contractName,
+      compiled: result.success,
+      compilerProfile: result.profile,
+      abi: result.abi,
+      bytecodeSize: result.bytecodeSize,
+      deployedBytecodeSize: result.deployedBytecodeSize,
+      estimatedDeployGas: result.estimatedDeployGas,
+      deployGasIsLowerBound: result.deployGasIsLowerBound,
+      errors: result.errors,
+      warnings: result.warnings,
+    };
+
+    // Compile errors are part of the preview, so they are returned with a 200
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof TokenBuildError) {
+      return NextResponse.json(
+        { error: 'Invalid contract configuration', details: error.conflicts },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CompileQueueFullError) {
+      return NextResponse.json(
+        { error: 'Compiler is busy, please try again shortly', details: error.message },
+        { status: 503 }
+      );
+    }
+    console.error('Error previewing contract:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to preview contract',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
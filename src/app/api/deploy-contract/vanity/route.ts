@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import {
+  CREATE2_FACTORY_ADDRESS,
+  mineVanitySalt,
+  normalizeVanityPattern,
+  validateVanityPattern,
+  VANITY_TIME_LIMIT_MS,
+} from '@/lib/deployments/create2';
+
+// Searches are CPU bound and share the server with the compiler, extra requests are turned away
+const MAX_ACTIVE_SEARCHES = 2;
+let activeSearches = 0;
+
+// Find a salt that deploys the given creation code to an address with the requested prefix and suffix
+export async function POST(request: Request) {
+  try {
+    const { initCodeHash, prefix: prefixInput, suffix: suffixInput } = await request.json();
+
+    if (typeof initCodeHash !== 'string' || !ethers.isHexString(initCodeHash, 32)) {
+      return NextResponse.json({ error: 'initCodeHash must be the keccak256 hash of the creation code' }, { status: 400 });
+    }
+    const prefix = normalizeVanityPattern(prefixInput);
+    const suffix = normalizeVanityPattern(suffixInput);
+    const problems = validateVanityPattern(prefix, suffix);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid vanity pattern', details: problems }, { status: 400 });
+    }
+
+    if (activeSearches >= MAX_ACTIVE_SEARCHES) {
+      return NextResponse.json(
+        { error: 'Too many address searches running, please try again shortly', details: `${activeSearches} active` },
+        { status: 503 }
+      );
+    }
+
+    activeSearches++;
+    try {
+      console.log(`Searching CREATE2 salt for 0x${prefix}...${suffix}`);
+      const startedAt = Date.now();
+      const result = await mineVanitySalt(initCodeHash, prefix, suffix);
+      if (!result) {
+        return NextResponse.json(
+          { error: 'No matching address found in time, try a shorter prefix or suffix', details: `${VANITY_TIME_LIMIT_MS / 1000}s limit` },
+          { status: 422 }
+        );
+      }
+      console.log(`Found ${result.address} after ${result.attempts} attempts in ${Date.now() - startedAt}ms`);
+      return NextResponse.json({ ...result, factory: CREATE2_FACTORY_ADDRESS });
+    } finally {
+      activeSearches--;
+    }
+  } catch (error) {
+    console.error('Error searching vanity address:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to search vanity address',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
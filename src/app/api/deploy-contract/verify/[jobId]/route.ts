@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getVerificationJob } from '@/lib/verification/jobs';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+// Current state of a verification job, including the explorer GUID and message once available
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { jobId } = await params;
+    const job = await getVerificationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Verification job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error reading verification job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read verification job',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
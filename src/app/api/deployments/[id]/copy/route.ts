@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { copyDeploymentArtifact } from '@/lib/deployments/registry';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Register the compiled artifacts of a deployment for another chain, used by multi-chain launches
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { chainId } = await request.json();
+
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      return NextResponse.json({ error: 'Invalid deployment copy', details: ['chainId must be a positive integer'] }, { status: 400 });
+    }
+
+    const deployment = await copyDeploymentArtifact(id, chainId);
+    if (!deployment) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deployment });
+  } catch (error) {
+    console.error('Error copying deployment:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to copy deployment',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
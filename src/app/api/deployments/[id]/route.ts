@@ -0,0 +1,185 @@
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { deleteDeployment, getDeployment, getDeploymentAbi, recordDeployment } from '@/lib/deployments/registry';
+import { checkDeploymentAuthorization } from '@/lib/deployments/authorization';
+import { ChainCheckError, checkContractCreation, checkLinkedContracts, getChainProvider, readContractOwner } from '@/lib/deployments/onchain';
+import { decodeConstructorArgs, normalizeConstructorArgs } from '@/lib/verification/constructor-args';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Get the manifest of a single deployment
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deployment = await getDeployment(id);
+
+    if (!deployment) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deployment });
+  } catch (error) {
+    console.error('Error reading deployment:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read deployment',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Record where a compiled contract was deployed, called by the client once the transaction is mined.
+// The creation is checked on the chain, which also supplies the owner, block and CREATE2 salt.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const {
+      chainId,
+      address,
+      txHash,
+      constructorArguments,
+      dividendTracker,
+      implementation,
+      proxyAdmin,
+      proxyConstructorArguments,
+    } = await request.json();
+
+    const problems: string[] = [];
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      problems.push('chainId must be a positive integer');
+    }
+    if (!ethers.isAddress(address)) {
+      problems.push('address must be a valid address');
+    }
+    if (typeof txHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+      problems.push('txHash must be a transaction hash');
+    }
+    if (dividendTracker !== undefined && dividendTracker !== null && !ethers.isAddress(dividendTracker)) {
+      problems.push('dividendTracker must be a valid address');
+    }
+    for (const [field, value] of [['implementation', implementation], ['proxyAdmin', proxyAdmin]] as const) {
+      if (value !== undefined && value !== null && !ethers.isAddress(value)) {
+        problems.push(`${field} must be a valid address`);
+      }
+    }
+    const argsHex = constructorArguments === undefined || constructorArguments === null
+      ? null
+      : normalizeConstructorArgs(constructorArguments);
+    if (constructorArguments !== undefined && constructorArguments !== null && argsHex === null) {
+      problems.push('constructorArguments must be hex encoded');
+    }
+    const proxyArgsHex = proxyConstructorArguments === undefined || proxyConstructorArguments === null
+      ? null
+      : normalizeConstructorArgs(proxyConstructorArguments);
+    if (proxyConstructorArguments !== undefined && proxyConstructorArguments !== null && proxyArgsHex === null) {
+      problems.push('proxyConstructorArguments must be hex encoded');
+    }
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid deployment record', details: problems }, { status: 400 });
+    }
+
+    // Arguments are only stored when they decode against the constructor the artifact was compiled with
+    if (argsHex !== null) {
+      const abi = await getDeploymentAbi(id);
+      if (!abi) {
+        return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+      }
+      try {
+        decodeConstructorArgs(abi, argsHex);
+      } catch (decodeError) {
+        return NextResponse.json({
+          error: 'Invalid deployment record',
+          details: [`constructorArguments do not match the constructor: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`]
+        }, { status: 400 });
+      }
+    }
+
+    const provider = getChainProvider(chainId);
+    if (!provider) {
+      return NextResponse.json({ error: 'Invalid deployment record', details: [`No RPC endpoint is configured for chain ${chainId}`] }, { status: 400 });
+    }
+    let creation;
+    try {
+      creation = await checkContractCreation(provider, txHash, address);
+    } catch (chainError) {
+      if (chainError instanceof ChainCheckError) {
+        return NextResponse.json({ error: 'Deployment not found on chain', details: [chainError.message] }, { status: 400 });
+      }
+      throw chainError;
+    }
+    const linkProblems = await checkLinkedContracts(provider, address, { implementation, proxyAdmin, dividendTracker });
+    if (linkProblems.length > 0) {
+      return NextResponse.json({ error: 'Deployment not found on chain', details: linkProblems }, { status: 400 });
+    }
+
+    const deployment = await recordDeployment(id, {
+      chainId,
+      address: creation.address,
+      txHash,
+      blockNumber: creation.blockNumber,
+      // Tokens report their owner, other contracts belong to the account that deployed them
+      owner: await readContractOwner(provider, address) ?? creation.from,
+      constructorArguments: argsHex,
+      dividendTracker,
+      implementation,
+      proxyAdmin,
+      proxyConstructorArguments: proxyArgsHex,
+      create2Salt: creation.create2Salt,
+    });
+    if (!deployment) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deployment });
+  } catch (error) {
+    console.error('Error recording deployment:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record deployment',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a deployment manifest and its artifacts, a deployed one only with a signature from its owner
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { authorization } = await request.json().catch(() => ({}));
+
+    const deployment = await getDeployment(id);
+    if (!deployment) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+    const owner = deployment.owner ?? deployment.state?.from;
+    if (owner) {
+      const problems = checkDeploymentAuthorization(id, 'delete', owner, authorization);
+      if (problems.length > 0) {
+        return NextResponse.json({ error: 'Not authorized to delete this deployment', details: problems }, { status: 401 });
+      }
+    }
+
+    const deleted = await deleteDeployment(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true, id });
+  } catch (error) {
+    console.error('Error deleting deployment:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete deployment',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { DeploymentStateConflictError, getDeployment, saveDeploymentState } from '@/lib/deployments/registry';
+import { checkDeploymentAuthorization } from '@/lib/deployments/authorization';
+import { validateDeploymentState } from '@/lib/deployments/state';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Save the progress of a deployment after every step, read back through GET /api/deployments/[id] to resume it.
+// Once the deploying wallet is known, only states signed by it replace the saved one.
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { state, authorization } = await request.json();
+
+    const problems = validateDeploymentState(state);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid deployment state', details: problems }, { status: 400 });
+    }
+
+    const deployment = await getDeployment(id);
+    if (!deployment) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+    const owner = deployment.owner ?? deployment.state?.from;
+    if (owner) {
+      const authorizationProblems = checkDeploymentAuthorization(id, 'update', owner, authorization);
+      if (authorizationProblems.length > 0) {
+        return NextResponse.json({ error: 'Not authorized to update this deployment', details: authorizationProblems }, { status: 401 });
+      }
+    }
+
+    const updated = await saveDeploymentState(id, state);
+    if (!updated) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deployment: updated });
+  } catch (error) {
+    // A finished or cancelled deployment is not brought back by a tab that still has it open
+    if (error instanceof DeploymentStateConflictError) {
+      return NextResponse.json({ error: error.message, details: [error.stage] }, { status: 409 });
+    }
+    console.error('Error saving deployment state:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save deployment state',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
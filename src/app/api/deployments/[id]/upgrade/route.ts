@@ -0,0 +1,219 @@
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { generateTokenContract, TokenBuildError } from '@/lib/token-builder';
+import { compileSolidity } from '@/lib/solidity/compiler';
+import { CompileQueueFullError } from '@/lib/solidity/compile-queue';
+import { flattenAndValidate } from '@/lib/solidity/flattener';
+import { compareStorageLayouts } from '@/lib/solidity/storage-layout';
+import {
+  createDeploymentArtifact,
+  getDeployment,
+  getStorageLayout,
+  recordDeployment,
+  recordUpgrade,
+} from '@/lib/deployments/registry';
+import { ChainCheckError, checkContractCreation, checkProxyUpgrade, getChainProvider, readContractOwner } from '@/lib/deployments/onchain';
+import { ContractDetails } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Compile a new implementation for an upgradeable deployment and check it against the storage layout
+// of the current one. Compatible implementations are registered and returned for the client to deploy,
+// with the reinitializer the proxy has to call in the upgrade transaction.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { contractDetails: changes } = await request.json();
+
+    const deployment = await getDeployment(id);
+    if (!deployment) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+    if (!deployment.proxy || !deployment.address) {
+      return NextResponse.json({ error: 'Deployment is not a deployed upgradeable token' }, { status: 400 });
+    }
+
+    // Only features can change: every other setting is an initial value the proxy already holds
+    const changedSettings = Object.keys(changes || {}).filter(key => key !== 'features');
+    if (changedSettings.length > 0 || !Array.isArray(changes?.features)) {
+      return NextResponse.json(
+        { error: 'Only the features of a deployed token can change in an upgrade', details: changedSettings },
+        { status: 400 }
+      );
+    }
+
+    // The new version builds on the implementation the proxy currently points at
+    const currentDeploymentId = deployment.proxy.upgrades[deployment.proxy.upgrades.length - 1]?.deploymentId || id;
+    const currentDeployment = currentDeploymentId === id ? deployment : await getDeployment(currentDeploymentId);
+    if (!currentDeployment) {
+      return NextResponse.json(
+        { error: 'The current implementation is not in the registry', details: [currentDeploymentId] },
+        { status: 409 }
+      );
+    }
+    const contractDetails: ContractDetails = { ...currentDeployment.contractDetails, features: changes.features };
+    const { source, contractName, upgradeInitializer } = generateTokenContract(contractDetails, {
+      previous: currentDeployment.contractDetails,
+      // initialize() was version 1, every upgrade adds one
+      version: deployment.proxy.upgrades.length + 2,
+    });
+    if (contractName !== deployment.contractName) {
+      return NextResponse.json({ error: 'The new implementation must keep the contract name' }, { status: 400 });
+    }
+
+    const compilationOutput = await compileSolidity({ source, contractName, profile: deployment.compilerProfile });
+    if (!compilationOutput.success || !compilationOutput.storageLayout) {
+      return NextResponse.json(
+        { error: 'Contract compilation failed', details: compilationOutput.errors },
+        { status: 400 }
+      );
+    }
+
+    // Compare with the implementation the proxy currently points at
+    const currentLayout = await getStorageLayout(currentDeploymentId);
+    if (!currentLayout) {
+      return NextResponse.json(
+        { error: 'No storage layout recorded for the current implementation', details: [currentDeploymentId] },
+        { status: 409 }
+      );
+    }
+    const storageLayoutCheck = compareStorageLayouts(currentLayout, compilationOutput.storageLayout);
+    console.log(`Storage layout check for upgrading ${id}:`, storageLayoutCheck);
+    if (!storageLayoutCheck.compatible) {
+      return NextResponse.json(
+        { error: 'Storage layout is not compatible', details: storageLayoutCheck.problems, storageLayoutCheck },
+        { status: 409 }
+      );
+    }
+
+    let verificationSource: string | undefined;
+    try {
+      const flattened = await flattenAndValidate({
+        source,
+        contractName,
+        profile: deployment.compilerProfile,
+        expectedBytecode: compilationOutput.bytecode,
+      });
+      verificationSource = flattened.source;
+    } catch (flattenError) {
+      console.error('Error flattening contract for verification:', flattenError);
+    }
+
+    const manifest = await createDeploymentArtifact({
+      contractName,
+      contractDetails,
+      chainId: deployment.chainId,
+      source,
+      abi: compilationOutput.abi,
+      bytecode: compilationOutput.bytecode,
+      metadata: compilationOutput.metadata,
+      compilerProfile: deployment.compilerProfile,
+      standardJsonInput: compilationOutput.standardJsonInput!,
+      verificationSource,
+      storageLayout: compilationOutput.storageLayout,
+    });
+
+    return NextResponse.json({
+      deploymentId: manifest.id,
+      contractCode: source,
+      abi: compilationOutput.abi,
+      bytecode: compilationOutput.bytecode,
+      compilerProfile: deployment.compilerProfile,
+      upgradeInitializer,
+      storageLayoutCheck,
+    });
+  } catch (error) {
+    if (error instanceof TokenBuildError) {
+      return NextResponse.json(
+        { error: 'Invalid contract configuration', details: error.conflicts },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CompileQueueFullError) {
+      return NextResponse.json(
+        { error: 'Compiler is busy, please try again shortly', details: error.message },
+        { status: 503 }
+      );
+    }
+    console.error('Error preparing upgrade:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to prepare upgrade',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Record that the proxy now points at a new implementation, called by the client once the upgrade is mined.
+// Both transactions are checked on the chain before anything is written.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { deploymentId, implementation, deployTxHash, upgradeTxHash } = await request.json();
+
+    const problems: string[] = [];
+    if (typeof deploymentId !== 'string' || deploymentId === id) {
+      problems.push('deploymentId must be the registered new implementation');
+    }
+    if (!ethers.isAddress(implementation)) {
+      problems.push('implementation must be a valid address');
+    }
+    for (const [field, value] of [['deployTxHash', deployTxHash], ['upgradeTxHash', upgradeTxHash]] as const) {
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(value)) {
+        problems.push(`${field} must be a transaction hash`);
+      }
+    }
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid upgrade record', details: problems }, { status: 400 });
+    }
+
+    const deployment = await getDeployment(id);
+    if (!deployment?.proxy || !deployment.chainId || !deployment.address) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    const provider = getChainProvider(deployment.chainId);
+    if (!provider) {
+      return NextResponse.json({ error: 'Invalid upgrade record', details: [`No RPC endpoint is configured for chain ${deployment.chainId}`] }, { status: 400 });
+    }
+    let creation;
+    try {
+      creation = await checkContractCreation(provider, deployTxHash, implementation);
+      await checkProxyUpgrade(provider, deployment.address, implementation, upgradeTxHash);
+    } catch (chainError) {
+      if (chainError instanceof ChainCheckError) {
+        return NextResponse.json({ error: 'Upgrade not found on chain', details: [chainError.message] }, { status: 400 });
+      }
+      throw chainError;
+    }
+
+    // The implementation takes no constructor arguments, its initializer already ran through the proxy
+    const implementationDeployment = await recordDeployment(deploymentId, {
+      chainId: deployment.chainId,
+      address: creation.address,
+      txHash: deployTxHash,
+      blockNumber: creation.blockNumber,
+      owner: await readContractOwner(provider, deployment.address) ?? creation.from,
+      constructorArguments: '',
+    });
+    if (!implementationDeployment) {
+      return NextResponse.json({ error: 'Implementation deployment not found' }, { status: 404 });
+    }
+
+    const updated = await recordUpgrade(id, { deploymentId, implementation, txHash: upgradeTxHash });
+    return NextResponse.json({ deployment: updated, implementation: implementationDeployment });
+  } catch (error) {
+    console.error('Error recording upgrade:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record upgrade',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { listDeployments } from '@/lib/deployments/registry';
+import { VerificationStatus } from '@/types';
+
+const VERIFICATION_STATUSES: VerificationStatus[] = ['unverified', 'pending', 'success', 'failed'];
+
+// List registered deployments, optionally filtered by chain, owner, address or verification status
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const chainId = searchParams.get('chainId');
+    const verificationStatus = searchParams.get('verificationStatus');
+
+    if (chainId !== null && !/^\d+$/.test(chainId)) {
+      return NextResponse.json({ error: 'chainId must be a number' }, { status: 400 });
+    }
+    if (verificationStatus !== null && !VERIFICATION_STATUSES.includes(verificationStatus as VerificationStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid verification status', details: VERIFICATION_STATUSES },
+        { status: 400 }
+      );
+    }
+
+    const deployments = await listDeployments({
+      chainId: chainId !== null ? Number(chainId) : undefined,
+      owner: searchParams.get('owner') || undefined,
+      address: searchParams.get('address') || undefined,
+      verificationStatus: (verificationStatus as VerificationStatus) || undefined,
+    });
+
+    return NextResponse.json({ deployments });
+  } catch (error) {
+    console.error('Error listing deployments:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list deployments',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
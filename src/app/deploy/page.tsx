@@ -37,8 +37,19 @@ export default function ContractDeploy() {
     deploymentError,
     deploymentProgress,
     deploymentStatus,
+    contractPreview,
+    isPreviewing,
+    previewError,
+    optimizationComparison,
+    isComparingOptimization,
+    handleCompareOptimization,
     handleAutoGenerate,
     handleDeploy: baseHandleDeploy,
+    pendingDeployment,
+    resumeDeployment: baseResumeDeployment,
+    cancelDeployment,
+    multiChainDeployment,
+    handleMultiChainDeploy: baseHandleMultiChainDeploy,
     handleFeatureToggle,
     handleLogoUpload
   } = useContractDeployment();
@@ -52,6 +63,23 @@ export default function ContractDeploy() {
     await baseHandleDeploy(signer, provider, chainId);
   };
 
+  const resumeDeployment = async () => {
+    if (!signer || !provider) {
+      alert('Please connect your wallet first');
+      return;
+    }
+    await baseResumeDeployment(signer, provider);
+  };
+
+  // The wallet is switched to each selected network in turn
+  const handleMultiChainDeploy = async (chainIds: number[]) => {
+    if (!signer || !provider) {
+      alert('Please connect your wallet first');
+      return;
+    }
+    await baseHandleMultiChainDeploy(chainIds);
+  };
+
   const getBlockExplorerUrl = (address: string) => {
     switch (chainId) {
       case 1: return `https://etherscan.io/address/${address}`;
@@ -104,12 +132,24 @@ export default function ContractDeploy() {
             deploymentError={deploymentError}
             deploymentProgress={deploymentProgress}
             deploymentStatus={deploymentStatus}
+            contractPreview={contractPreview}
+            isPreviewing={isPreviewing}
+            previewError={previewError}
+            optimizationComparison={optimizationComparison}
+            isComparingOptimization={isComparingOptimization}
+            handleCompareOptimization={handleCompareOptimization}
             handleAutoGenerate={handleAutoGenerate}
             handleDeploy={handleDeploy}
+            pendingDeployment={pendingDeployment}
+            resumeDeployment={resumeDeployment}
+            cancelDeployment={cancelDeployment}
+            multiChainDeployment={multiChainDeployment}
+            handleMultiChainDeploy={handleMultiChainDeploy}
             handleFeatureToggle={handleFeatureToggle}
             handleLogoUpload={handleLogoUpload}
             getBlockExplorerUrl={getBlockExplorerUrl}
             fileInputRef={fileInputRef}
+            chainId={chainId}
           />
         )}
 
@@ -1,8 +1,134 @@
 'use client';
 
-import { RefObject } from 'react';
-import { ContractDetails, DeploymentResult } from '@/types';
-import { FEATURES } from '@/constants/networks';
+import { RefObject, useState } from 'react';
+import {
+  AntiBotSettings,
+  ChainDeploymentStatus,
+  ContractDetails,
+  ContractPreview,
+  DeploymentCompanion,
+  DeploymentResult,
+  DeploymentStage,
+  DeploymentState,
+  DividendSettings,
+  MultiChainDeployment,
+  OptimizationComparison,
+  OptimizationLevel,
+  ProxyKind,
+  TaxDistribution,
+  TokenAllocation,
+  TokenTemplate,
+  TransactionLimits,
+} from '@/types';
+import { FEATURES, NETWORK_CONFIG, TOKEN_PAIRS } from '@/constants/networks';
+import {
+  ALLOCATION_BASIS_POINTS,
+  CLAIM_WAIT_LIMITS,
+  DEFAULT_ALLOCATIONS,
+  DEFAULT_ANTI_BOT_SETTINGS,
+  DEFAULT_DIVIDEND_SETTINGS,
+  DEFAULT_REFLECTION_FEE,
+  DEFAULT_TAX_DISTRIBUTION,
+  DEFAULT_TRANSACTION_LIMITS,
+  distributionShares,
+  GAS_FOR_PROCESSING_LIMITS,
+  LIMIT_NAMES,
+  MAX_ALLOCATIONS,
+  MAX_REFLECTION_FEE,
+  MAX_VESTING_DAYS,
+  NATIVE_DIVIDEND_TOKEN,
+  PROXY_KINDS,
+  REFLECTION_INCOMPATIBLE_FEATURES,
+  TAX_BASIS_POINTS,
+} from '@/lib/token-builder';
+import { MAX_VANITY_LENGTH, normalizeVanityPattern, validateVanityPattern } from '@/lib/deployments/create2';
+import { DEPLOYMENT_STEPS, isFinalStage } from '@/lib/deployments/state';
+import { getBlockExplorerUrl as getChainExplorerUrl, getNetworkName, getTransactionUrl } from '@/utils/blockchain';
+
+const OPTIMIZATION_LEVEL_LABELS: Record<OptimizationLevel, string> = {
+  none: 'None',
+  standard: 'Standard (200 runs)',
+  high: 'High (1000 runs, via IR)',
+};
+
+const TEMPLATE_OPTIONS: Array<{ id: TokenTemplate; name: string; description: string }> = [
+  { id: 'standard', name: 'Standard ERC20', description: 'OpenZeppelin ERC20 with the selected features and optional buy/sell tax' },
+  { id: 'reflection', name: 'Reflection (RFI)', description: 'Every transfer pays a fee that is redistributed to all holders' },
+  { id: 'dividend', name: 'Dividend', description: 'A share of the tax is swapped and paid to holders in ETH or a stablecoin' },
+];
+
+const PROXY_KIND_LABELS: Record<ProxyKind, string> = {
+  uups: 'UUPS proxy',
+  transparent: 'Transparent proxy',
+};
+
+const CHAIN_STATUS_LABELS: Record<ChainDeploymentStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'text-white/60' },
+  switching: { label: 'Switching network', className: 'text-yellow-300' },
+  deploying: { label: 'Deploying', className: 'text-yellow-300' },
+  deployed: { label: 'Deployed', className: 'text-green-300' },
+  failed: { label: 'Failed', className: 'text-red-300' },
+};
+
+const DEPLOYMENT_STAGE_LABELS: Record<DeploymentStage, string> = {
+  generated: 'Generated',
+  compiled: 'Compiled',
+  signed: 'Signed',
+  broadcast: 'Broadcast',
+  mined: 'Mined',
+  verified: 'Verified',
+  metadata_submitted: 'Metadata Submitted',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const DEPLOYMENT_COMPANION_LABELS: Record<DeploymentCompanion, string> = {
+  proxyAdmin: 'Proxy Admin',
+  proxy: 'Proxy',
+  routerLink: 'Router Link',
+  dividendTracker: 'Dividend Tracker',
+  dividendTrackerLink: 'Dividend Tracker Link',
+};
+
+const TAX_SHARE_LABELS: Record<keyof TaxDistribution, string> = {
+  marketing: 'Marketing',
+  liquidity: 'Auto-Liquidity',
+  burn: 'Burn',
+  dev: 'Dev',
+  treasury: 'Treasury',
+  dividends: 'Holder Dividends',
+};
+
+const TAX_WALLET_FIELDS: Array<{ key: 'marketingWallet' | 'devWallet' | 'treasuryWallet'; label: string }> = [
+  { key: 'marketingWallet', label: 'Marketing Wallet' },
+  { key: 'devWallet', label: 'Dev Wallet' },
+  { key: 'treasuryWallet', label: 'Treasury Wallet' },
+];
+
+const LIMIT_LABELS: Record<keyof TransactionLimits, string> = {
+  maxTransaction: 'Max Transaction',
+  maxWallet: 'Max Wallet',
+};
+
+// Whole-number dividend settings, the reward token has its own select
+const DIVIDEND_FIELDS: Array<{ key: Exclude<keyof DividendSettings, 'rewardToken'>; label: string; min?: number; max?: number }> = [
+  { key: 'claimWait', label: 'Claim Wait (seconds)', min: CLAIM_WAIT_LIMITS.min, max: CLAIM_WAIT_LIMITS.max },
+  { key: 'gasForProcessing', label: 'Gas for Auto-Processing', min: GAS_FOR_PROCESSING_LIMITS.min, max: GAS_FOR_PROCESSING_LIMITS.max },
+  { key: 'minimumTokenBalance', label: 'Minimum Balance (tokens)', min: 0 },
+];
+
+// Settings shown for each selected anti-bot feature
+// Segment colors of the tokenomics breakdown bar, by row
+const ALLOCATION_COLORS = ['bg-purple-500', 'bg-blue-500', 'bg-pink-500', 'bg-green-500', 'bg-yellow-500', 'bg-orange-500', 'bg-cyan-500', 'bg-red-500', 'bg-indigo-500', 'bg-teal-500'];
+
+const ANTI_BOT_FIELDS: Array<{ feature: string; key: keyof AntiBotSettings; label: string }> = [
+  { feature: 'sniper tax', key: 'sniperTaxBlocks', label: 'Sniper Tax Blocks' },
+  { feature: 'sniper tax', key: 'sniperTax', label: 'Sniper Tax (%)' },
+  { feature: 'block limit', key: 'maxTradesPerBlock', label: 'Max Trades per Block' },
+  { feature: 'transfer delay', key: 'transferDelayBlocks', label: 'Transfer Delay (blocks)' },
+  { feature: 'blacklist', key: 'blacklistWindowBlocks', label: 'Blacklist Window (blocks)' },
+  { feature: 'buy cooldown', key: 'buyCooldownSeconds', label: 'Buy Cooldown (seconds)' },
+];
 
 interface DeployTabProps {
   contractDetails: ContractDetails;
@@ -12,12 +138,24 @@ interface DeployTabProps {
   deploymentError: string;
   deploymentProgress: number;
   deploymentStatus: string;
+  contractPreview: ContractPreview | null;
+  isPreviewing: boolean;
+  previewError: string;
+  optimizationComparison: OptimizationComparison[] | null;
+  isComparingOptimization: boolean;
+  handleCompareOptimization: () => void;
   handleAutoGenerate: () => void;
   handleDeploy: () => void;
+  pendingDeployment: DeploymentState | null;
+  resumeDeployment: () => void;
+  cancelDeployment: () => void;
+  multiChainDeployment: MultiChainDeployment | null;
+  handleMultiChainDeploy: (chainIds: number[]) => void;
   handleFeatureToggle: (featureId: string) => void;
   handleLogoUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   getBlockExplorerUrl: (address: string) => string;
   fileInputRef: RefObject<HTMLInputElement | null>;
+  chainId: number;
 }
 
 export function DeployTab({
@@ -28,13 +166,53 @@ export function DeployTab({
   deploymentError,
   deploymentProgress,
   deploymentStatus,
+  contractPreview,
+  isPreviewing,
+  previewError,
+  optimizationComparison,
+  isComparingOptimization,
+  handleCompareOptimization,
   handleAutoGenerate,
   handleDeploy,
+  pendingDeployment,
+  resumeDeployment,
+  cancelDeployment,
+  multiChainDeployment,
+  handleMultiChainDeploy,
   handleFeatureToggle,
   handleLogoUpload,
   getBlockExplorerUrl,
-  fileInputRef
+  fileInputRef,
+  chainId
 }: DeployTabProps) {
+  const taxDistribution = contractDetails.taxDistribution || DEFAULT_TAX_DISTRIBUTION;
+  const taxDistributionTotal = distributionShares(taxDistribution).reduce((sum, share) => sum + (taxDistribution[share] ?? 0), 0);
+  const vanityLength = (contractDetails.create2?.prefix.length || 0) + (contractDetails.create2?.suffix.length || 0);
+  const vanityProblems = contractDetails.create2
+    ? validateVanityPattern(contractDetails.create2.prefix, contractDetails.create2.suffix)
+    : [];
+  const antiBotFields = ANTI_BOT_FIELDS.filter(field => contractDetails.features.includes(field.feature));
+  const limits = contractDetails.limits || DEFAULT_TRANSACTION_LIMITS;
+  const isReflection = contractDetails.template === 'reflection';
+  const isDividend = contractDetails.template === 'dividend';
+  const dividends = contractDetails.dividends || DEFAULT_DIVIDEND_SETTINGS;
+  const allocations = contractDetails.allocations || DEFAULT_ALLOCATIONS;
+  const allocationTotal = allocations.reduce((sum, allocation) => sum + Math.round((parseFloat(allocation.percent) || 0) * 100), 0);
+  const [launchChainIds, setLaunchChainIds] = useState<number[]>([]);
+
+  // Helper function to add or remove a network from the multi-chain launch
+  const toggleLaunchChain = (id: number) => {
+    setLaunchChainIds(prev => prev.includes(id) ? prev.filter(chain => chain !== id) : [...prev, id]);
+  };
+
+  // Helper function to change one row of the tokenomics table
+  const updateAllocation = (index: number, changes: Partial<TokenAllocation>) => {
+    setContractDetails(prev => ({
+      ...prev,
+      allocations: (prev.allocations || DEFAULT_ALLOCATIONS).map((allocation, i) => i === index ? { ...allocation, ...changes } : allocation),
+    }));
+  };
+
   return (
     <div className="space-y-6">
       {/* Action Buttons */}
@@ -54,6 +232,91 @@ export function DeployTab({
         </button>
       </div>
 
+      {/* Pending Deployment */}
+      {pendingDeployment && !isFinalStage(pendingDeployment.stage) && (
+        <div className="bg-yellow-500/10 backdrop-blur-xl rounded-2xl border border-yellow-500/30 p-6">
+          <h3 className="text-xl font-bold text-yellow-300 mb-2 font-space-grotesk">Pending Deployment</h3>
+          <p className="text-white/60 text-sm mb-4 font-dm-sans">
+            A deployment on {getNetworkName(pendingDeployment.chainId)} did not finish. Resume it to pick up where it stopped,
+            or cancel it to start over.
+          </p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {DEPLOYMENT_STEPS.map((stage, index) => {
+              const current = DEPLOYMENT_STEPS.indexOf(pendingDeployment.stage);
+              return (
+                <span
+                  key={stage}
+                  className={`px-3 py-1 rounded-full text-xs font-open-sans border ${
+                    index < current
+                      ? 'bg-green-500/20 border-green-500/30 text-green-300'
+                      : index === current
+                        ? 'bg-yellow-500/20 border-yellow-500/30 text-yellow-300'
+                        : 'bg-black/30 border-white/10 text-white/40'
+                  }`}
+                >
+                  {DEPLOYMENT_STAGE_LABELS[stage]}
+                </span>
+              );
+            })}
+          </div>
+          <div className="space-y-2 mb-4">
+            {pendingDeployment.address && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">Contract Address:</span>
+                <div className="text-white font-mono text-sm break-all mt-1">{pendingDeployment.address}</div>
+              </div>
+            )}
+            {pendingDeployment.txHash && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">Transaction Hash:</span>
+                <a
+                  href={getTransactionUrl(pendingDeployment.chainId, pendingDeployment.txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-yellow-300 hover:text-yellow-200 font-mono text-sm break-all mt-1 underline"
+                >
+                  {pendingDeployment.txHash}
+                </a>
+              </div>
+            )}
+            {Object.entries(pendingDeployment.companions || {}).map(([companion, progress]) => progress.txHash && (
+              <div key={companion}>
+                <span className="text-white/80 text-sm font-open-sans">
+                  {DEPLOYMENT_COMPANION_LABELS[companion as DeploymentCompanion]} ({DEPLOYMENT_STAGE_LABELS[progress.stage]}):
+                </span>
+                <a
+                  href={getTransactionUrl(pendingDeployment.chainId, progress.txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-yellow-300 hover:text-yellow-200 font-mono text-sm break-all mt-1 underline"
+                >
+                  {progress.txHash}
+                </a>
+              </div>
+            ))}
+            {pendingDeployment.error && (
+              <p className="text-red-300 text-sm font-dm-sans">{pendingDeployment.error}</p>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-semibold rounded-lg transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={resumeDeployment}
+              disabled={isDeploying}
+            >
+              {isDeploying ? 'Deploying...' : 'Resume Deployment'}
+            </button>
+            <button
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all duration-200 text-sm font-open-sans disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={cancelDeployment}
+              disabled={isDeploying}
+            >
+              Cancel Deployment
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Basic Contract Details */}
       <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
         <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Basic Details</h3>
@@ -133,6 +396,134 @@ export function DeployTab({
         </div>
       </div>
 
+      {/* Token Template */}
+      <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+        <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Token Type</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {TEMPLATE_OPTIONS.map(option => (
+            <div key={option.id} className="bg-black/30 rounded-xl p-4 border border-white/10">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="token-template"
+                  className="mt-1 w-4 h-4 text-purple-500 bg-black/50 border-white/20 focus:ring-purple-500 focus:ring-2"
+                  checked={(contractDetails.template || 'standard') === option.id}
+                  onChange={() => setContractDetails(prev => {
+                    // Only dividend tokens have a dividends share in the fee distribution
+                    const { dividends: dividendShare, ...shares } = prev.taxDistribution || DEFAULT_TAX_DISTRIBUTION;
+                    return {
+                      ...prev,
+                      template: option.id,
+                      // Features built on OpenZeppelin's ERC20 internals are not available on reflected balances
+                      features: option.id === 'reflection'
+                        ? prev.features.filter(feature => !REFLECTION_INCOMPATIBLE_FEATURES.includes(feature))
+                        : prev.features,
+                      taxDistribution: option.id === 'dividend' ? { ...shares, dividends: dividendShare ?? 0 } : shares,
+                    };
+                  })}
+                />
+                <div className="flex-1">
+                  <h4 className="text-white font-semibold mb-1 font-open-sans">{option.name}</h4>
+                  <p className="text-white/60 text-sm font-dm-sans">{option.description}</p>
+                </div>
+              </label>
+            </div>
+          ))}
+        </div>
+        {isReflection && (
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Reflection Fee (%)</label>
+              <input
+                type="number"
+                min="0"
+                max={MAX_REFLECTION_FEE}
+                className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                value={contractDetails.reflectionFee ?? DEFAULT_REFLECTION_FEE}
+                onChange={(e) => setContractDetails(prev => ({ ...prev, reflectionFee: parseInt(e.target.value) || 0 }))}
+                placeholder={String(DEFAULT_REFLECTION_FEE)}
+              />
+            </div>
+            <p className="text-white/60 text-sm font-dm-sans self-end">
+              Charged on every transfer on top of the buy and sell tax. The owner can exclude wallets such as the pair from rewards.
+            </p>
+          </div>
+        )}
+        {isDividend && (
+          <div className="mt-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Reward Token</label>
+                <select
+                  className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={dividends.rewardToken}
+                  onChange={(e) => setContractDetails(prev => ({
+                    ...prev,
+                    dividends: { ...(prev.dividends || DEFAULT_DIVIDEND_SETTINGS), rewardToken: e.target.value },
+                  }))}
+                >
+                  <option value={NATIVE_DIVIDEND_TOKEN}>ETH (native)</option>
+                  {TOKEN_PAIRS[chainId]?.map(token => (
+                    <option key={token.address} value={token.address}>{token.symbol}</option>
+                  ))}
+                </select>
+              </div>
+              {DIVIDEND_FIELDS.map(({ key, label, min, max }) => (
+                <div key={key}>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">{label}</label>
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                    value={dividends[key]}
+                    onChange={(e) => setContractDetails(prev => ({
+                      ...prev,
+                      dividends: {
+                        ...(prev.dividends || DEFAULT_DIVIDEND_SETTINGS),
+                        [key]: key === 'minimumTokenBalance' ? e.target.value : parseInt(e.target.value) || 0,
+                      },
+                    }))}
+                    placeholder={String(DEFAULT_DIVIDEND_SETTINGS[key])}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-white/60 text-sm font-dm-sans">
+              Set a buy or sell tax and a Holder Dividends share below. A dividend tracker contract is deployed and linked right after the token; holders are paid automatically on transfers or can claim at any time.
+            </p>
+          </div>
+        )}
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Upgradeability</label>
+            <select
+              className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white focus:outline-none focus:border-purple-500 transition-all duration-200"
+              value={contractDetails.upgradeable || ''}
+              onChange={(e) => setContractDetails(prev => ({
+                ...prev,
+                upgradeable: (e.target.value || null) as ProxyKind | null,
+                // CREATE2 deployment is only offered for tokens without a proxy
+                create2: e.target.value ? null : prev.create2,
+              }))}
+            >
+              <option value="">Not upgradeable</option>
+              {PROXY_KINDS.map(kind => (
+                <option key={kind} value={kind}>{PROXY_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-white/60 text-sm font-dm-sans self-end">
+            {contractDetails.upgradeable === 'uups'
+              ? 'The token lives behind an ERC1967 proxy and the owner upgrades it through the token itself.'
+              : contractDetails.upgradeable === 'transparent'
+                ? 'The token lives behind a transparent proxy and the owner upgrades it through a separate proxy admin.'
+                : 'The deployed code can never change.'}
+            {contractDetails.upgradeable && ' New versions can be deployed from the Manage tab as long as their storage layout stays compatible.'}
+          </p>
+        </div>
+      </div>
+
       {/* Tax Configuration */}
       <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
         <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Tax Configuration</h3>
@@ -162,6 +553,219 @@ export function DeployTab({
             />
           </div>
         </div>
+
+        {(contractDetails.buyTax > 0 || contractDetails.sellTax > 0) && (
+          <div className="mt-6 space-y-6">
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="text-white font-semibold font-open-sans">Fee Distribution (%)</h4>
+                <span className={`text-sm font-dm-sans ${taxDistributionTotal === TAX_BASIS_POINTS ? 'text-green-400' : 'text-red-400'}`}>
+                  Total: {(taxDistributionTotal / 100).toFixed(2)}%
+                </span>
+              </div>
+              <div className={`grid grid-cols-2 gap-4 ${isDividend ? 'md:grid-cols-6' : 'md:grid-cols-5'}`}>
+                {distributionShares(taxDistribution).map(share => (
+                  <div key={share}>
+                    <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">{TAX_SHARE_LABELS[share]}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                      value={(taxDistribution[share] ?? 0) / 100}
+                      onChange={(e) => setContractDetails(prev => ({
+                        ...prev,
+                        taxDistribution: {
+                          ...(prev.taxDistribution || DEFAULT_TAX_DISTRIBUTION),
+                          [share]: Math.round((parseFloat(e.target.value) || 0) * 100),
+                        },
+                      }))}
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-white/60 text-sm mt-2 font-dm-sans">
+                Burned fees are destroyed on every taxed trade, the rest is swapped to ETH and paid out
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {TAX_WALLET_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">{label}</label>
+                  <input
+                    type="text"
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                    value={contractDetails[key] || ''}
+                    onChange={(e) => setContractDetails(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="Deployer address"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Transaction Limits */}
+      <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+        <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Transaction Limits</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {LIMIT_NAMES.map(name => (
+            <div key={name}>
+              <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">{LIMIT_LABELS[name]}</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step={limits[name].mode === 'percent' ? '0.01' : '1'}
+                  className="flex-1 px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={limits[name].value}
+                  onChange={(e) => setContractDetails(prev => ({
+                    ...prev,
+                    limits: {
+                      ...(prev.limits || DEFAULT_TRANSACTION_LIMITS),
+                      [name]: { ...(prev.limits || DEFAULT_TRANSACTION_LIMITS)[name], value: e.target.value },
+                    },
+                  }))}
+                  placeholder="1"
+                />
+                <select
+                  className="px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={limits[name].mode}
+                  onChange={(e) => setContractDetails(prev => ({
+                    ...prev,
+                    limits: {
+                      ...(prev.limits || DEFAULT_TRANSACTION_LIMITS),
+                      [name]: { ...(prev.limits || DEFAULT_TRANSACTION_LIMITS)[name], mode: e.target.value as 'percent' | 'amount' },
+                    },
+                  }))}
+                >
+                  <option value="percent">% of supply</option>
+                  <option value="amount">Tokens</option>
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-white/60 text-sm mt-2 font-dm-sans">
+          Applies to buys, sells and transfers of all holders except the deployer and excluded wallets. After deployment the owner can only raise the limits.
+        </p>
+      </div>
+
+      {/* Tokenomics */}
+      <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-white font-space-grotesk">Tokenomics</h3>
+          <span className={`text-sm font-dm-sans ${allocationTotal === ALLOCATION_BASIS_POINTS ? 'text-green-400' : 'text-red-400'}`}>
+            Total: {(allocationTotal / 100).toFixed(2)}%
+          </span>
+        </div>
+        <div className="flex h-3 rounded-full overflow-hidden bg-black/30 mb-6">
+          {allocations.map((allocation, index) => (
+            <div
+              key={index}
+              className={ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}
+              style={{ width: `${Math.min(parseFloat(allocation.percent) || 0, 100)}%` }}
+              title={`${allocation.name}: ${allocation.percent || 0}%`}
+            />
+          ))}
+        </div>
+        <div className="space-y-4">
+          {allocations.map((allocation, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+              <div>
+                <label className="flex items-center gap-2 text-white/80 text-sm font-medium mb-2 font-open-sans">
+                  <span className={`w-3 h-3 rounded-full ${ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}`} />
+                  Allocation
+                </label>
+                <input
+                  type="text"
+                  className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={allocation.name}
+                  onChange={(e) => updateAllocation(index, { name: e.target.value })}
+                  placeholder="Team"
+                />
+              </div>
+              <div>
+                <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Supply (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={allocation.percent}
+                  onChange={(e) => updateAllocation(index, { percent: e.target.value })}
+                  placeholder="0"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Beneficiary</label>
+                <input
+                  type="text"
+                  className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={allocation.beneficiary}
+                  onChange={(e) => updateAllocation(index, { beneficiary: e.target.value })}
+                  placeholder="Deployer address"
+                />
+              </div>
+              <div>
+                <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Cliff (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={MAX_VESTING_DAYS}
+                  className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                  value={allocation.cliffDays}
+                  onChange={(e) => updateAllocation(index, { cliffDays: parseInt(e.target.value) || 0 })}
+                  placeholder="0"
+                />
+              </div>
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Vesting (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={MAX_VESTING_DAYS}
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                    value={allocation.vestingDays}
+                    onChange={(e) => updateAllocation(index, { vestingDays: parseInt(e.target.value) || 0 })}
+                    placeholder="0"
+                  />
+                </div>
+                <button
+                  className="self-end px-3 py-3 bg-white/10 hover:bg-red-500/30 text-white/80 rounded-lg transition-all duration-200 border border-white/20"
+                  onClick={() => setContractDetails(prev => ({
+                    ...prev,
+                    allocations: (prev.allocations || DEFAULT_ALLOCATIONS).filter((_, i) => i !== index),
+                  }))}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        {allocations.length < MAX_ALLOCATIONS && (
+          <button
+            className="mt-4 px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg transition-all duration-200 border border-white/20"
+            onClick={() => setContractDetails(prev => ({
+              ...prev,
+              allocations: [
+                ...(prev.allocations || DEFAULT_ALLOCATIONS),
+                { name: '', percent: '0', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+              ],
+            }))}
+          >
+            Add Allocation
+          </button>
+        )}
+        <p className="text-white/60 text-sm mt-2 font-dm-sans">
+          The supply is split in the constructor and must add up to 100%. Allocations with a cliff or vesting period go to a vesting wallet that releases them linearly to the beneficiary after the cliff.
+        </p>
       </div>
 
       {/* Features */}
@@ -176,6 +780,7 @@ export function DeployTab({
                   className="mt-1 w-4 h-4 text-purple-500 bg-black/50 border-white/20 rounded focus:ring-purple-500 focus:ring-2"
                   checked={contractDetails.features.includes(feature.id)}
                   onChange={() => handleFeatureToggle(feature.id)}
+                  disabled={isReflection && REFLECTION_INCOMPATIBLE_FEATURES.includes(feature.id)}
                 />
                 <div className="flex-1">
                   <h4 className="text-white font-semibold mb-1 font-open-sans">{feature.name}</h4>
@@ -185,8 +790,240 @@ export function DeployTab({
             </div>
           ))}
         </div>
+
+        {antiBotFields.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-white font-semibold mb-4 font-open-sans">Launch Protection</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {antiBotFields.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">{label}</label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                    value={(contractDetails.antiBot || DEFAULT_ANTI_BOT_SETTINGS)[key]}
+                    onChange={(e) => setContractDetails(prev => ({
+                      ...prev,
+                      antiBot: {
+                        ...(prev.antiBot || DEFAULT_ANTI_BOT_SETTINGS),
+                        [key]: parseInt(e.target.value) || 0,
+                      },
+                    }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Deterministic Address */}
+      <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+        <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Deterministic Address</h3>
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1 w-4 h-4 text-purple-500 bg-black/50 border-white/20 rounded focus:ring-purple-500 focus:ring-2"
+            checked={!!contractDetails.create2}
+            onChange={(e) => setContractDetails(prev => ({ ...prev, create2: e.target.checked ? { prefix: '', suffix: '' } : null }))}
+            disabled={!!contractDetails.upgradeable}
+          />
+          <div className="flex-1">
+            <h4 className="text-white font-semibold mb-1 font-open-sans">Deploy with CREATE2</h4>
+            <p className="text-white/60 text-sm font-dm-sans">
+              {contractDetails.upgradeable
+                ? 'Not available for upgradeable tokens.'
+                : 'The token address is computed before you sign and is the same on every supported chain when deployed from this wallet with the same settings.'}
+            </p>
+          </div>
+        </label>
+        {contractDetails.create2 && (
+          <div className="mt-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {(['prefix', 'suffix'] as const).map(key => (
+                <div key={key}>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">
+                    {key === 'prefix' ? 'Address Starts With' : 'Address Ends With'}
+                  </label>
+                  <input
+                    type="text"
+                    maxLength={MAX_VANITY_LENGTH}
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white font-mono placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                    value={contractDetails.create2?.[key] ?? ''}
+                    onChange={(e) => setContractDetails(prev => ({
+                      ...prev,
+                      create2: { ...(prev.create2 || { prefix: '', suffix: '' }), [key]: normalizeVanityPattern(e.target.value) },
+                    }))}
+                    placeholder={key === 'prefix' ? '0000' : 'dead'}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className={`text-sm font-dm-sans ${vanityProblems.length > 0 ? 'text-red-300' : 'text-white/60'}`}>
+              {vanityProblems.length > 0
+                ? vanityProblems.join('. ')
+                : vanityLength > 0
+                  ? `0x${contractDetails.create2.prefix}...${contractDetails.create2.suffix}, about ${Math.pow(16, vanityLength).toLocaleString()} attempts to find.`
+                  : 'Leave both empty to skip the address search.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Multi-Chain Launch */}
+      <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+        <h3 className="text-xl font-bold text-white mb-2 font-space-grotesk">Multi-Chain Launch</h3>
+        <p className="text-white/60 text-sm mb-6 font-dm-sans">
+          Deploy the same compiled token to every selected network. Your wallet asks to switch network before each deployment.
+          {contractDetails.create2 && ' With CREATE2 the token gets the same address on each of them.'}
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          {Object.entries(NETWORK_CONFIG).map(([id, network]) => (
+            <label key={id} className="flex items-center gap-3 p-3 bg-black/30 rounded-lg border border-white/10 cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 text-purple-500 bg-black/50 border-white/20 rounded focus:ring-purple-500 focus:ring-2"
+                checked={launchChainIds.includes(Number(id))}
+                onChange={() => toggleLaunchChain(Number(id))}
+              />
+              <span className="text-white text-sm font-open-sans">{network.name}</span>
+            </label>
+          ))}
+        </div>
+        <button
+          className="px-6 py-3 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-semibold rounded-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={() => handleMultiChainDeploy(launchChainIds)}
+          disabled={isDeploying || launchChainIds.length === 0}
+        >
+          {isDeploying && multiChainDeployment ? 'Launching...' : `Deploy to ${launchChainIds.length} Network${launchChainIds.length === 1 ? '' : 's'}`}
+        </button>
       </div>
 
+      {/* Contract Preview */}
+      {(contractPreview || isPreviewing || previewError) && (
+        <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold text-white font-space-grotesk">Contract Preview</h3>
+            {isPreviewing && <span className="text-white/60 text-sm font-dm-sans">Compiling...</span>}
+          </div>
+
+          {previewError && (
+            <p className="text-red-300 text-sm font-dm-sans mb-4">{previewError}</p>
+          )}
+
+          {contractPreview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                  <span className="text-white/60 text-sm font-open-sans">Status</span>
+                  <div className={`font-semibold mt-1 ${contractPreview.compiled ? 'text-green-400' : 'text-red-400'}`}>
+                    {contractPreview.compiled ? 'Compiles' : `${contractPreview.errors.length} error(s)`}
+                  </div>
+                </div>
+                <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                  <span className="text-white/60 text-sm font-open-sans">Runtime Bytecode</span>
+                  <div className={`font-semibold mt-1 ${contractPreview.deployedBytecodeSize > 24576 ? 'text-red-400' : 'text-white'}`}>
+                    {(contractPreview.deployedBytecodeSize / 1024).toFixed(2)} KB / 24 KB
+                  </div>
+                </div>
+                <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                  <span className="text-white/60 text-sm font-open-sans">Estimated Deploy Gas</span>
+                  <div className="text-white font-semibold mt-1">
+                    {contractPreview.estimatedDeployGas
+                      ? `${contractPreview.deployGasIsLowerBound ? '≥ ' : ''}${Number(contractPreview.estimatedDeployGas).toLocaleString()}`
+                      : 'Unknown'}
+                  </div>
+                </div>
+              </div>
+
+              {[...contractPreview.errors, ...contractPreview.warnings].length > 0 && (
+                <div className="space-y-2">
+                  {[...contractPreview.errors, ...contractPreview.warnings].map((diagnostic, index) => (
+                    <div
+                      key={index}
+                      className={`rounded-lg p-3 border text-sm font-mono ${diagnostic.severity === 'error' ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300'}`}
+                    >
+                      {diagnostic.line !== undefined && (
+                        <span className="text-white/60">{diagnostic.file}:{diagnostic.line}:{diagnostic.column} </span>
+                      )}
+                      {diagnostic.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="text-white font-semibold font-open-sans">Optimization Level</h4>
+                  <button
+                    className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-semibold rounded-lg transition-all duration-200 border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={handleCompareOptimization}
+                    disabled={isComparingOptimization || !contractPreview.compiled}
+                  >
+                    {isComparingOptimization ? 'Comparing...' : 'Compare Levels'}
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {(Object.keys(OPTIMIZATION_LEVEL_LABELS) as OptimizationLevel[]).map(level => {
+                    const comparison = optimizationComparison?.find(entry => entry.level === level);
+                    return (
+                      <label
+                        key={level}
+                        className={`flex items-center gap-3 rounded-lg p-3 border cursor-pointer transition-all duration-200 ${contractDetails.optimizationLevel === level ? 'bg-purple-500/10 border-purple-500/40' : 'border-white/10 hover:border-white/20'}`}
+                      >
+                        <input
+                          type="radio"
+                          name="optimizationLevel"
+                          className="w-4 h-4 text-purple-500 bg-black/50 border-white/20 focus:ring-purple-500 focus:ring-2"
+                          checked={contractDetails.optimizationLevel === level}
+                          onChange={() => setContractDetails(prev => ({ ...prev, optimizationLevel: level }))}
+                        />
+                        <span className="flex-1 text-white text-sm font-open-sans">{OPTIMIZATION_LEVEL_LABELS[level]}</span>
+                        {comparison && (comparison.compiled ? (
+                          <span className="text-white/80 text-sm font-dm-sans">
+                            {(comparison.deployedBytecodeSize / 1024).toFixed(2)} KB
+                            {' · '}
+                            {comparison.estimatedDeployGas
+                              ? `${comparison.deployGasIsLowerBound ? '≥ ' : ''}${Number(comparison.estimatedDeployGas).toLocaleString()} gas`
+                              : 'Unknown gas'}
+                          </span>
+                        ) : (
+                          <span className="text-red-400 text-sm font-dm-sans">Does not compile</span>
+                        ))}
+                      </label>
+                    );
+                  })}
+                </div>
+                <label className="flex items-start gap-3 mt-4 pt-4 border-t border-white/10 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1 w-4 h-4 text-purple-500 bg-black/50 border-white/20 rounded focus:ring-purple-500 focus:ring-2"
+                    checked={!!contractDetails.fullMatch}
+                    onChange={event => setContractDetails(prev => ({ ...prev, fullMatch: event.target.checked }))}
+                  />
+                  <div className="flex-1">
+                    <h4 className="text-white font-semibold mb-1 font-open-sans">Sourcify Full Match</h4>
+                    <p className="text-white/60 text-sm font-dm-sans">
+                      Keep the metadata hash in the bytecode and verify on Sourcify from metadata.json, no explorer API key needed
+                    </p>
+                  </div>
+                </label>
+              </div>
+
+              <details className="bg-black/30 rounded-xl border border-white/10">
+                <summary className="px-4 py-3 text-white/80 text-sm font-open-sans cursor-pointer">
+                  {contractPreview.contractName}.sol
+                </summary>
+                <pre className="px-4 pb-4 text-white/80 text-xs font-mono overflow-auto max-h-96">
+                  {contractPreview.contractCode}
+                </pre>
+              </details>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Deployment Progress */}
       {isDeploying && (
         <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
@@ -216,6 +1053,69 @@ export function DeployTab({
               <span className="text-white/80 text-sm font-open-sans">Transaction Hash:</span>
               <div className="text-green-300 font-mono text-sm break-all mt-1">{deploymentResult.txHash}</div>
             </div>
+            {deploymentResult.create2Salt && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">CREATE2 Salt:</span>
+                <div className="text-green-300 font-mono text-sm break-all mt-1">{deploymentResult.create2Salt}</div>
+              </div>
+            )}
+            {deploymentResult.implementationAddress && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">Implementation:</span>
+                <a
+                  href={getBlockExplorerUrl(deploymentResult.implementationAddress)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-green-300 hover:text-green-200 font-mono text-sm break-all mt-1 underline"
+                >
+                  {deploymentResult.implementationAddress}
+                </a>
+              </div>
+            )}
+            {deploymentResult.proxyAdminAddress && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">Proxy Admin:</span>
+                <a
+                  href={getBlockExplorerUrl(deploymentResult.proxyAdminAddress)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-green-300 hover:text-green-200 font-mono text-sm break-all mt-1 underline"
+                >
+                  {deploymentResult.proxyAdminAddress}
+                </a>
+              </div>
+            )}
+            {deploymentResult.dividendTrackerAddress && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">Dividend Tracker:</span>
+                <a
+                  href={getBlockExplorerUrl(deploymentResult.dividendTrackerAddress)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-green-300 hover:text-green-200 font-mono text-sm break-all mt-1 underline"
+                >
+                  {deploymentResult.dividendTrackerAddress}
+                </a>
+              </div>
+            )}
+            {deploymentResult.verificationJobId && (
+              <div>
+                <span className="text-white/80 text-sm font-open-sans">Verification:</span>
+                <div className={`text-sm mt-1 font-dm-sans ${deploymentResult.verificationStatus === 'success' ? 'text-green-300' : deploymentResult.verificationStatus === 'failed' ? 'text-red-300' : 'text-yellow-300'}`}>
+                  {deploymentStatus || deploymentResult.verificationStatus}
+                </div>
+                {deploymentResult.verificationUrl && (
+                  <a
+                    href={deploymentResult.verificationUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-green-300 hover:text-green-200 text-sm underline font-open-sans"
+                  >
+                    View verified source
+                  </a>
+                )}
+              </div>
+            )}
             <div className="flex gap-3 pt-2">
               <a
                 href={getBlockExplorerUrl(deploymentResult.address)}
@@ -236,6 +1136,68 @@ export function DeployTab({
         </div>
       )}
 
+      {/* Multi-Chain Result */}
+      {multiChainDeployment && (
+        <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+          <h3 className="text-xl font-bold text-white mb-4 font-space-grotesk">Multi-Chain Launch</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm font-dm-sans">
+              <thead>
+                <tr className="text-white/60 text-left font-open-sans">
+                  <th className="py-2 pr-4">Network</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Address</th>
+                  <th className="py-2">Verification</th>
+                </tr>
+              </thead>
+              <tbody>
+                {multiChainDeployment.chains.map(chain => (
+                  <tr key={chain.chainId} className="border-t border-white/10 align-top">
+                    <td className="py-3 pr-4 text-white">
+                      {NETWORK_CONFIG[chain.chainId as keyof typeof NETWORK_CONFIG]?.name || `Chain ${chain.chainId}`}
+                    </td>
+                    <td className={`py-3 pr-4 ${CHAIN_STATUS_LABELS[chain.status].className}`}>
+                      {CHAIN_STATUS_LABELS[chain.status].label}
+                      {chain.error && <div className="text-xs text-red-300 mt-1 break-words">{chain.error}</div>}
+                    </td>
+                    <td className="py-3 pr-4">
+                      {chain.result ? (
+                        <a
+                          href={getChainExplorerUrl(chain.chainId, chain.result.address)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-green-300 hover:text-green-200 font-mono break-all underline"
+                        >
+                          {chain.result.address}
+                        </a>
+                      ) : (
+                        <span className="text-white/40">-</span>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      {chain.result?.verificationUrl ? (
+                        <a
+                          href={chain.result.verificationUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-green-300 hover:text-green-200 underline"
+                        >
+                          Verified
+                        </a>
+                      ) : (
+                        <span className={chain.result?.verificationStatus === 'failed' ? 'text-red-300' : 'text-white/60'}>
+                          {chain.result?.verificationStatus || '-'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Deployment Error */}
       {deploymentError && (
         <div className="bg-red-500/10 backdrop-blur-xl rounded-2xl border border-red-500/30 p-6">
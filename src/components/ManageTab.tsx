@@ -2,8 +2,30 @@
 
 import { useState } from 'react';
 import { ethers } from 'ethers';
-import { ERC20_ABI, OWNABLE_ABI } from '@/constants/contracts';
+import {
+  DIVIDEND_TOKEN_ABI,
+  DIVIDEND_TRACKER_ABI,
+  ERC1967_IMPLEMENTATION_SLOT,
+  ERC20_ABI,
+  OWNABLE_ABI,
+  PROXY_ADMIN_ABI,
+  TAX_DISTRIBUTION_ABI,
+  TRANSACTION_LIMITS_ABI,
+  UUPS_UPGRADE_ABI,
+} from '@/constants/contracts';
+import { FEATURES } from '@/constants/networks';
 import { formatNumber } from '@/utils/blockchain';
+import { distributionShares, TAX_BASIS_POINTS, TAX_SHARES } from '@/lib/token-builder';
+import { CompilerProfile, DeploymentManifest, StorageLayoutCheck, TaxDistribution } from '@/types';
+
+const TAX_SHARE_LABELS: Record<keyof TaxDistribution, string> = {
+  marketing: 'Marketing',
+  liquidity: 'Auto-Liquidity',
+  burn: 'Burn',
+  dev: 'Dev',
+  treasury: 'Treasury',
+  dividends: 'Holder Dividends',
+};
 
 interface ManageTabProps {
   provider: ethers.BrowserProvider | null;
@@ -17,6 +39,43 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
   const [manageTokenDetails, setManageTokenDetails] = useState<any>(null);
   const [isLoadingManageToken, setIsLoadingManageToken] = useState(false);
   const [isRenouncing, setIsRenouncing] = useState(false);
+  // Null when the token has no configurable fee split
+  const [taxDistribution, setTaxDistribution] = useState<TaxDistribution | null>(null);
+  const [isUpdatingDistribution, setIsUpdatingDistribution] = useState(false);
+  // Null when the token has no transaction limits, values are in whole tokens
+  const [transactionLimits, setTransactionLimits] = useState<{ maxTransaction: string; maxWallet: string } | null>(null);
+  const [limitExemption, setLimitExemption] = useState('');
+  const [isUpdatingLimits, setIsUpdatingLimits] = useState(false);
+  // Null when the token does not pay dividends or its tracker is not linked yet
+  const [dividendInfo, setDividendInfo] = useState<{
+    tracker: string;
+    rewardSymbol: string;
+    rewardDecimals: number;
+    totalDistributed: string;
+    holders: number;
+    claimWait: number;
+    withdrawable: string;
+    withdrawn: string;
+  } | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  // Registry entry of an upgradeable token, null for tokens deployed without a proxy
+  const [proxyDeployment, setProxyDeployment] = useState<DeploymentManifest | null>(null);
+  const [currentImplementation, setCurrentImplementation] = useState('');
+  const [upgradeFeatures, setUpgradeFeatures] = useState<string[]>([]);
+  // New implementation returned by the compatibility check, deployed by the upgrade
+  const [preparedUpgrade, setPreparedUpgrade] = useState<{
+    deploymentId: string;
+    contractCode: string;
+    abi: ethers.InterfaceAbi;
+    bytecode: string;
+    compilerProfile: CompilerProfile;
+    // Reinitializer of the new version, called in the upgrade transaction
+    upgradeInitializer: string;
+  } | null>(null);
+  const [storageLayoutCheck, setStorageLayoutCheck] = useState<StorageLayoutCheck | null>(null);
+  const [upgradeErrors, setUpgradeErrors] = useState<string[]>([]);
+  const [isCheckingUpgrade, setIsCheckingUpgrade] = useState(false);
+  const [isUpgrading, setIsUpgrading] = useState(false);
 
   const fetchManageTokenDetails = async () => {
     if (!provider || !manageTokenAddress) {
@@ -31,6 +90,13 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
 
     setIsLoadingManageToken(true);
     setManageTokenDetails(null);
+    setTaxDistribution(null);
+    setTransactionLimits(null);
+    setDividendInfo(null);
+    setProxyDeployment(null);
+    setPreparedUpgrade(null);
+    setStorageLayoutCheck(null);
+    setUpgradeErrors([]);
 
     try {
       const tokenContract = new ethers.Contract(manageTokenAddress, ERC20_ABI, provider);
@@ -46,6 +112,38 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
 
       const balance = await tokenContract.balanceOf(account).catch(() => BigInt(0));
 
+      // Tokens generated without a tax have no fee split, any failing call means it is not available
+      const taxContract = new ethers.Contract(manageTokenAddress, TAX_DISTRIBUTION_ABI, provider);
+      const [shares, feeWallets] = await Promise.all([
+        Promise.all(TAX_SHARES.map(share => taxContract[`${share}Share`]())).catch(() => null),
+        Promise.all([taxContract.marketingWallet(), taxContract.devWallet(), taxContract.treasuryWallet()]).catch(() => null),
+      ]);
+      // Dividend tokens add a sixth share and a tracker that holds the dividends
+      const dividendContract = new ethers.Contract(manageTokenAddress, DIVIDEND_TOKEN_ABI, provider);
+      const [dividendShare, dividendTracker] = await Promise.all([
+        dividendContract.dividendShare().catch(() => null),
+        dividendContract.dividendTracker().catch(() => null),
+      ]);
+      if (shares) {
+        setTaxDistribution({
+          ...Object.fromEntries(TAX_SHARES.map((share, index) => [share, Number(shares[index])])),
+          ...(dividendShare !== null ? { dividends: Number(dividendShare) } : {}),
+        } as unknown as TaxDistribution);
+      }
+      if (dividendTracker && dividendTracker !== ethers.ZeroAddress) {
+        await fetchDividendInfo(dividendTracker);
+      }
+      await fetchProxyDeployment(manageTokenAddress);
+
+      const limitsContract = new ethers.Contract(manageTokenAddress, TRANSACTION_LIMITS_ABI, provider);
+      const limits = await Promise.all([limitsContract.maxTransactionAmount(), limitsContract.maxWallet()]).catch(() => null);
+      if (limits) {
+        setTransactionLimits({
+          maxTransaction: ethers.formatUnits(limits[0], decimals),
+          maxWallet: ethers.formatUnits(limits[1], decimals),
+        });
+      }
+
       setManageTokenDetails({
         address: manageTokenAddress,
         name,
@@ -54,6 +152,8 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
         totalSupply: ethers.formatUnits(totalSupply, decimals),
         balance: ethers.formatUnits(balance, decimals),
         owner,
+        limits: limits ? { maxTransaction: limits[0], maxWallet: limits[1] } : null,
+        feeWallets: feeWallets ? { marketing: feeWallets[0], dev: feeWallets[1], treasury: feeWallets[2] } : null,
         isOwner: owner.toLowerCase() === account.toLowerCase(),
         canRenounce: owner !== ethers.ZeroAddress && owner.toLowerCase() === account.toLowerCase()
       });
@@ -65,6 +165,203 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
     }
   };
 
+  // Native dividends have no reward token on the tracker, any failing call falls back to ETH
+  const fetchDividendInfo = async (tracker: string) => {
+    if (!provider) return;
+    try {
+      const trackerContract = new ethers.Contract(tracker, DIVIDEND_TRACKER_ABI, provider);
+      const dividendContract = new ethers.Contract(manageTokenAddress, DIVIDEND_TOKEN_ABI, provider);
+      const rewardToken = await trackerContract.rewardToken().catch(() => null);
+      const rewardContract = rewardToken ? new ethers.Contract(rewardToken, ERC20_ABI, provider) : null;
+      const [rewardSymbol, rewardDecimals, totalDistributed, holders, claimWait, withdrawable, withdrawn] = await Promise.all([
+        rewardContract ? rewardContract.symbol().catch(() => 'TOKEN') : 'ETH',
+        rewardContract ? rewardContract.decimals().catch(() => 18) : 18,
+        trackerContract.totalDividendsDistributed(),
+        trackerContract.getNumberOfHolders(),
+        trackerContract.claimWait(),
+        dividendContract.withdrawableDividendOf(account),
+        trackerContract.withdrawnDividendOf(account),
+      ]);
+      setDividendInfo({
+        tracker,
+        rewardSymbol,
+        rewardDecimals: Number(rewardDecimals),
+        totalDistributed: ethers.formatUnits(totalDistributed, rewardDecimals),
+        holders: Number(holders),
+        claimWait: Number(claimWait),
+        withdrawable: ethers.formatUnits(withdrawable, rewardDecimals),
+        withdrawn: ethers.formatUnits(withdrawn, rewardDecimals),
+      });
+    } catch (error) {
+      console.error('Error fetching dividend details:', error);
+    }
+  };
+
+  // Look up the token in the deployment registry, only tokens generated here can be upgraded from this tab
+  const fetchProxyDeployment = async (tokenAddress: string) => {
+    if (!provider) return;
+    try {
+      const { chainId } = await provider.getNetwork();
+      const response = await fetch(`/api/deployments?address=${tokenAddress}&chainId=${chainId}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const { deployments }: { deployments: DeploymentManifest[] } = await response.json();
+      const deployment = deployments.find(candidate => candidate.proxy);
+      if (!deployment) return;
+
+      const slot = await provider.getStorage(tokenAddress, ERC1967_IMPLEMENTATION_SLOT);
+      setCurrentImplementation(ethers.getAddress(ethers.dataSlice(slot, 12)));
+      setProxyDeployment(deployment);
+      setUpgradeFeatures(deployment.contractDetails.features);
+    } catch (error) {
+      console.error('Error fetching deployment record:', error);
+    }
+  };
+
+  const toggleUpgradeFeature = (featureId: string) => {
+    setUpgradeFeatures(prev => prev.includes(featureId)
+      ? prev.filter(feature => feature !== featureId)
+      : [...prev, featureId]);
+    setPreparedUpgrade(null);
+    setStorageLayoutCheck(null);
+    setUpgradeErrors([]);
+  };
+
+  // Compile the new version and compare its storage layout with the implementation behind the proxy
+  const checkUpgradeCompatibility = async () => {
+    if (!proxyDeployment) return;
+
+    setIsCheckingUpgrade(true);
+    setPreparedUpgrade(null);
+    setStorageLayoutCheck(null);
+    setUpgradeErrors([]);
+    try {
+      const response = await fetch(`/api/deployments/${proxyDeployment.id}/upgrade`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ contractDetails: { features: upgradeFeatures } }),
+      });
+      const result = await response.json();
+
+      if (result.storageLayoutCheck) {
+        setStorageLayoutCheck(result.storageLayoutCheck);
+      }
+      if (!response.ok) {
+        setUpgradeErrors(Array.isArray(result.details) ? result.details.map(String) : [result.error]);
+        return;
+      }
+      setPreparedUpgrade({
+        deploymentId: result.deploymentId,
+        contractCode: result.contractCode,
+        abi: result.abi,
+        bytecode: result.bytecode,
+        compilerProfile: result.compilerProfile,
+        upgradeInitializer: result.upgradeInitializer,
+      });
+    } catch (error) {
+      console.error('Error checking upgrade:', error);
+      setUpgradeErrors([error instanceof Error ? error.message : String(error)]);
+    } finally {
+      setIsCheckingUpgrade(false);
+    }
+  };
+
+  const upgradeToken = async () => {
+    if (!signer || !manageTokenDetails || !proxyDeployment?.proxy || !preparedUpgrade) {
+      alert('Please connect wallet and check the new version first');
+      return;
+    }
+
+    const confirmUpgrade = window.confirm(
+      'Upgrade the token to the new implementation? All holders will use the new code immediately.'
+    );
+    if (!confirmUpgrade) return;
+
+    setIsUpgrading(true);
+    try {
+      // The implementation takes no constructor arguments, the proxy already holds the initialized state
+      const factory = new ethers.ContractFactory(preparedUpgrade.abi, preparedUpgrade.bytecode, signer);
+      const implementationContract = await factory.deploy();
+      const deployReceipt = await implementationContract.deploymentTransaction()!.wait();
+      const implementation = await implementationContract.getAddress();
+      console.log('New implementation deployed at:', implementation);
+
+      // The reinitializer runs in the same transaction, so state the new version adds is set before anyone uses it
+      const initData = new ethers.Interface(preparedUpgrade.abi).encodeFunctionData(preparedUpgrade.upgradeInitializer);
+      const upgradeTx = proxyDeployment.proxy.kind === 'uups'
+        ? await new ethers.Contract(manageTokenDetails.address, UUPS_UPGRADE_ABI, signer).upgradeToAndCall(implementation, initData)
+        : await new ethers.Contract(proxyDeployment.proxy.admin!, PROXY_ADMIN_ABI, signer).upgradeAndCall(manageTokenDetails.address, implementation, initData);
+      const upgradeReceipt = await upgradeTx.wait();
+
+      const response = await fetch(`/api/deployments/${proxyDeployment.id}/upgrade`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          deploymentId: preparedUpgrade.deploymentId,
+          implementation,
+          deployTxHash: deployReceipt!.hash,
+          upgradeTxHash: upgradeReceipt.hash,
+        }),
+      });
+      if (!response.ok) {
+        console.error('Failed to record upgrade:', await response.text());
+      }
+
+      // Verification of the new implementation runs in the background like after a deployment
+      fetch('/api/deploy-contract/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          address: implementation,
+          sourceCode: preparedUpgrade.contractCode,
+          contractName: proxyDeployment.contractName,
+          compilerProfile: preparedUpgrade.compilerProfile,
+          deploymentId: preparedUpgrade.deploymentId,
+          constructorArguments: '',
+          provider: proxyDeployment.contractDetails.fullMatch ? 'sourcify' : undefined,
+          chainId: proxyDeployment.chainId,
+        }),
+      }).catch(verificationError => console.error('Implementation verification error:', verificationError));
+
+      alert('Token upgraded successfully!');
+      await fetchManageTokenDetails();
+    } catch (error) {
+      console.error('Error upgrading token:', error);
+      alert(`Failed to upgrade token: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const claimDividends = async () => {
+    if (!signer || !manageTokenDetails || !dividendInfo) {
+      alert('Please connect wallet and load token details first');
+      return;
+    }
+
+    setIsClaiming(true);
+    try {
+      const dividendContract = new ethers.Contract(manageTokenDetails.address, DIVIDEND_TOKEN_ABI, signer);
+      const tx = await dividendContract.claim();
+      await tx.wait();
+
+      alert('Dividends claimed successfully!');
+      await fetchDividendInfo(dividendInfo.tracker);
+    } catch (error) {
+      console.error('Error claiming dividends:', error);
+      alert(`Failed to claim dividends: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
   const renounceContractOwnership = async () => {
     if (!signer || !manageTokenDetails) {
       alert('Please connect wallet and load token details first');
@@ -101,6 +398,106 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
     }
   };
 
+  const updateTaxDistribution = async () => {
+    if (!signer || !manageTokenDetails || !taxDistribution) {
+      alert('Please connect wallet and load token details first');
+      return;
+    }
+
+    const shares = distributionShares(taxDistribution);
+    const total = shares.reduce((sum, share) => sum + (taxDistribution[share] ?? 0), 0);
+    if (total !== TAX_BASIS_POINTS) {
+      alert(`Fee shares must add up to 100%, currently ${(total / 100).toFixed(2)}%`);
+      return;
+    }
+
+    setIsUpdatingDistribution(true);
+    try {
+      const taxContract = new ethers.Contract(
+        manageTokenDetails.address,
+        taxDistribution.dividends === undefined ? TAX_DISTRIBUTION_ABI : DIVIDEND_TOKEN_ABI,
+        signer
+      );
+      const tx = await taxContract.setFeeDistribution(...shares.map(share => taxDistribution[share] ?? 0));
+      await tx.wait();
+
+      alert('Fee distribution updated successfully!');
+      await fetchManageTokenDetails();
+    } catch (error) {
+      console.error('Error updating fee distribution:', error);
+      alert(`Failed to update fee distribution: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsUpdatingDistribution(false);
+    }
+  };
+
+  // Only limits that were changed are sent, each one must not be lower than its current value
+  const updateTransactionLimits = async () => {
+    if (!signer || !manageTokenDetails || !transactionLimits || !manageTokenDetails.limits) {
+      alert('Please connect wallet and load token details first');
+      return;
+    }
+
+    setIsUpdatingLimits(true);
+    try {
+      const limitsContract = new ethers.Contract(manageTokenDetails.address, TRANSACTION_LIMITS_ABI, signer);
+      const maxTransaction = ethers.parseUnits(transactionLimits.maxTransaction, manageTokenDetails.decimals);
+      const maxWallet = ethers.parseUnits(transactionLimits.maxWallet, manageTokenDetails.decimals);
+      if (maxTransaction < manageTokenDetails.limits.maxTransaction || maxWallet < manageTokenDetails.limits.maxWallet) {
+        alert('Limits can only be raised');
+        return;
+      }
+
+      if (maxTransaction !== manageTokenDetails.limits.maxTransaction) {
+        const tx = await limitsContract.setMaxTransactionAmount(maxTransaction);
+        await tx.wait();
+      }
+      if (maxWallet !== manageTokenDetails.limits.maxWallet) {
+        const tx = await limitsContract.setMaxWallet(maxWallet);
+        await tx.wait();
+      }
+
+      alert('Transaction limits updated successfully!');
+      await fetchManageTokenDetails();
+    } catch (error) {
+      console.error('Error updating transaction limits:', error);
+      alert(`Failed to update transaction limits: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsUpdatingLimits(false);
+    }
+  };
+
+  const setLimitExemptionStatus = async (excluded: boolean) => {
+    if (!signer || !manageTokenDetails) {
+      alert('Please connect wallet and load token details first');
+      return;
+    }
+
+    if (!ethers.isAddress(limitExemption)) {
+      alert('Please enter a valid wallet address');
+      return;
+    }
+
+    setIsUpdatingLimits(true);
+    try {
+      const limitsContract = new ethers.Contract(manageTokenDetails.address, TRANSACTION_LIMITS_ABI, signer);
+      const tx = await limitsContract.excludeFromLimits(limitExemption, excluded);
+      await tx.wait();
+
+      alert(excluded ? 'Wallet excluded from limits' : 'Wallet is subject to limits again');
+      setLimitExemption('');
+    } catch (error) {
+      console.error('Error updating limit exemption:', error);
+      alert(`Failed to update limit exemption: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsUpdatingLimits(false);
+    }
+  };
+
+  const taxDistributionTotal = taxDistribution
+    ? distributionShares(taxDistribution).reduce((sum, share) => sum + (taxDistribution[share] ?? 0), 0)
+    : 0;
+
   return (
     <div className="space-y-6">
       {/* Token Address Input */}
@@ -160,6 +557,247 @@ export function ManageTab({ provider, signer, account }: ManageTabProps) {
         </div>
       )}
 
+      {/* Fee Distribution */}
+      {manageTokenDetails && taxDistribution && (
+        <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold text-white font-space-grotesk">Fee Distribution</h3>
+            <span className={`text-sm font-dm-sans ${taxDistributionTotal === TAX_BASIS_POINTS ? 'text-green-400' : 'text-red-400'}`}>
+              Total: {(taxDistributionTotal / 100).toFixed(2)}%
+            </span>
+          </div>
+          <div className="space-y-6">
+            <div className={`grid grid-cols-2 gap-4 ${taxDistribution.dividends === undefined ? 'md:grid-cols-5' : 'md:grid-cols-6'}`}>
+              {distributionShares(taxDistribution).map(share => (
+                <div key={share}>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">{TAX_SHARE_LABELS[share]} (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200 disabled:opacity-50"
+                    value={(taxDistribution[share] ?? 0) / 100}
+                    onChange={(e) => setTaxDistribution(prev => prev && {
+                      ...prev,
+                      [share]: Math.round((parseFloat(e.target.value) || 0) * 100),
+                    })}
+                    disabled={!manageTokenDetails.isOwner}
+                  />
+                </div>
+              ))}
+            </div>
+            {manageTokenDetails.feeWallets && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {(['marketing', 'dev', 'treasury'] as const).map(wallet => (
+                  <div key={wallet} className="bg-black/30 rounded-xl p-4 border border-white/10">
+                    <span className="text-white/60 text-sm font-open-sans">{TAX_SHARE_LABELS[wallet]} Wallet</span>
+                    <div className="text-purple-300 font-mono text-sm break-all mt-1">{manageTokenDetails.feeWallets[wallet]}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {manageTokenDetails.isOwner && (
+              <button
+                className="px-6 py-3 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-semibold rounded-xl transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-purple-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={updateTaxDistribution}
+                disabled={isUpdatingDistribution || taxDistributionTotal !== TAX_BASIS_POINTS}
+              >
+                {isUpdatingDistribution ? 'Updating...' : 'Update Distribution'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Dividends */}
+      {manageTokenDetails && dividendInfo && (
+        <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+          <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Dividends</h3>
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10 md:col-span-2">
+                <span className="text-white/60 text-sm font-open-sans">Dividend Tracker</span>
+                <div className="text-purple-300 font-mono text-sm break-all mt-1">{dividendInfo.tracker}</div>
+              </div>
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <span className="text-white/60 text-sm font-open-sans">Total Distributed</span>
+                <div className="text-white font-semibold mt-1">{formatNumber(dividendInfo.totalDistributed)} {dividendInfo.rewardSymbol}</div>
+              </div>
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <span className="text-white/60 text-sm font-open-sans">Holders Earning Dividends</span>
+                <div className="text-white font-semibold mt-1">{dividendInfo.holders}</div>
+              </div>
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <span className="text-white/60 text-sm font-open-sans">Your Unclaimed Dividends</span>
+                <div className="text-green-400 font-semibold mt-1">{formatNumber(dividendInfo.withdrawable)} {dividendInfo.rewardSymbol}</div>
+              </div>
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <span className="text-white/60 text-sm font-open-sans">Paid Out to You</span>
+                <div className="text-white font-semibold mt-1">{formatNumber(dividendInfo.withdrawn)} {dividendInfo.rewardSymbol}</div>
+              </div>
+            </div>
+            <p className="text-white/60 text-sm font-dm-sans">
+              Holders are paid automatically at most once every {Math.round(dividendInfo.claimWait / 60)} minutes as the token is traded.
+            </p>
+            <button
+              className="px-6 py-3 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-semibold rounded-xl transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-purple-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={claimDividends}
+              disabled={isClaiming || Number(dividendInfo.withdrawable) === 0}
+            >
+              {isClaiming ? 'Claiming...' : 'Claim Dividends'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Transaction Limits */}
+      {manageTokenDetails && transactionLimits && (
+        <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+          <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Transaction Limits</h3>
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['maxTransaction', 'maxWallet'] as const).map(name => (
+                <div key={name}>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">
+                    {name === 'maxTransaction' ? 'Max Transaction' : 'Max Wallet'} ({manageTokenDetails.symbol})
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200 disabled:opacity-50"
+                    value={transactionLimits[name]}
+                    onChange={(e) => setTransactionLimits(prev => prev && { ...prev, [name]: e.target.value })}
+                    disabled={!manageTokenDetails.isOwner}
+                  />
+                </div>
+              ))}
+            </div>
+            {manageTokenDetails.isOwner && (
+              <>
+                <button
+                  className="px-6 py-3 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-semibold rounded-xl transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-purple-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={updateTransactionLimits}
+                  disabled={isUpdatingLimits}
+                >
+                  {isUpdatingLimits ? 'Updating...' : 'Raise Limits'}
+                </button>
+                <div>
+                  <label className="block text-white/80 text-sm font-medium mb-2 font-open-sans">Limit Exemption</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      className="flex-1 px-4 py-3 bg-black/30 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-500 transition-all duration-200"
+                      value={limitExemption}
+                      onChange={(e) => setLimitExemption(e.target.value)}
+                      placeholder="Wallet address"
+                    />
+                    <button
+                      className="px-4 py-3 bg-white/10 hover:bg-white/20 text-white font-semibold rounded-xl transition-all duration-200 border border-white/20 disabled:opacity-50"
+                      onClick={() => setLimitExemptionStatus(true)}
+                      disabled={isUpdatingLimits}
+                    >
+                      Exclude
+                    </button>
+                    <button
+                      className="px-4 py-3 bg-white/10 hover:bg-white/20 text-white font-semibold rounded-xl transition-all duration-200 border border-white/20 disabled:opacity-50"
+                      onClick={() => setLimitExemptionStatus(false)}
+                      disabled={isUpdatingLimits}
+                    >
+                      Include
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Upgrades */}
+      {manageTokenDetails && proxyDeployment?.proxy && (
+        <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+          <h3 className="text-xl font-bold text-white mb-6 font-space-grotesk">Upgrades</h3>
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <span className="text-white/60 text-sm font-open-sans">Proxy Type</span>
+                <div className="text-white font-semibold mt-1">
+                  {proxyDeployment.proxy.kind === 'uups' ? 'UUPS' : 'Transparent'} ({proxyDeployment.proxy.upgrades.length} upgrades)
+                </div>
+              </div>
+              <div className="bg-black/30 rounded-xl p-4 border border-white/10">
+                <span className="text-white/60 text-sm font-open-sans">Current Implementation</span>
+                <div className="text-purple-300 font-mono text-sm break-all mt-1">{currentImplementation}</div>
+              </div>
+              {proxyDeployment.proxy.admin && (
+                <div className="bg-black/30 rounded-xl p-4 border border-white/10 md:col-span-2">
+                  <span className="text-white/60 text-sm font-open-sans">Proxy Admin</span>
+                  <div className="text-purple-300 font-mono text-sm break-all mt-1">{proxyDeployment.proxy.admin}</div>
+                </div>
+              )}
+            </div>
+            {manageTokenDetails.isOwner && (
+              <>
+                <div>
+                  <h4 className="text-white font-semibold mb-3 font-open-sans">Features of the New Version</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {FEATURES.map(feature => (
+                      <label key={feature.id} className="flex items-center gap-3 bg-black/30 rounded-xl p-3 border border-white/10 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="w-4 h-4 text-purple-500 bg-black/50 border-white/20 rounded focus:ring-purple-500 focus:ring-2"
+                          checked={upgradeFeatures.includes(feature.id)}
+                          onChange={() => toggleUpgradeFeature(feature.id)}
+                        />
+                        <span className="text-white text-sm font-dm-sans">{feature.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                {upgradeErrors.length > 0 && (
+                  <div className="bg-red-500/10 rounded-xl p-4 border border-red-500/30">
+                    <h4 className="text-red-400 font-semibold mb-2 font-open-sans">
+                      {storageLayoutCheck ? 'Storage layout is not compatible' : 'Cannot build the new version'}
+                    </h4>
+                    <ul className="list-disc list-inside text-red-300 text-sm font-dm-sans space-y-1">
+                      {upgradeErrors.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {preparedUpgrade && storageLayoutCheck && (
+                  <div className="bg-green-500/10 rounded-xl p-4 border border-green-500/30">
+                    <h4 className="text-green-400 font-semibold mb-2 font-open-sans">Storage layout is compatible</h4>
+                    {storageLayoutCheck.added.length > 0 ? (
+                      <ul className="list-disc list-inside text-green-300 text-sm font-dm-sans space-y-1">
+                        {storageLayoutCheck.added.map(variable => <li key={variable}>Adds {variable}</li>)}
+                      </ul>
+                    ) : (
+                      <p className="text-green-300 text-sm font-dm-sans">The new version adds no state variables.</p>
+                    )}
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  <button
+                    className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white font-semibold rounded-xl transition-all duration-200 border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={checkUpgradeCompatibility}
+                    disabled={isCheckingUpgrade || isUpgrading}
+                  >
+                    {isCheckingUpgrade ? 'Checking...' : 'Check Compatibility'}
+                  </button>
+                  <button
+                    className="px-6 py-3 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-semibold rounded-xl transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-purple-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={upgradeToken}
+                    disabled={!preparedUpgrade || isUpgrading}
+                  >
+                    {isUpgrading ? 'Upgrading...' : 'Upgrade Token'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Ownership Information */}
       {manageTokenDetails && (
         <div className="bg-black/20 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
@@ -4,6 +4,67 @@ export const OWNABLE_ABI = [
   "function owner() view returns (address)"
 ];
 
+// Fee split of generated tax tokens, shares are basis points of the collected fees
+export const TAX_DISTRIBUTION_ABI = [
+  "function marketingShare() view returns (uint256)",
+  "function liquidityShare() view returns (uint256)",
+  "function burnShare() view returns (uint256)",
+  "function devShare() view returns (uint256)",
+  "function treasuryShare() view returns (uint256)",
+  "function marketingWallet() view returns (address)",
+  "function devWallet() view returns (address)",
+  "function treasuryWallet() view returns (address)",
+  "function setFeeDistribution(uint256 _marketingShare, uint256 _liquidityShare, uint256 _burnShare, uint256 _devShare, uint256 _treasuryShare)"
+];
+
+// Max transaction and max wallet of generated tokens, the owner can only raise them
+export const TRANSACTION_LIMITS_ABI = [
+  "function maxTransactionAmount() view returns (uint256)",
+  "function maxWallet() view returns (uint256)",
+  "function isExcludedFromLimits(address account) view returns (bool)",
+  "function setMaxTransactionAmount(uint256 newMaxTransactionAmount)",
+  "function setMaxWallet(uint256 newMaxWallet)",
+  "function excludeFromLimits(address account, bool excluded)"
+];
+
+// Dividend template tokens, the fee split gains a dividends share and holders claim through the token
+export const DIVIDEND_TOKEN_ABI = [
+  "function dividendTracker() view returns (address)",
+  "function dividendShare() view returns (uint256)",
+  "function withdrawableDividendOf(address account) view returns (uint256)",
+  "function claim()",
+  "function setFeeDistribution(uint256 _marketingShare, uint256 _liquidityShare, uint256 _burnShare, uint256 _devShare, uint256 _treasuryShare, uint256 _dividendShare)"
+];
+
+export const DIVIDEND_TRACKER_ABI = [
+  "function rewardToken() view returns (address)",
+  "function totalDividendsDistributed() view returns (uint256)",
+  "function getNumberOfHolders() view returns (uint256)",
+  "function claimWait() view returns (uint256)",
+  "function withdrawnDividendOf(address account) view returns (uint256)"
+];
+
+// Upgradeable tokens behind a UUPS proxy are upgraded through the token itself
+export const UUPS_UPGRADE_ABI = [
+  "function upgradeTo(address newImplementation)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+  "function proxiableUUID() view returns (bytes32)"
+];
+
+// Owner of a transparent proxy, the only account that can upgrade it
+export const PROXY_ADMIN_ABI = [
+  "function owner() view returns (address)",
+  "function getProxyImplementation(address proxy) view returns (address)",
+  "function upgrade(address proxy, address implementation)",
+  "function upgradeAndCall(address proxy, address implementation, bytes data) payable"
+];
+
+// EIP-1967 storage slot holding the implementation address of a proxy
+export const ERC1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// EIP-1967 storage slot holding the admin of a transparent proxy, its ProxyAdmin contract
+export const ERC1967_ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
 export const ROUTER_ABI = [
   "function addLiquidityETH(address token, uint amountTokenDesired, uint amountTokenMin, uint amountETHMin, address to, uint deadline) external payable returns (uint amountToken, uint amountETH, uint liquidity)",
   "function addLiquidity(address tokenA, address tokenB, uint amountADesired, uint amountBDesired, uint amountAMin, uint amountBMin, address to, uint deadline) external returns (uint amountA, uint amountB, uint liquidity)",
@@ -84,7 +84,7 @@ export const NETWORK_CONFIG = {
 // Token pairs for different networks
 export const TOKEN_PAIRS: Record<number, TokenPair[]> = {
   1: [ // Ethereum
-    { symbol: 'USDC', name: 'USD Coin', address: '0xA0b86a33E6441b8A4B4A4B4A4A4A4A4A4A4A4A4A', decimals: 6 },
+    { symbol: 'USDC', name: 'USD Coin', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
     { symbol: 'USDT', name: 'Tether USD', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
     { symbol: 'DAI', name: 'Dai Stablecoin', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18 },
   ],
@@ -126,5 +126,10 @@ export const FEATURES = [
   { id: 'access control', name: 'Access Control', description: 'Use role-based access control instead of simple ownership' },
   { id: 'flash minting', name: 'Flash Minting', description: 'Enable flash loans for this token' },
   { id: 'permit', name: 'Permit', description: 'Enable gasless approvals using EIP-2612' },
-  { id: 'capped supply', name: 'Capped Supply', description: 'Set a maximum supply limit for the token' }
+  { id: 'capped supply', name: 'Capped Supply', description: 'Set a maximum supply limit for the token' },
+  { id: 'sniper tax', name: 'Sniper Tax', description: 'Tax buys made in the first blocks after trading opens' },
+  { id: 'block limit', name: 'Block Trade Limit', description: 'Limit the number of trades per block' },
+  { id: 'transfer delay', name: 'Transfer Delay', description: 'One trade per wallet every few blocks' },
+  { id: 'blacklist', name: 'Launch Blacklist', description: 'Block bot wallets, expires a set number of blocks after launch' },
+  { id: 'buy cooldown', name: 'Buy Cooldown', description: 'Make wallets wait between buys' }
 ]; 
\ No newline at end of file
@@ -1,7 +1,719 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ethers } from 'ethers';
-import { ContractDetails, DeploymentResult } from '@/types';
-import { optimizeGas } from '@/utils/blockchain';
+import {
+  ChainDeployment,
+  CompilerDiagnostic,
+  ContractDetails,
+  ContractPreview,
+  Create2Settings,
+  DeploymentResponse,
+  DeploymentResult,
+  DeploymentCompanion,
+  DeploymentCompanionState,
+  DeploymentStage,
+  DeploymentState,
+  MultiChainDeployment,
+  OptimizationComparison,
+  VanitySalt,
+} from '@/types';
+import { getNetworkName, getRouterAddress, optimizeGas, switchWalletNetwork } from '@/utils/blockchain';
+import { NETWORK_CONFIG } from '@/constants/networks';
+import {
+  DEFAULT_ALLOCATIONS,
+  DEFAULT_ANTI_BOT_SETTINGS,
+  DEFAULT_DIVIDEND_SETTINGS,
+  DEFAULT_REFLECTION_FEE,
+  DEFAULT_TAX_DISTRIBUTION,
+  DEFAULT_TRANSACTION_LIMITS,
+} from '@/lib/token-builder';
+import { decodeConstructorArgs, encodeConstructorArgs, extractConstructorArgs } from '@/lib/verification/constructor-args';
+import { computeCreate2Address, CREATE2_FACTORY_ADDRESS, encodeCreate2Deployment } from '@/lib/deployments/create2';
+import { DEPLOYMENT_STAGES, isFinalStage, newDeploymentState } from '@/lib/deployments/state';
+import { DeploymentAuthorization, isAuthorizationFresh, signDeploymentAuthorization } from '@/lib/deployments/authorization';
+
+// Helper function to send the deployment of a contract the token needs with a gas buffer
+async function deployCompanion(factory: ethers.ContractFactory, args: unknown[], provider: ethers.Provider) {
+  const gas = await factory.getDeployTransaction(...args).then(tx => provider.estimateGas(tx));
+  const deployed = await factory.deploy(...args, {
+    gasLimit: gas + BigInt(50000),
+    ...(await optimizeGas(provider, gas))
+  });
+  const transaction = deployed.deploymentTransaction();
+  if (!transaction) {
+    throw new Error('Deployment transaction failed');
+  }
+  return transaction;
+}
+
+// Helper function to fill the parameters of a generated constructor or initialize() by name. Only the initial
+// owner is taken, so the creation code does not depend on the chain the token is deployed on.
+function tokenSetupArgs(inputs: readonly ethers.ParamType[], owner: string): string[] {
+  return inputs.map(input => {
+    if (input.name === 'initialOwner') {
+      return owner;
+    }
+    throw new Error(`Unknown constructor parameter "${input.name}"`);
+  });
+}
+
+// Helper function to get the Uniswap V2 router a tax token is linked to after deployment, null for other tokens
+function tokenRouterAddress(tokenInterface: ethers.Interface, chainId: number): string | null {
+  if (!tokenInterface.getFunction('setUniswapV2Router')) {
+    return null;
+  }
+  const router = getRouterAddress(chainId);
+  if (!router) {
+    throw new Error(`No Uniswap V2 router is configured for ${getNetworkName(chainId)}`);
+  }
+  return ethers.getAddress(router.toLowerCase());
+}
+
+// Helper function to turn the error body of an API route into a message, listing its details when it has them.
+// Compiler diagnostics are shown the way the preview shows them, with their position in the source.
+function apiErrorMessage(result: { error?: string; details?: unknown }, fallback: string): string {
+  if (Array.isArray(result.details) && result.details.length > 0) {
+    return result.details
+      .map((detail: string | CompilerDiagnostic) => typeof detail === 'string'
+        ? detail
+        : `${detail.line !== undefined ? `${detail.file}:${detail.line}:${detail.column} ` : ''}${detail.message}`)
+      .join('; ');
+  }
+  return result.error || fallback;
+}
+
+// Helper function to get a CREATE2 salt for the creation code, searched on the server when a vanity pattern is set
+async function findCreate2Salt(initCodeHash: string, settings: Create2Settings): Promise<string> {
+  if (!settings.prefix && !settings.suffix) {
+    return ethers.ZeroHash;
+  }
+  const response = await fetch('/api/deploy-contract/vanity', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ initCodeHash, prefix: settings.prefix, suffix: settings.suffix }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(apiErrorMessage(result, 'Vanity address search failed'));
+  }
+  return (result as VanitySalt).salt;
+}
+
+// CREATE2 salt found for a creation code, reused to deploy the same code to the same address on other chains
+interface Create2SaltCache {
+  initCodeHash: string;
+  salt: string;
+}
+
+interface ChainDeploymentOptions {
+  result: DeploymentResponse;
+  contractDetails: ContractDetails;
+  signer: ethers.Signer;
+  provider: ethers.Provider;
+  chainId: number;
+  previousCreate2Salt: Create2SaltCache | null;
+  onProgress: (progress: number, status: string) => void;
+  // Called as the creation transaction is signed, broadcast and mined, single-chain deployments persist these
+  onStage?: (changes: Partial<DeploymentState>) => void;
+}
+
+// The token's creation transaction once it is mined, what the rest of the deployment builds on
+interface FinishDeploymentOptions extends Omit<ChainDeploymentOptions, 'previousCreate2Salt'> {
+  deployedAddress: string;
+  receipt: ethers.TransactionReceipt;
+  creationData: string;
+  create2Salt: string | null;
+  // Companion transactions an earlier attempt already sent, they are re-polled instead of sent again
+  companions?: DeploymentState['companions'];
+}
+
+// Thrown when a deployment cannot be resumed, for example when its transaction was replaced
+class DeploymentEndedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeploymentEndedError';
+  }
+}
+
+// Wallet connection used to deploy to one chain of a multi-chain launch
+export interface ChainSigner {
+  signer: ethers.Signer;
+  provider: ethers.Provider;
+}
+
+// Helper function to wait for a transaction saved by its hash, after a reload or a lost connection.
+// Returns null when the node no longer knows it and its nonce is used, it was dropped or replaced.
+async function waitForSavedTransaction(provider: ethers.Provider, txHash: string, from: string, nonce: number) {
+  const transaction = await provider.getTransaction(txHash);
+  if (!transaction) {
+    if (await provider.getTransactionCount(from, 'latest') > nonce) {
+      return null;
+    }
+    throw new Error(`Transaction ${txHash} is not known to this network yet, try again shortly`);
+  }
+  return { transaction, receipt: await transaction.wait() };
+}
+
+interface CompanionTransactionOptions {
+  companion: DeploymentCompanion;
+  // Progress saved by an earlier attempt
+  saved: DeploymentCompanionState | undefined;
+  provider: ethers.Provider;
+  from: string;
+  send: () => Promise<ethers.TransactionResponse>;
+  // Called as the transaction is signed, broadcast and mined, and with null when it has to be sent again
+  onUpdate: (progress: DeploymentCompanionState | null) => void;
+}
+
+// Helper function to send a transaction the token needs and wait until it is mined, or pick up the one an
+// earlier attempt sent by its hash. A failed or dropped transaction is forgotten so resuming sends it again.
+async function runCompanionTransaction({ companion, saved, provider, from, send, onUpdate }: CompanionTransactionOptions) {
+  const creates = companion !== 'dividendTrackerLink' && companion !== 'routerLink';
+  let progress = saved ?? null;
+  if (progress?.stage === 'signed') {
+    // The page was left while the wallet had the transaction, a used nonce means it was sent
+    if (await provider.getTransactionCount(from, 'pending') > progress.nonce) {
+      throw new DeploymentEndedError(
+        `A transaction was sent from ${from} with nonce ${progress.nonce} but its hash was not saved, check the wallet activity`
+      );
+    }
+    progress = null;
+  }
+  if (!progress) {
+    const nonce = await provider.getTransactionCount(from, 'pending');
+    onUpdate({ stage: 'signed', nonce, txHash: null, address: creates ? ethers.getCreateAddress({ from, nonce }) : null });
+    const transaction = await send();
+    progress = {
+      stage: 'broadcast',
+      nonce: transaction.nonce,
+      txHash: transaction.hash,
+      address: creates ? ethers.getCreateAddress({ from, nonce: transaction.nonce }) : null,
+    };
+    onUpdate(progress);
+  }
+
+  const mined = await waitForSavedTransaction(provider, progress.txHash!, from, progress.nonce).catch(error => {
+    if (ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      return null;
+    }
+    throw error;
+  });
+  if (!mined?.receipt || (progress.address && await provider.getCode(progress.address) === '0x')) {
+    onUpdate(null);
+    throw new Error(`Transaction ${progress.txHash} failed or was replaced`);
+  }
+  if (progress.stage !== 'mined') {
+    onUpdate({ ...progress, stage: 'mined' });
+  }
+  return { address: progress.address, receipt: mined.receipt };
+}
+
+// Helper function to deploy a compiled token to one chain, then finish the deployment there
+async function deployToChain({
+  result,
+  contractDetails,
+  signer,
+  provider,
+  chainId,
+  previousCreate2Salt,
+  onProgress,
+  onStage
+}: ChainDeploymentOptions) {
+  const factory = new ethers.ContractFactory(
+    result.abi,
+    result.bytecode,
+    signer
+  );
+
+  onProgress(70, 'Deploying contract...');
+
+  // Every generated token takes the initial owner, encoded with the types of the compiled constructor.
+  // Upgradeable implementations take nothing, the proxy passes the owner to initialize() instead.
+  const signerAddress = await signer.getAddress();
+  const tokenInterface = new ethers.Interface(result.abi);
+  // Fails before anything is sent when a tax token has no router to be linked to on this chain
+  tokenRouterAddress(tokenInterface, chainId);
+  const constructorArgValues = result.proxy ? [] : tokenSetupArgs(tokenInterface.deploy.inputs, signerAddress);
+
+  let deployedAddress: string;
+  let creationData: string;
+  let receipt: ethers.TransactionReceipt | null;
+  let create2Salt: Create2SaltCache | null = null;
+  if (contractDetails.create2 && !result.proxy) {
+    // CREATE2: the address only depends on the factory, the salt and the creation code, so it is known
+    // before signing and the same on every chain the factory exists on
+    const { data: initCode } = await factory.getDeployTransaction(...constructorArgValues);
+    const initCodeHash = ethers.keccak256(initCode);
+    if (previousCreate2Salt?.initCodeHash === initCodeHash) {
+      create2Salt = previousCreate2Salt;
+    } else {
+      onProgress(70, 'Searching for a matching address...');
+      create2Salt = { initCodeHash, salt: await findCreate2Salt(initCodeHash, contractDetails.create2) };
+    }
+    deployedAddress = computeCreate2Address(create2Salt.salt, initCodeHash);
+
+    if (await provider.getCode(CREATE2_FACTORY_ADDRESS) === '0x') {
+      throw new Error(`The CREATE2 factory ${CREATE2_FACTORY_ADDRESS} is not deployed on this network`);
+    }
+    if (await provider.getCode(deployedAddress) !== '0x') {
+      throw new Error(`This token is already deployed at ${deployedAddress} on this network`);
+    }
+
+    onProgress(70, `Deploying contract to ${deployedAddress}...`);
+    const factoryTransaction = {
+      to: CREATE2_FACTORY_ADDRESS,
+      data: encodeCreate2Deployment(create2Salt.salt, initCode),
+    };
+    const estimatedGas = await provider.estimateGas({ ...factoryTransaction, from: signerAddress });
+    const gasOptimization = await optimizeGas(provider, estimatedGas);
+    onStage?.({
+      stage: 'signed',
+      from: signerAddress,
+      nonce: await provider.getTransactionCount(signerAddress, 'pending'),
+      address: deployedAddress,
+      create2Salt: create2Salt.salt,
+    });
+    const transaction = await signer.sendTransaction({
+      ...factoryTransaction,
+      gasLimit: estimatedGas + BigInt(50000),
+      ...gasOptimization
+    });
+    onStage?.({ stage: 'broadcast', txHash: transaction.hash, nonce: transaction.nonce });
+
+    onProgress(90, 'Waiting for confirmation...');
+    receipt = await transaction.wait();
+    if (!receipt || await provider.getCode(deployedAddress) === '0x') {
+      throw new Error('Deployment transaction failed');
+    }
+    creationData = initCode;
+  } else {
+    // Estimate gas
+    const estimatedGas = await factory.getDeployTransaction(...constructorArgValues).then(tx => 
+      provider.estimateGas(tx)
+    );
+
+    const gasOptimization = await optimizeGas(provider, estimatedGas);
+    const nonce = await provider.getTransactionCount(signerAddress, 'pending');
+    onStage?.({ stage: 'signed', from: signerAddress, nonce, address: ethers.getCreateAddress({ from: signerAddress, nonce }) });
+
+    // Deploy contract
+    const contract = await factory.deploy(
+      ...constructorArgValues,
+      {
+        gasLimit: estimatedGas + BigInt(50000), // Add buffer
+        ...gasOptimization
+      }
+    );
+
+    // The wallet picks the nonce, the address follows from the one it used
+    const deploymentTransaction = contract.deploymentTransaction();
+    if (deploymentTransaction) {
+      onStage?.({
+        stage: 'broadcast',
+        txHash: deploymentTransaction.hash,
+        nonce: deploymentTransaction.nonce,
+        address: await contract.getAddress(),
+      });
+    }
+
+    onProgress(90, 'Waiting for confirmation...');
+    receipt = await deploymentTransaction?.wait() ?? null;
+
+    if (!deploymentTransaction || !receipt) {
+      throw new Error('Deployment transaction failed');
+    }
+    deployedAddress = await contract.getAddress();
+    creationData = deploymentTransaction.data;
+  }
+  onStage?.({ stage: 'mined' });
+
+  const finished = await finishDeployment({
+    result,
+    contractDetails,
+    signer,
+    provider,
+    chainId,
+    onProgress,
+    deployedAddress,
+    receipt,
+    creationData,
+    create2Salt: create2Salt?.salt ?? null,
+    onStage,
+  });
+  return { ...finished, create2Salt };
+}
+
+// Helper function to deploy the contracts a mined token needs, record it in the registry and queue its
+// verification. Problems after the token itself is deployed are returned as a warning.
+async function finishDeployment({
+  result,
+  contractDetails,
+  signer,
+  provider,
+  chainId,
+  onProgress,
+  deployedAddress,
+  receipt,
+  creationData,
+  create2Salt,
+  onStage,
+  companions
+}: FinishDeploymentOptions) {
+  // Same constructor arguments as the creation transaction was built with
+  const signerAddress = await signer.getAddress();
+
+  // Each companion transaction is saved as it is sent, so resuming re-polls it instead of deploying it twice
+  const companionStates = { ...companions };
+  const sendCompanion = (companion: DeploymentCompanion, send: () => Promise<ethers.TransactionResponse>) =>
+    runCompanionTransaction({
+      companion,
+      saved: companionStates[companion],
+      provider,
+      from: signerAddress,
+      send,
+      onUpdate: progress => {
+        if (progress) {
+          companionStates[companion] = progress;
+        } else {
+          delete companionStates[companion];
+        }
+        onStage?.({ companions: { ...companionStates } });
+      },
+    });
+  const tokenInterface = new ethers.Interface(result.abi);
+  const constructorArgs = encodeConstructorArgs(
+    result.abi,
+    result.proxy ? [] : tokenSetupArgs(tokenInterface.deploy.inputs, signerAddress)
+  );
+
+  // Decode the arguments back out of the creation input, verification only works with what was actually sent
+  const warnings: string[] = [];
+  const sentConstructorArgs = extractConstructorArgs(result.bytecode, creationData);
+  const decodedArgs = decodeConstructorArgs(result.abi, sentConstructorArgs);
+  if (sentConstructorArgs !== constructorArgs || (!result.proxy && decodedArgs[0] !== signerAddress)) {
+    console.error('Constructor arguments in the creation transaction differ from the encoded ones:', {
+      encoded: constructorArgs,
+      sent: sentConstructorArgs,
+    });
+    warnings.push('The creation transaction carried other constructor arguments than the token was built with, check its owner before using it');
+  }
+
+  // Upgradeable tokens: the token lives at a proxy in front of the implementation, deployed with the
+  // initialize call so nobody can initialize it in between. Transparent proxies need their admin first.
+  let tokenAddress = deployedAddress;
+  let tokenContract = new ethers.Contract(deployedAddress, result.abi, signer);
+  let tokenReceipt = receipt;
+  let implementationAddress: string | undefined;
+  let proxyAdminAddress: string | undefined;
+  let proxyConstructorArgs: string | undefined;
+  if (result.proxy) {
+    implementationAddress = tokenAddress;
+    if (result.proxyAdmin) {
+      onProgress(80, 'Deploying proxy admin...');
+      const adminFactory = new ethers.ContractFactory(result.proxyAdmin.abi, result.proxyAdmin.bytecode, signer);
+      proxyAdminAddress = (await sendCompanion('proxyAdmin', () => deployCompanion(adminFactory, [], provider))).address!;
+    }
+
+    onProgress(85, 'Deploying proxy...');
+    const initialize = tokenInterface.getFunction('initialize')!;
+    const initData = tokenInterface.encodeFunctionData(initialize, tokenSetupArgs(initialize.inputs, signerAddress));
+    const proxyArgValues = proxyAdminAddress ? [implementationAddress, proxyAdminAddress, initData] : [implementationAddress, initData];
+    const proxyFactory = new ethers.ContractFactory(result.proxy.abi, result.proxy.bytecode, signer);
+    const proxy = await sendCompanion('proxy', () => deployCompanion(proxyFactory, proxyArgValues, provider));
+    proxyConstructorArgs = encodeConstructorArgs(result.proxy.abi, proxyArgValues);
+    tokenAddress = proxy.address!;
+    tokenContract = new ethers.Contract(tokenAddress, result.abi, signer);
+    tokenReceipt = proxy.receipt;
+  }
+
+  // Tax tokens: link the router of this chain, trading cannot be opened before
+  const routerAddress = tokenRouterAddress(tokenInterface, chainId);
+  if (routerAddress) {
+    try {
+      onProgress(91, 'Linking Uniswap V2 router to the token...');
+      await sendCompanion('routerLink', () => tokenContract.setUniswapV2Router(routerAddress));
+    } catch (routerError) {
+      console.error('Router setup failed:', routerError);
+      warnings.push(`Token deployed but the Uniswap V2 router could not be set, call setUniswapV2Router before opening trading: ${routerError instanceof Error ? routerError.message : String(routerError)}`);
+    }
+  }
+
+  // Dividend tokens: deploy the tracker for the new token and link it, the token itself stays usable if this fails
+  let dividendTrackerAddress: string | undefined;
+  if (result.dividendTracker) {
+    try {
+      onProgress(93, 'Deploying dividend tracker...');
+      const trackerFactory = new ethers.ContractFactory(result.dividendTracker.abi, result.dividendTracker.bytecode, signer);
+      const trackerAddress = (await sendCompanion('dividendTracker', () => deployCompanion(trackerFactory, [tokenAddress], provider))).address!;
+
+      onProgress(96, 'Linking dividend tracker to the token...');
+      await sendCompanion('dividendTrackerLink', () => tokenContract.setDividendTracker(trackerAddress));
+      dividendTrackerAddress = trackerAddress;
+    } catch (trackerError) {
+      console.error('Dividend tracker setup failed:', trackerError);
+      warnings.push(`Token deployed but the dividend tracker could not be set up: ${trackerError instanceof Error ? trackerError.message : String(trackerError)}`);
+    }
+  }
+
+  onProgress(100, 'Contract deployed successfully!');
+
+  const deploymentResult: DeploymentResult = {
+    address: tokenAddress,
+    txHash: tokenReceipt.hash,
+    blockNumber: tokenReceipt.blockNumber,
+    gasUsed: tokenReceipt.gasUsed.toString(),
+    verificationStatus: 'pending',
+    constructorArgs: sentConstructorArgs,
+    deploymentId: result.deploymentId,
+    dividendTrackerAddress,
+    implementationAddress,
+    proxyAdminAddress,
+    create2Salt: create2Salt ?? undefined
+  };
+
+  // Link the registered artifacts to the deployed contract, the server checks the transaction and reads the owner
+  try {
+    const registryResponse = await fetch(`/api/deployments/${result.deploymentId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chainId,
+        address: deploymentResult.address,
+        txHash: deploymentResult.txHash,
+        constructorArguments: deploymentResult.constructorArgs,
+        dividendTracker: dividendTrackerAddress,
+        implementation: implementationAddress,
+        proxyAdmin: proxyAdminAddress,
+        proxyConstructorArguments: proxyConstructorArgs
+      }),
+    });
+    if (!registryResponse.ok) {
+      console.error('Failed to record deployment:', await registryResponse.json());
+    }
+  } catch (registryError) {
+    console.error('Failed to record deployment:', registryError);
+  }
+
+  // Auto-verification on every configured network, the server picks the explorer provider.
+  // Full-match builds go to Sourcify, which needs no API key and may be a local server for devnets.
+  if (contractDetails.fullMatch || chainId in NETWORK_CONFIG) {
+    try {
+      onProgress(100, 'Queueing auto-verification...');
+      
+      const verificationResponse = await fetch('/api/deploy-contract/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          address: implementationAddress || deploymentResult.address,
+          sourceCode: result.contractCode,
+          contractName: result.contractName,
+          compilerProfile: result.compilerProfile,
+          deploymentId: result.deploymentId,
+          constructorArguments: deploymentResult.constructorArgs,
+          provider: contractDetails.fullMatch ? 'sourcify' : undefined,
+          chainId: chainId
+        }),
+      });
+
+      if (verificationResponse.ok) {
+        const { jobId } = await verificationResponse.json();
+        deploymentResult.verificationJobId = jobId;
+        onProgress(100, 'Contract deployed, verification in progress...');
+
+        // The proxy is verified from the same source, explorers then show the token's ABI on it
+        if (result.proxy) {
+          fetch('/api/deploy-contract/verify', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              address: deploymentResult.address,
+              sourceCode: result.contractCode,
+              contractName: result.proxy.contractName,
+              compilerProfile: result.compilerProfile,
+              deploymentId: result.deploymentId,
+              constructorArguments: proxyConstructorArgs,
+              provider: contractDetails.fullMatch ? 'sourcify' : undefined,
+              chainId: chainId
+            }),
+          }).catch(proxyVerificationError => console.error('Proxy verification error:', proxyVerificationError));
+        }
+      } else {
+        deploymentResult.verificationStatus = 'failed';
+        onProgress(100, 'Contract deployed but verification failed');
+      }
+    } catch (verificationError) {
+      console.error('Verification error:', verificationError);
+      deploymentResult.verificationStatus = 'failed';
+      onProgress(100, 'Contract deployed but verification failed');
+    }
+  }
+
+  return { deploymentResult, warning: warnings.length > 0 ? warnings.join('. ') : undefined };
+}
+
+const PENDING_DEPLOYMENT_KEY = 'pendingDeployment';
+
+// What the browser keeps of an unfinished deployment, the compiled artifact and details are needed to finish it
+interface StoredDeployment {
+  state: DeploymentState;
+  artifact: DeploymentResponse | null;
+  contractDetails: ContractDetails;
+  // Signed by the deploying wallet, the registry only takes state updates with it once it knows the wallet
+  authorization?: DeploymentAuthorization | null;
+}
+
+// Registry saves run one after another so a slow request cannot overwrite a later state
+let stateSaveQueue: Promise<void> = Promise.resolve();
+
+// Helper function to keep an unfinished deployment in local storage, finished ones are removed
+function storeDeploymentLocally(stored: StoredDeployment) {
+  try {
+    if (isFinalStage(stored.state.stage)) {
+      localStorage.removeItem(PENDING_DEPLOYMENT_KEY);
+    } else {
+      localStorage.setItem(PENDING_DEPLOYMENT_KEY, JSON.stringify(stored));
+    }
+  } catch (storageError) {
+    console.error('Failed to store deployment state locally:', storageError);
+  }
+}
+
+// Helper function to save a deployment state locally and in the registry, once the registry entry exists
+function saveDeploymentState(stored: StoredDeployment) {
+  storeDeploymentLocally(stored);
+  const { deploymentId } = stored.state;
+  if (!deploymentId) {
+    return;
+  }
+  stateSaveQueue = stateSaveQueue
+    .then(async () => {
+      const response = await fetch(`/api/deployments/${deploymentId}/state`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ state: stored.state, authorization: stored.authorization }),
+      });
+      if (!response.ok) {
+        console.error('Failed to save deployment state:', await response.json());
+      }
+    })
+    .catch(stateError => console.error('Failed to save deployment state:', stateError));
+}
+
+// Helper function to move a stored deployment to its next state and save it
+function advanceDeployment(stored: StoredDeployment, changes: Partial<DeploymentState>): StoredDeployment {
+  const next = {
+    ...stored,
+    state: { ...stored.state, error: null, ...changes, updatedAt: new Date().toISOString() },
+  };
+  saveDeploymentState(next);
+  return next;
+}
+
+// Helper function to decide whether a failed step ends a deployment or leaves it to be resumed
+function endsDeployment(stage: DeploymentStage, error: unknown): boolean {
+  if (error instanceof DeploymentEndedError) {
+    return true;
+  }
+  switch (stage) {
+    case 'signed':
+      // Unless the wallet rejected it, the transaction may have been sent, resuming checks the nonce
+      return ethers.isError(error, 'ACTION_REJECTED');
+    case 'broadcast':
+      return ethers.isError(error, 'TRANSACTION_REPLACED') || ethers.isError(error, 'CALL_EXCEPTION');
+    case 'mined':
+    case 'verified':
+      return false;
+    default:
+      return true;
+  }
+}
+
+// Helper function to follow up on a creation transaction by its hash, after a reload or a lost connection
+async function waitForCreation(provider: ethers.Provider, state: DeploymentState) {
+  const mined = await waitForSavedTransaction(provider, state.txHash!, state.from!, state.nonce!);
+  if (!mined) {
+    throw new DeploymentEndedError(`Transaction ${state.txHash} was replaced or dropped`);
+  }
+  const { transaction, receipt } = mined;
+  // Plain deployments create the contract from the transaction, CREATE2 ones through the factory,
+  // whose calldata is the salt followed by the creation code
+  const deployedAddress = state.create2Salt ? state.address : receipt?.contractAddress;
+  if (!receipt || !deployedAddress || await provider.getCode(deployedAddress) === '0x') {
+    throw new DeploymentEndedError('Deployment transaction failed');
+  }
+  return {
+    receipt,
+    deployedAddress,
+    creationData: state.create2Salt ? ethers.dataSlice(transaction.data, 32) : transaction.data,
+  };
+}
+
+// Helper function to submit the token's logo and description to the explorer, which only accepts verified
+// contracts. Returns why it was not submitted, if it should have been.
+async function submitTokenMetadata(stored: StoredDeployment): Promise<string | null> {
+  const { state, contractDetails: details } = stored;
+  if (!state.result || state.result.verificationStatus !== 'success' || (!details.logoUrl && !details.description)) {
+    return null;
+  }
+  try {
+    const response = await fetch('/api/token-metadata/submit', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        address: state.result.address,
+        tokenName: details.name,
+        tokenSymbol: details.symbol,
+        decimals: details.decimals,
+        totalSupply: details.totalSupply,
+        logoUrl: details.logoUrl,
+        description: details.description,
+        chainId: state.chainId,
+        ownerAddress: state.from,
+        network: getNetworkName(state.chainId)
+      }),
+    });
+    const result = await response.json();
+    return response.ok ? null : `Token metadata was not submitted: ${result.message || result.error}`;
+  } catch (metadataError) {
+    console.error('Token metadata submission error:', metadataError);
+    return `Token metadata was not submitted: ${metadataError instanceof Error ? metadataError.message : String(metadataError)}`;
+  }
+}
+
+// Helper function to take a deployment from finished verification to its last step
+async function completeDeployment(
+  stored: StoredDeployment,
+  verification?: Pick<DeploymentResult, 'verificationStatus' | 'verificationUrl'>
+): Promise<StoredDeployment> {
+  let next = stored;
+  if (next.state.stage === 'mined') {
+    next = advanceDeployment(next, {
+      stage: 'verified',
+      result: next.state.result && { ...next.state.result, ...verification },
+    });
+  }
+  const metadataProblem = await submitTokenMetadata(next);
+  return advanceDeployment(next, { stage: 'metadata_submitted', error: metadataProblem });
+}
+
+// Helper function to switch the browser wallet to a chain and connect to it there
+async function connectWalletToChain(chainId: number): Promise<ChainSigner> {
+  await switchWalletNetwork(chainId);
+  // A provider created before the switch keeps talking to the old network
+  const provider = new ethers.BrowserProvider(window.ethereum!);
+  return { provider, signer: await provider.getSigner() };
+}
 
 export function useContractDeployment() {
   const [contractDetails, setContractDetails] = useState<ContractDetails>({
@@ -10,11 +722,24 @@ export function useContractDeployment() {
     decimals: '18',
     totalSupply: '',
     features: ['burnable'], // Default to burnable since Ownable is always present
+    template: 'standard',
+    reflectionFee: DEFAULT_REFLECTION_FEE,
     optimizationLevel: 'standard',
+    fullMatch: false,
     logoUrl: '',
     description: '',
     buyTax: 0,
     sellTax: 0,
+    taxDistribution: DEFAULT_TAX_DISTRIBUTION,
+    marketingWallet: '',
+    devWallet: '',
+    treasuryWallet: '',
+    antiBot: DEFAULT_ANTI_BOT_SETTINGS,
+    limits: DEFAULT_TRANSACTION_LIMITS,
+    dividends: DEFAULT_DIVIDEND_SETTINGS,
+    allocations: DEFAULT_ALLOCATIONS,
+    upgradeable: null,
+    create2: null,
   });
 
   const [isDeploying, setIsDeploying] = useState(false);
@@ -22,6 +747,253 @@ export function useContractDeployment() {
   const [deploymentError, setDeploymentError] = useState<string>('');
   const [deploymentProgress, setDeploymentProgress] = useState(0);
   const [deploymentStatus, setDeploymentStatus] = useState<string>('');
+  const [contractPreview, setContractPreview] = useState<ContractPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string>('');
+  const [optimizationComparison, setOptimizationComparison] = useState<OptimizationComparison[] | null>(null);
+  const [isComparingOptimization, setIsComparingOptimization] = useState(false);
+  // Last CREATE2 salt per creation code, deploying the same token on another chain reuses it for the same address
+  const [lastCreate2Salt, setLastCreate2Salt] = useState<Create2SaltCache | null>(null);
+  const [multiChainDeployment, setMultiChainDeployment] = useState<MultiChainDeployment | null>(null);
+  // Single-chain deployment that was started and not finished, kept across reloads
+  const [pendingDeployment, setPendingDeployment] = useState<DeploymentState | null>(null);
+  const storedDeploymentRef = useRef<StoredDeployment | null>(null);
+
+  // Only the fields that affect the generated contract trigger a new preview
+  const sourceKey = JSON.stringify({
+    name: contractDetails.name,
+    symbol: contractDetails.symbol,
+    decimals: contractDetails.decimals,
+    totalSupply: contractDetails.totalSupply,
+    features: contractDetails.features,
+    template: contractDetails.template,
+    reflectionFee: contractDetails.reflectionFee,
+    buyTax: contractDetails.buyTax,
+    sellTax: contractDetails.sellTax,
+    taxDistribution: contractDetails.taxDistribution,
+    marketingWallet: contractDetails.marketingWallet,
+    devWallet: contractDetails.devWallet,
+    treasuryWallet: contractDetails.treasuryWallet,
+    antiBot: contractDetails.antiBot,
+    limits: contractDetails.limits,
+    dividends: contractDetails.dividends,
+    allocations: contractDetails.allocations,
+    upgradeable: contractDetails.upgradeable,
+  });
+  const previewKey = JSON.stringify({
+    ...JSON.parse(sourceKey),
+    optimizationLevel: contractDetails.optimizationLevel,
+    fullMatch: contractDetails.fullMatch,
+  });
+
+  // Pick up a deployment interrupted by a reload. The registry is ahead when another tab moved it on or cancelled it.
+  useEffect(() => {
+    let stored: StoredDeployment | null = null;
+    try {
+      stored = JSON.parse(localStorage.getItem(PENDING_DEPLOYMENT_KEY) || 'null');
+    } catch (storageError) {
+      console.error('Failed to read stored deployment:', storageError);
+    }
+    if (!stored) return;
+    // Nothing was registered or sent before compilation finished
+    if (stored.state.stage === 'generated' || isFinalStage(stored.state.stage)) {
+      localStorage.removeItem(PENDING_DEPLOYMENT_KEY);
+      return;
+    }
+
+    storedDeploymentRef.current = stored;
+    setPendingDeployment(stored.state);
+    setContractDetails(stored.contractDetails);
+
+    const localState = stored.state;
+    fetch(`/api/deployments/${localState.deploymentId}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        const serverState: DeploymentState | null | undefined = data?.deployment?.state;
+        const current = storedDeploymentRef.current;
+        if (!serverState || current?.state !== localState) return;
+        if (!isFinalStage(serverState.stage) && DEPLOYMENT_STAGES.indexOf(serverState.stage) <= DEPLOYMENT_STAGES.indexOf(localState.stage)) return;
+
+        const updated = { ...current, state: serverState };
+        storedDeploymentRef.current = updated;
+        storeDeploymentLocally(updated);
+        setPendingDeployment(serverState);
+      })
+      .catch(registryError => console.error('Failed to read deployment state:', registryError));
+  }, []);
+
+  // A comparison only holds for the source it was compiled from
+  useEffect(() => {
+    setOptimizationComparison(null);
+  }, [sourceKey]);
+
+  // Regenerate and compile the contract preview shortly after the user stops editing
+  useEffect(() => {
+    const details = JSON.parse(previewKey);
+    if (!details.name || !details.symbol || !details.totalSupply) {
+      setContractPreview(null);
+      setPreviewError('');
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const response = await fetch('/api/deploy-contract/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ contractDetails: details }),
+          signal: controller.signal,
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          setContractPreview(null);
+          setPreviewError(apiErrorMessage(result, 'Preview failed'));
+          return;
+        }
+
+        setContractPreview(result);
+        setPreviewError('');
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Preview error:', error);
+        setPreviewError(error instanceof Error ? error.message : 'Preview failed');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsPreviewing(false);
+        }
+      }
+    }, 600);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [previewKey]);
+
+  // Poll the verification job until the explorer reports a final result
+  const verificationJobId = deploymentResult?.verificationJobId;
+  useEffect(() => {
+    if (!verificationJobId) return;
+
+    let inFlight = false;
+    const interval = setInterval(async () => {
+      if (inFlight) return;
+      inFlight = true;
+      try {
+        const response = await fetch(`/api/deploy-contract/verify/${verificationJobId}`);
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const { job } = await response.json();
+
+        if (job.status === 'success' || job.status === 'failed') {
+          clearInterval(interval);
+          setDeploymentResult(prev => prev ? {
+            ...prev,
+            verificationStatus: job.status,
+            verificationUrl: job.status === 'success' ? job.explorerUrl : undefined
+          } : null);
+          setDeploymentStatus(job.status === 'success'
+            ? 'Contract verified successfully!'
+            : `Contract deployed but verification failed: ${job.message}`);
+
+          // The pending deployment this job belongs to moves on to its metadata submission
+          const stored = storedDeploymentRef.current;
+          if (stored?.state.stage === 'mined' && stored.state.result?.verificationJobId === verificationJobId) {
+            storedDeploymentRef.current = await completeDeployment(stored, {
+              verificationStatus: job.status,
+              verificationUrl: job.status === 'success' ? job.explorerUrl : undefined
+            });
+            setPendingDeployment(storedDeploymentRef.current.state);
+          }
+        } else {
+          setDeploymentStatus(`Verification in progress on ${job.explorer}${job.message ? `: ${job.message}` : '...'}`);
+        }
+      } catch (error) {
+        console.error('Verification status error:', error);
+      } finally {
+        inFlight = false;
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [verificationJobId]);
+
+  // Poll the verification jobs of a multi-chain launch, one request per chain that is still pending
+  const pendingChainVerifications = (multiChainDeployment?.chains || [])
+    .filter(chain => chain.result?.verificationJobId && chain.result.verificationStatus === 'pending')
+    .map(chain => `${chain.chainId}:${chain.result!.verificationJobId}`)
+    .join(',');
+  useEffect(() => {
+    if (!pendingChainVerifications) return;
+
+    let inFlight = false;
+    const interval = setInterval(async () => {
+      if (inFlight) return;
+      inFlight = true;
+      try {
+        for (const entry of pendingChainVerifications.split(',')) {
+          const [chainId, jobId] = entry.split(':');
+          const response = await fetch(`/api/deploy-contract/verify/${jobId}`);
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          const { job } = await response.json();
+
+          if (job.status === 'success' || job.status === 'failed') {
+            setMultiChainDeployment(prev => prev && {
+              ...prev,
+              chains: prev.chains.map(chain => chain.chainId === Number(chainId) && chain.result ? {
+                ...chain,
+                result: {
+                  ...chain.result,
+                  verificationStatus: job.status,
+                  verificationUrl: job.status === 'success' ? job.explorerUrl : undefined
+                }
+              } : chain),
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Verification status error:', error);
+      } finally {
+        inFlight = false;
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [pendingChainVerifications]);
+
+  // Compile the current contract at every optimization level, on request since the IR pipeline is slow
+  const handleCompareOptimization = async () => {
+    setIsComparingOptimization(true);
+    try {
+      const response = await fetch('/api/deploy-contract/compare-optimization', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ contractDetails: JSON.parse(sourceKey) }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(apiErrorMessage(result, 'Comparison failed'));
+      }
+
+      setOptimizationComparison(result.levels);
+    } catch (error) {
+      console.error('Optimization comparison error:', error);
+      setPreviewError(error instanceof Error ? error.message : 'Comparison failed');
+    } finally {
+      setIsComparingOptimization(false);
+    }
+  };
 
   const handleAutoGenerate = async () => {
     const randomNames = [
@@ -53,6 +1025,157 @@ export function useContractDeployment() {
     }));
   };
 
+  // Helper function to generate and compile the token on the server and register its artifacts
+  const compileForDeployment = async (chainId: number, targetChainIds?: number[]): Promise<DeploymentResponse> => {
+    const deploymentData = {
+      name: contractDetails.name,
+      symbol: contractDetails.symbol,
+      decimals: parseInt(contractDetails.decimals),
+      totalSupply: contractDetails.totalSupply,
+      features: contractDetails.features,
+      template: contractDetails.template,
+      reflectionFee: contractDetails.reflectionFee,
+      optimizationLevel: contractDetails.optimizationLevel,
+      fullMatch: contractDetails.fullMatch,
+      logoUrl: contractDetails.logoUrl,
+      description: contractDetails.description,
+      buyTax: contractDetails.buyTax,
+      sellTax: contractDetails.sellTax,
+      taxDistribution: contractDetails.taxDistribution,
+      marketingWallet: contractDetails.marketingWallet,
+      devWallet: contractDetails.devWallet,
+      treasuryWallet: contractDetails.treasuryWallet,
+      antiBot: contractDetails.antiBot,
+      limits: contractDetails.limits,
+      dividends: contractDetails.dividends,
+      allocations: contractDetails.allocations,
+      upgradeable: contractDetails.upgradeable,
+      create2: contractDetails.create2,
+      chainId: chainId
+    };
+
+    console.log('Sending contract details to API:', deploymentData);
+
+    const response = await fetch('/api/deploy-contract', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contractDetails: deploymentData,
+        targetChainIds
+      }),
+    });
+
+    if (!response.ok) {
+      // Invalid configurations and compile errors come back with the problems listed in details
+      const result = await response.json().catch(() => ({}));
+      throw new Error(apiErrorMessage(result, `HTTP error! status: ${response.status}`));
+    }
+
+    return response.json();
+  };
+
+  // Helper function to move the pending deployment to its next state, saved locally and in the registry
+  const updateDeploymentState = (changes: Partial<DeploymentState>) => {
+    if (!storedDeploymentRef.current) return;
+    storedDeploymentRef.current = advanceDeployment(storedDeploymentRef.current, changes);
+    setPendingDeployment(storedDeploymentRef.current.state);
+  };
+
+  // Helper function to report a failed step, the deployment stays resumable unless the failure ends it
+  const failDeployment = (error: unknown) => {
+    console.error('Deployment error:', error);
+    const message = error instanceof Error ? error.message : 'Deployment failed';
+    setDeploymentError(message);
+    const stage = storedDeploymentRef.current?.state.stage;
+    if (!stage || endsDeployment(stage, error)) {
+      updateDeploymentState({ stage: 'failed', error: message });
+      setDeploymentStatus('Deployment failed');
+    } else {
+      updateDeploymentState({ error: message });
+      setDeploymentStatus('Deployment interrupted, it can be resumed');
+    }
+  };
+
+  // Helper function to run the pending deployment from its current stage up to verification
+  const continueDeployment = async (signer: ethers.Signer, provider: ethers.Provider) => {
+    const { artifact, contractDetails: details } = storedDeploymentRef.current!;
+    const onProgress = (progress: number, status: string) => {
+      setDeploymentProgress(progress);
+      setDeploymentStatus(status);
+    };
+
+    let state = storedDeploymentRef.current!.state;
+    if (state.deploymentId && !isAuthorizationFresh(storedDeploymentRef.current!.authorization)) {
+      onProgress(65, 'Sign the message that lets this browser save the deployment progress...');
+      const authorization = await signDeploymentAuthorization(signer, state.deploymentId, 'update');
+      storedDeploymentRef.current = { ...storedDeploymentRef.current!, authorization };
+      storeDeploymentLocally(storedDeploymentRef.current);
+    }
+    if (state.stage === 'signed') {
+      // The page was left while the wallet had the transaction, a used nonce means it was sent
+      if (await provider.getTransactionCount(state.from!, 'pending') > state.nonce!) {
+        throw new DeploymentEndedError(
+          `A transaction was sent from ${state.from} but its hash was not saved, check the wallet activity for a deployment to ${state.address}`
+        );
+      }
+      updateDeploymentState({ stage: 'compiled' });
+      state = storedDeploymentRef.current!.state;
+    }
+    if (!artifact && (state.stage === 'compiled' || !state.result)) {
+      throw new DeploymentEndedError('The compiled contract is no longer available in this browser, please deploy again');
+    }
+
+    let outcome: { deploymentResult: DeploymentResult; warning?: string } | null = null;
+    if (state.stage === 'compiled') {
+      const deployed = await deployToChain({
+        result: artifact!,
+        contractDetails: details,
+        signer,
+        provider,
+        chainId: state.chainId,
+        previousCreate2Salt: lastCreate2Salt,
+        onProgress,
+        onStage: updateDeploymentState,
+      });
+      if (deployed.create2Salt) {
+        setLastCreate2Salt(deployed.create2Salt);
+      }
+      outcome = deployed;
+    } else if (state.stage === 'broadcast' || (state.stage === 'mined' && !state.result)) {
+      onProgress(90, 'Waiting for confirmation...');
+      const creation = await waitForCreation(provider, state);
+      updateDeploymentState({ stage: 'mined' });
+      outcome = await finishDeployment({
+        result: artifact!,
+        contractDetails: details,
+        signer,
+        provider,
+        chainId: state.chainId,
+        onProgress,
+        ...creation,
+        create2Salt: state.create2Salt,
+        onStage: updateDeploymentState,
+        companions: state.companions,
+      });
+    }
+    if (outcome) {
+      updateDeploymentState({ result: outcome.deploymentResult });
+      if (outcome.warning) {
+        setDeploymentError(outcome.warning);
+      }
+    }
+
+    // Verification jobs are polled below, without one there is nothing to wait for
+    state = storedDeploymentRef.current!.state;
+    setDeploymentResult(state.result);
+    if (state.stage === 'verified' || (state.stage === 'mined' && (!state.result?.verificationJobId || state.result.verificationStatus !== 'pending'))) {
+      storedDeploymentRef.current = await completeDeployment(storedDeploymentRef.current!);
+      setPendingDeployment(storedDeploymentRef.current.state);
+    }
+  };
+
   const handleDeploy = async (
     signer: ethers.JsonRpcSigner,
     provider: ethers.BrowserProvider,
@@ -62,156 +1185,175 @@ export function useContractDeployment() {
       alert('Please fill in all required fields');
       return;
     }
+    if (pendingDeployment && !isFinalStage(pendingDeployment.stage)) {
+      alert('Please resume or cancel the pending deployment first');
+      return;
+    }
 
     setIsDeploying(true);
     setDeploymentError('');
+    setDeploymentResult(null);
+    setMultiChainDeployment(null);
     setDeploymentProgress(0);
     setDeploymentStatus('Preparing deployment...');
 
+    storedDeploymentRef.current = { state: newDeploymentState(chainId), artifact: null, contractDetails };
+    saveDeploymentState(storedDeploymentRef.current);
+    setPendingDeployment(storedDeploymentRef.current.state);
+
     try {
-      // Step 1: Generate contract code
+      // Step 1: Generate and compile the contract
       setDeploymentProgress(10);
       setDeploymentStatus('Generating contract code...');
-      
-      const deploymentData = {
-        name: contractDetails.name,
-        symbol: contractDetails.symbol,
-        decimals: parseInt(contractDetails.decimals),
-        totalSupply: contractDetails.totalSupply,
-        features: contractDetails.features,
-        optimizationLevel: contractDetails.optimizationLevel,
-        logoUrl: contractDetails.logoUrl,
-        description: contractDetails.description,
-        buyTax: contractDetails.buyTax,
-        sellTax: contractDetails.sellTax,
-        chainId: chainId
-      };
-
-      console.log('Sending contract details to API:', deploymentData);
-
-      const response = await fetch('/api/deploy-contract', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contractDetails: deploymentData
-        }),
-      });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      const result = await compileForDeployment(chainId);
+      storedDeploymentRef.current = { ...storedDeploymentRef.current, artifact: result };
+      updateDeploymentState({ stage: 'compiled', deploymentId: result.deploymentId });
 
-      const result = await response.json();
-      
       setDeploymentProgress(30);
       setDeploymentStatus('Contract code generated successfully');
 
-      // Step 2: Compile and deploy
-      setDeploymentProgress(50);
-      setDeploymentStatus('Compiling contract...');
+      // Step 2: Deploy, record and verify
+      await continueDeployment(signer, provider);
+    } catch (error) {
+      failDeployment(error);
+    } finally {
+      setIsDeploying(false);
+    }
+  };
 
-      const factory = new ethers.ContractFactory(
-        result.abi,
-        result.bytecode,
-        signer
-      );
+  // Pick the pending deployment up where it stopped, the creation transaction is re-polled by its hash
+  const resumeDeployment = async (signer: ethers.Signer, provider: ethers.Provider) => {
+    const stored = storedDeploymentRef.current;
+    if (!stored || isFinalStage(stored.state.stage)) return;
+    const network = await provider.getNetwork();
+    if (Number(network.chainId) !== stored.state.chainId) {
+      alert(`Please switch your wallet to ${getNetworkName(stored.state.chainId)} to resume this deployment`);
+      return;
+    }
 
-      setDeploymentProgress(70);
-      setDeploymentStatus('Deploying contract...');
+    setIsDeploying(true);
+    setDeploymentError('');
+    setDeploymentResult(null);
+    setMultiChainDeployment(null);
+    setDeploymentProgress(50);
+    setDeploymentStatus(`Resuming deployment from ${stored.state.stage}...`);
 
-      // Estimate gas
-      const signerAddress = await signer.getAddress();
-      const estimatedGas = await factory.getDeployTransaction(signerAddress).then(tx => 
-        provider.estimateGas(tx)
-      );
+    try {
+      await continueDeployment(signer, provider);
+    } catch (error) {
+      failDeployment(error);
+    } finally {
+      setIsDeploying(false);
+    }
+  };
 
-      const gasOptimization = await optimizeGas(provider, estimatedGas);
+  // Stop tracking the pending deployment. A transaction already sent cannot be called back and may still be mined.
+  const cancelDeployment = () => {
+    const stored = storedDeploymentRef.current;
+    if (!stored || isFinalStage(stored.state.stage) || isDeploying) return;
+    if (stored.state.txHash && !window.confirm('The deployment transaction was already sent and may still be mined. Stop tracking it?')) {
+      return;
+    }
+    updateDeploymentState({ stage: 'cancelled' });
+    setDeploymentError('');
+    setDeploymentStatus('');
+  };
 
-      // Deploy contract
-      const contract = await factory.deploy(
-        await signer.getAddress(), // Pass the signer address as initialOwner
-        {
-          gasLimit: estimatedGas + BigInt(50000), // Add buffer
-          ...gasOptimization
-        }
-      );
+  // Deploy the same compiled token to several chains one after another. The browser wallet is switched to
+  // each chain unless the caller provides signers; a failed chain is reported and the launch moves on.
+  const handleMultiChainDeploy = async (
+    chainIds: number[],
+    getChainSigner: (chainId: number) => Promise<ChainSigner> = connectWalletToChain
+  ) => {
+    if (!contractDetails.name || !contractDetails.symbol || !contractDetails.totalSupply) {
+      alert('Please fill in all required fields');
+      return;
+    }
+    if (chainIds.length === 0) {
+      alert('Please select at least one network');
+      return;
+    }
 
-      setDeploymentProgress(90);
-      setDeploymentStatus('Waiting for confirmation...');
+    setIsDeploying(true);
+    setDeploymentError('');
+    setDeploymentResult(null);
+    setDeploymentProgress(0);
+    setDeploymentStatus('Generating contract code...');
+    setMultiChainDeployment({ deploymentId: null, chains: chainIds.map(chainId => ({ chainId, status: 'pending' })) });
 
-      const receipt = await contract.deploymentTransaction()?.wait();
-      
-      if (!receipt) {
-        throw new Error('Deployment transaction failed');
-      }
+    const updateChain = (chainId: number, changes: Partial<ChainDeployment>) => {
+      setMultiChainDeployment(prev => prev && {
+        ...prev,
+        chains: prev.chains.map(chain => chain.chainId === chainId ? { ...chain, ...changes } : chain),
+      });
+    };
 
-      setDeploymentProgress(100);
-      setDeploymentStatus('Contract deployed successfully!');
+    try {
+      // One artifact for every chain, compiled with a profile that runs on all of them
+      const result = await compileForDeployment(chainIds[0], chainIds);
+      setMultiChainDeployment(prev => prev && { ...prev, deploymentId: result.deploymentId });
 
-      const deploymentResult: DeploymentResult = {
-        address: await contract.getAddress(),
-        txHash: receipt.hash,
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed.toString(),
-        verificationStatus: 'pending'
-      };
-
-      setDeploymentResult(deploymentResult);
-
-      // Step 3: Auto-verification (if supported)
-      if (chainId === 1 || chainId === 137 || chainId === 56) {
-        const delayForVerification = async (ms: number) => {
-          return new Promise(resolve => setTimeout(resolve, ms));
+      let create2Salt = lastCreate2Salt;
+      for (const [index, chainId] of chainIds.entries()) {
+        const networkName = getNetworkName(chainId);
+        const onProgress = (progress: number, status: string) => {
+          setDeploymentProgress(Math.round((index * 100 + progress) / chainIds.length));
+          setDeploymentStatus(`${networkName}: ${status}`);
         };
 
         try {
-          await delayForVerification(10000); // Wait 10 seconds
-          setDeploymentStatus('Attempting auto-verification...');
-          
-          const verificationResponse = await fetch('/api/deploy-contract/verify', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              address: deploymentResult.address,
-              sourceCode: result.contractCode,
-              contractName: contractDetails.name,
-              compilerVersion: '0.8.19',
-              optimizationUsed: contractDetails.optimizationLevel !== 'none',
-              runs: contractDetails.optimizationLevel === 'high' ? 1000 : 200,
-              chainId: chainId
-            }),
-          });
+          updateChain(chainId, { status: 'switching' });
+          onProgress(0, 'Switching network...');
+          const { signer, provider } = await getChainSigner(chainId);
+          const network = await provider.getNetwork();
+          if (Number(network.chainId) !== chainId) {
+            throw new Error(`The wallet is connected to chain ${network.chainId} instead of ${networkName}`);
+          }
 
-          if (verificationResponse.ok) {
-            setDeploymentResult(prev => prev ? {
-              ...prev,
-              verificationStatus: 'success'
-            } : null);
-            setDeploymentStatus('Contract verified successfully!');
-          } else {
-            setDeploymentResult(prev => prev ? {
-              ...prev,
-              verificationStatus: 'failed'
-            } : null);
-            setDeploymentStatus('Contract deployed but verification failed');
+          // Every chain after the first registers its own copy of the artifacts
+          let chainResult = result;
+          if (index > 0) {
+            const copyResponse = await fetch(`/api/deployments/${result.deploymentId}/copy`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ chainId }),
+            });
+            if (!copyResponse.ok) {
+              throw new Error(`HTTP error! status: ${copyResponse.status}`);
+            }
+            const { deployment } = await copyResponse.json();
+            chainResult = { ...result, deploymentId: deployment.id };
           }
-        } catch (verificationError) {
-          console.error('Verification error:', verificationError);
-          setDeploymentResult(prev => prev ? {
-            ...prev,
-            verificationStatus: 'failed'
-          } : null);
-          setDeploymentStatus('Contract deployed but verification failed');
+
+          updateChain(chainId, { status: 'deploying' });
+          const outcome = await deployToChain({
+            result: chainResult,
+            contractDetails,
+            signer,
+            provider,
+            chainId,
+            previousCreate2Salt: create2Salt,
+            onProgress,
+          });
+          create2Salt = outcome.create2Salt ?? create2Salt;
+          updateChain(chainId, { status: 'deployed', result: outcome.deploymentResult, error: outcome.warning });
+        } catch (chainError) {
+          console.error(`Deployment to ${networkName} failed:`, chainError);
+          updateChain(chainId, { status: 'failed', error: chainError instanceof Error ? chainError.message : String(chainError) });
         }
       }
 
-    } catch (error: any) {
-      console.error('Deployment error:', error);
-      setDeploymentError(error.message || 'Deployment failed');
+      if (create2Salt) {
+        setLastCreate2Salt(create2Salt);
+      }
+      setDeploymentProgress(100);
+      setDeploymentStatus('Multi-chain launch finished');
+    } catch (error) {
+      console.error('Multi-chain deployment error:', error);
+      setDeploymentError(error instanceof Error ? error.message : 'Deployment failed');
       setDeploymentStatus('Deployment failed');
     } finally {
       setIsDeploying(false);
@@ -275,8 +1417,19 @@ export function useContractDeployment() {
     deploymentError,
     deploymentProgress,
     deploymentStatus,
+    contractPreview,
+    isPreviewing,
+    previewError,
+    optimizationComparison,
+    isComparingOptimization,
+    handleCompareOptimization,
     handleAutoGenerate,
     handleDeploy,
+    pendingDeployment,
+    resumeDeployment,
+    cancelDeployment,
+    multiChainDeployment,
+    handleMultiChainDeploy,
     handleFeatureToggle,
     handleLogoUpload
   };
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { CREATE2_FACTORY_ADDRESS, encodeCreate2Deployment } from '@/lib/deployments/create2';
+import { checkContractCreation, checkLinkedContracts, readContractOwner } from '@/lib/deployments/onchain';
+import {
+  AUTHORIZATION_MAX_AGE_MS,
+  checkDeploymentAuthorization,
+  deploymentAuthorizationMessage,
+  signDeploymentAuthorization,
+} from '@/lib/deployments/authorization';
+import { compileToken, createLocalChain, LocalChain } from '@/lib/token-builder/__tests__/local-chain';
+
+const DEPLOYMENT_ID = 'c0ffee00-0000-4000-8000-000000000000';
+
+describe('deployment checks against the chain', () => {
+  let chain: LocalChain;
+  let owner: ethers.JsonRpcSigner;
+  let other: ethers.JsonRpcSigner;
+  let token: ethers.BaseContract;
+  let tokenTx: ethers.TransactionResponse;
+
+  beforeAll(async () => {
+    chain = await createLocalChain();
+    [owner, other] = chain.accounts;
+    const compiled = await compileToken({ name: 'Checked Token', symbol: 'CHK', totalSupply: '1000000' });
+    token = await new ethers.ContractFactory(compiled.abi, compiled.bytecode, owner).deploy(other.address);
+    await token.waitForDeployment();
+    tokenTx = token.deploymentTransaction()!;
+  });
+
+  afterAll(async () => {
+    await chain?.close();
+  });
+
+  it('accepts the transaction that created the contract and reads the owner from it', async () => {
+    const address = await token.getAddress();
+    const creation = await checkContractCreation(chain.provider, tokenTx.hash, address);
+
+    expect(creation).toMatchObject({ address, from: owner.address, create2Salt: null });
+    expect(await readContractOwner(chain.provider, address)).toBe(other.address);
+  });
+
+  it('rejects a transaction that created another contract or none', async () => {
+    const transfer = await owner.sendTransaction({ to: other.address, value: BigInt(1) });
+    await transfer.wait();
+
+    await expect(checkContractCreation(chain.provider, tokenTx.hash, other.address)).rejects.toThrow('not');
+    await expect(checkContractCreation(chain.provider, transfer.hash, await token.getAddress())).rejects.toThrow('did not create a contract');
+    await expect(checkContractCreation(chain.provider, ethers.id('unknown'), await token.getAddress())).rejects.toThrow('not mined');
+  });
+
+  it('takes the salt of a CREATE2 deployment from its calldata', async () => {
+    const salt = ethers.id('salt');
+    const initCode = tokenTx.data;
+    const transaction = await owner.sendTransaction({ to: CREATE2_FACTORY_ADDRESS, data: encodeCreate2Deployment(salt, initCode) });
+    await transaction.wait();
+    const address = ethers.getCreate2Address(CREATE2_FACTORY_ADDRESS, salt, ethers.keccak256(initCode));
+
+    expect(await checkContractCreation(chain.provider, transaction.hash, address)).toMatchObject({ address, create2Salt: salt });
+    await expect(checkContractCreation(chain.provider, transaction.hash, await token.getAddress())).rejects.toThrow(`created ${address}`);
+  });
+
+  it('rejects linked contracts the token does not point at', async () => {
+    const problems = await checkLinkedContracts(chain.provider, await token.getAddress(), {
+      implementation: other.address,
+      dividendTracker: other.address,
+    });
+
+    expect(problems).toHaveLength(2);
+  });
+});
+
+describe('deployment authorization', () => {
+  const wallet = ethers.Wallet.createRandom();
+
+  it('accepts a recent signature from the owner for the same deployment and action', async () => {
+    const authorization = await signDeploymentAuthorization(wallet, DEPLOYMENT_ID, 'update');
+
+    expect(checkDeploymentAuthorization(DEPLOYMENT_ID, 'update', wallet.address, authorization)).toEqual([]);
+    expect(checkDeploymentAuthorization(DEPLOYMENT_ID, 'delete', wallet.address, authorization)).toEqual([
+      expect.stringContaining('not from the deployment owner'),
+    ]);
+    expect(checkDeploymentAuthorization('another-id', 'update', wallet.address, authorization)).toHaveLength(1);
+  });
+
+  it('rejects missing, foreign and expired signatures', async () => {
+    const stranger = ethers.Wallet.createRandom();
+    const issuedAt = new Date(Date.now() - AUTHORIZATION_MAX_AGE_MS - 1000).toISOString();
+    const expired = { issuedAt, signature: await wallet.signMessage(deploymentAuthorizationMessage(DEPLOYMENT_ID, 'delete', issuedAt)) };
+
+    expect(checkDeploymentAuthorization(DEPLOYMENT_ID, 'delete', wallet.address, null)).toEqual([
+      expect.stringContaining('signature from the deployment owner'),
+    ]);
+    expect(checkDeploymentAuthorization(
+      DEPLOYMENT_ID,
+      'delete',
+      wallet.address,
+      await signDeploymentAuthorization(stranger, DEPLOYMENT_ID, 'delete')
+    )).toEqual([expect.stringContaining(stranger.address)]);
+    expect(checkDeploymentAuthorization(DEPLOYMENT_ID, 'delete', wallet.address, expired)).toEqual(['The signature has expired, sign again']);
+    expect(checkDeploymentAuthorization(DEPLOYMENT_ID, 'delete', wallet.address, { issuedAt: new Date().toISOString(), signature: '0x1234' }))
+      .toEqual(['The signature is not valid']);
+  });
+});
@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+
+// Changes to a deployment that only the wallet it belongs to may make
+export type DeploymentAction = 'update' | 'delete';
+
+// A signed message naming the deployment, the action and when it was signed
+export interface DeploymentAuthorization {
+  signature: string;
+  issuedAt: string;
+}
+
+// Long enough to finish or resume a deployment without signing again
+export const AUTHORIZATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export function deploymentAuthorizationMessage(id: string, action: DeploymentAction, issuedAt: string): string {
+  return `Authorize ${action === 'delete' ? 'deleting' : 'updating'} deployment ${id}\nIssued at: ${issuedAt}`;
+}
+
+export async function signDeploymentAuthorization(
+  signer: ethers.Signer,
+  id: string,
+  action: DeploymentAction
+): Promise<DeploymentAuthorization> {
+  const issuedAt = new Date().toISOString();
+  return { signature: await signer.signMessage(deploymentAuthorizationMessage(id, action, issuedAt)), issuedAt };
+}
+
+// Whether an authorization can still be sent, a few minutes are left for the request to arrive
+export function isAuthorizationFresh(authorization: DeploymentAuthorization | null | undefined, now = Date.now()): boolean {
+  const issuedAt = Date.parse(authorization?.issuedAt ?? '');
+  return Number.isFinite(issuedAt) && now - issuedAt < AUTHORIZATION_MAX_AGE_MS - 5 * 60 * 1000;
+}
+
+// Problems with an authorization for the given owner, empty when the owner signed it within the last day
+export function checkDeploymentAuthorization(
+  id: string,
+  action: DeploymentAction,
+  owner: string,
+  authorization: Partial<DeploymentAuthorization> | null | undefined,
+  now = Date.now()
+): string[] {
+  if (!authorization || typeof authorization.signature !== 'string' || typeof authorization.issuedAt !== 'string') {
+    return [`A signature from the deployment owner ${owner} is required`];
+  }
+  const issuedAt = Date.parse(authorization.issuedAt);
+  if (!Number.isFinite(issuedAt) || issuedAt > now + 60 * 1000 || now - issuedAt > AUTHORIZATION_MAX_AGE_MS) {
+    return ['The signature has expired, sign again'];
+  }
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(deploymentAuthorizationMessage(id, action, authorization.issuedAt), authorization.signature);
+  } catch {
+    return ['The signature is not valid'];
+  }
+  if (signer.toLowerCase() !== owner.toLowerCase()) {
+    return [`The signature is from ${signer}, not from the deployment owner ${owner}`];
+  }
+  return [];
+}
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import type { Create2Settings, VanitySalt } from '@/types';
+
+// Deterministic deployment proxy (github.com/Arachnid/deterministic-deployment-proxy), deployed at the
+// same address on every chain in NETWORK_CONFIG. Its calldata is a 32 byte salt followed by the creation code.
+export const CREATE2_FACTORY_ADDRESS = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+// Every extra hex character makes a match 16 times rarer, five take about a million attempts
+export const MAX_VANITY_LENGTH = 5;
+
+// The search gives up after this long and the client can try again or shorten the pattern
+export const VANITY_TIME_LIMIT_MS = 60000;
+
+// Attempts between yielding to the event loop so a long search does not block other requests
+const VANITY_BATCH_SIZE = 5000;
+
+const HEX_PATTERN = /^[0-9a-f]*$/;
+
+// Vanity patterns are matched against the lowercase address, checksum casing cannot be searched for
+export function normalizeVanityPattern(input?: string | null): string {
+  return String(input ?? '').trim().toLowerCase().replace(/^0x/, '');
+}
+
+// Read the CREATE2 option from a request body, null means a regular deployment
+export function normalizeCreate2Settings(input?: Partial<Create2Settings> | null): Create2Settings | null {
+  if (!input) {
+    return null;
+  }
+  return { prefix: normalizeVanityPattern(input.prefix), suffix: normalizeVanityPattern(input.suffix) };
+}
+
+export function validateVanityPattern(prefix: string, suffix: string): string[] {
+  const problems: string[] = [];
+  if (!HEX_PATTERN.test(prefix) || !HEX_PATTERN.test(suffix)) {
+    problems.push('Address prefix and suffix may only contain hex characters (0-9, a-f)');
+  }
+  if (prefix.length + suffix.length > MAX_VANITY_LENGTH) {
+    problems.push(`Prefix and suffix can have at most ${MAX_VANITY_LENGTH} characters together`);
+  }
+  return problems;
+}
+
+export function computeCreate2Address(salt: string, initCodeHash: string): string {
+  return ethers.getCreate2Address(CREATE2_FACTORY_ADDRESS, salt, initCodeHash);
+}
+
+// Calldata for the factory, the creation code includes the encoded constructor arguments
+export function encodeCreate2Deployment(salt: string, initCode: string): string {
+  return ethers.concat([salt, initCode]);
+}
+
+// Try salts until the CREATE2 address of the creation code matches the pattern, null when the time runs out
+export async function mineVanitySalt(
+  initCodeHash: string,
+  prefix: string,
+  suffix: string,
+  timeLimitMs = VANITY_TIME_LIMIT_MS
+): Promise<VanitySalt | null> {
+  // 0xff ++ factory ++ salt ++ keccak256(initCode), hashed for every attempt
+  const input = new Uint8Array(85);
+  input[0] = 0xff;
+  input.set(ethers.getBytes(CREATE2_FACTORY_ADDRESS), 1);
+  input.set(ethers.getBytes(ethers.randomBytes(28)), 21);
+  input.set(ethers.getBytes(initCodeHash), 53);
+  const counter = new DataView(input.buffer, 49, 4);
+
+  const deadline = Date.now() + timeLimitMs;
+  let attempts = 0;
+  while (Date.now() < deadline) {
+    for (let i = 0; i < VANITY_BATCH_SIZE; i++) {
+      counter.setUint32(0, attempts);
+      attempts++;
+      const address = ethers.keccak256(input).slice(26);
+      if (address.startsWith(prefix) && address.endsWith(suffix)) {
+        return {
+          salt: ethers.hexlify(input.slice(21, 53)),
+          address: ethers.getAddress(`0x${address}`),
+          attempts,
+        };
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return null;
+}
@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { NETWORK_CONFIG } from '@/constants/networks';
+import { ERC1967_ADMIN_SLOT, ERC1967_IMPLEMENTATION_SLOT } from '@/constants/contracts';
+import { computeCreate2Address, CREATE2_FACTORY_ADDRESS } from './create2';
+
+// Thrown when a transaction does not show what a deployment record claims
+export class ChainCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChainCheckError';
+  }
+}
+
+// Contract creation as the chain reports it
+export interface ContractCreation {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  from: string;
+  create2Salt: string | null;
+}
+
+const UPGRADED_TOPIC = ethers.id('Upgraded(address)');
+
+const OWNABLE_ABI = ['function owner() view returns (address)'];
+const DIVIDEND_TOKEN_ABI = ['function dividendTracker() view returns (address)'];
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// RPC the server reads a chain from, RPC_URL_<chainId> adds chains outside NETWORK_CONFIG such as devnets
+export function getChainProvider(chainId: number): ethers.JsonRpcProvider | null {
+  const rpcUrl = process.env[`RPC_URL_${chainId}`] || NETWORK_CONFIG[chainId as keyof typeof NETWORK_CONFIG]?.rpcUrl;
+  return rpcUrl ? new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: ethers.Network.from(chainId) }) : null;
+}
+
+// Check that a mined transaction created the contract at address, directly or through the CREATE2 factory
+export async function checkContractCreation(provider: ethers.Provider, txHash: string, address: string): Promise<ContractCreation> {
+  const [transaction, receipt] = await Promise.all([provider.getTransaction(txHash), provider.getTransactionReceipt(txHash)]);
+  if (!transaction || !receipt) {
+    throw new ChainCheckError(`Transaction ${txHash} is not mined on this chain`);
+  }
+  if (receipt.status !== 1) {
+    throw new ChainCheckError(`Transaction ${txHash} failed`);
+  }
+
+  let create2Salt: string | null = null;
+  if (receipt.contractAddress) {
+    if (!sameAddress(receipt.contractAddress, address)) {
+      throw new ChainCheckError(`Transaction ${txHash} created ${receipt.contractAddress}, not ${address}`);
+    }
+  } else if (sameAddress(transaction.to, CREATE2_FACTORY_ADDRESS) && ethers.dataLength(transaction.data) > 32) {
+    // The factory's calldata is the salt followed by the creation code
+    create2Salt = ethers.dataSlice(transaction.data, 0, 32);
+    const created = computeCreate2Address(create2Salt, ethers.keccak256(ethers.dataSlice(transaction.data, 32)));
+    if (!sameAddress(created, address)) {
+      throw new ChainCheckError(`Transaction ${txHash} created ${created}, not ${address}`);
+    }
+  } else {
+    throw new ChainCheckError(`Transaction ${txHash} did not create a contract`);
+  }
+  if (await provider.getCode(address) === '0x') {
+    throw new ChainCheckError(`No contract is deployed at ${address}`);
+  }
+
+  return { address: ethers.getAddress(address), txHash, blockNumber: receipt.blockNumber, from: ethers.getAddress(transaction.from), create2Salt };
+}
+
+// Check that a mined transaction upgraded the proxy to implementation and the proxy still points there
+export async function checkProxyUpgrade(provider: ethers.Provider, proxy: string, implementation: string, txHash: string) {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt || receipt.status !== 1) {
+    throw new ChainCheckError(`Transaction ${txHash} is not a successful transaction on this chain`);
+  }
+  const upgraded = receipt.logs.some(log =>
+    sameAddress(log.address, proxy) &&
+    log.topics[0] === UPGRADED_TOPIC &&
+    sameAddress(ethers.dataSlice(log.topics[1], 12), implementation)
+  );
+  if (!upgraded) {
+    throw new ChainCheckError(`Transaction ${txHash} did not upgrade ${proxy} to ${implementation}`);
+  }
+  const current = await readProxySlot(provider, proxy, ERC1967_IMPLEMENTATION_SLOT);
+  if (!sameAddress(current, implementation)) {
+    throw new ChainCheckError(`${proxy} points at ${current}, not ${implementation}`);
+  }
+}
+
+// Address kept in an EIP-1967 slot of a proxy
+export async function readProxySlot(provider: ethers.Provider, proxy: string, slot: string): Promise<string> {
+  // Some nodes return an unset slot as 0x instead of 32 zero bytes
+  const value = ethers.zeroPadValue(await provider.getStorage(proxy, slot), 32);
+  return ethers.getAddress(ethers.dataSlice(value, 12));
+}
+
+// Owner the contract reports, null for contracts without owner() or with ownership renounced
+export async function readContractOwner(provider: ethers.Provider, address: string): Promise<string | null> {
+  try {
+    const owner = ethers.getAddress(await new ethers.Contract(address, OWNABLE_ABI, provider).owner());
+    return owner === ethers.ZeroAddress ? null : owner;
+  } catch {
+    return null;
+  }
+}
+
+// Problems with the contracts recorded next to a token, checked against what the token and its proxy point at
+export async function checkLinkedContracts(
+  provider: ethers.Provider,
+  address: string,
+  linked: { implementation?: string | null; proxyAdmin?: string | null; dividendTracker?: string | null }
+): Promise<string[]> {
+  const problems: string[] = [];
+  if (linked.implementation && !sameAddress(await readProxySlot(provider, address, ERC1967_IMPLEMENTATION_SLOT), linked.implementation)) {
+    problems.push(`${address} is not a proxy for ${linked.implementation}`);
+  }
+  if (linked.proxyAdmin && !sameAddress(await readProxySlot(provider, address, ERC1967_ADMIN_SLOT), linked.proxyAdmin)) {
+    problems.push(`${linked.proxyAdmin} is not the admin of ${address}`);
+  }
+  if (linked.dividendTracker) {
+    const tracker = await new ethers.Contract(address, DIVIDEND_TOKEN_ABI, provider).dividendTracker().catch(() => null);
+    if (!sameAddress(tracker, linked.dividendTracker)) {
+      problems.push(`${linked.dividendTracker} is not the dividend tracker of ${address}`);
+    }
+  }
+  return problems;
+}
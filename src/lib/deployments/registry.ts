@@ -0,0 +1,435 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { ethers } from 'ethers';
+import type { SolcInput } from '@/lib/solidity/compiler';
+import type { StorageLayout } from '@/lib/solidity/storage-layout';
+import { CREATE2_FACTORY_ADDRESS } from '@/lib/deployments/create2';
+import { isFinalStage } from '@/lib/deployments/state';
+import {
+  AbiItem,
+  CompilerProfile,
+  ContractDetails,
+  DeploymentManifest,
+  DeploymentState,
+  ProxyKind,
+  ProxyUpgrade,
+  VerificationStatus,
+} from '@/types';
+
+const MANIFEST_FILE = 'manifest.json';
+const SOURCIFY_METADATA_FILE = 'metadata.json';
+const SOURCIFY_SOURCES_DIR = 'sources';
+
+// Thrown when a state update would bring back a deployment that already finished or was cancelled
+export class DeploymentStateConflictError extends Error {
+  stage: DeploymentState['stage'];
+
+  constructor(stage: DeploymentState['stage']) {
+    super(`Deployment is already ${stage}`);
+    this.name = 'DeploymentStateConflictError';
+    this.stage = stage;
+  }
+}
+
+export interface NewDeploymentArtifact {
+  contractName: string;
+  contractDetails: ContractDetails;
+  chainId: number | null;
+  source: string;
+  abi: AbiItem[];
+  bytecode: string;
+  metadata: Record<string, unknown> | null;
+  compilerProfile: CompilerProfile;
+  standardJsonInput: SolcInput;
+  // Flattened single-file source, only present when it reproduces the compiled bytecode
+  verificationSource?: string;
+  // Name of the dividend tracker compiled from the same source, dividend tokens only
+  dividendTrackerName?: string;
+  // Upgradeable tokens: the proxy compiled from the same source and the token's storage layout
+  proxy?: {
+    kind: ProxyKind;
+    contractName: string;
+    adminContractName: string | null;
+  };
+  storageLayout?: StorageLayout | null;
+}
+
+// Fields recorded once the contract has been deployed on chain
+export interface DeploymentRecord {
+  chainId: number;
+  address: string;
+  txHash: string;
+  blockNumber?: number | null;
+  owner?: string | null;
+  constructorArguments?: string | null;
+  dividendTracker?: string | null;
+  // Upgradeable tokens, address is the proxy and constructorArguments belong to the implementation
+  implementation?: string | null;
+  proxyAdmin?: string | null;
+  proxyConstructorArguments?: string | null;
+  // Salt the contract was deployed with through the CREATE2 factory
+  create2Salt?: string | null;
+}
+
+export interface DeploymentFilter {
+  chainId?: number;
+  owner?: string;
+  address?: string;
+  verificationStatus?: VerificationStatus;
+}
+
+// Directory holding one subdirectory per deployment
+export function getRegistryDir(): string {
+  return process.env.DEPLOYMENT_REGISTRY_DIR || path.join(process.cwd(), 'deployed-contracts');
+}
+
+// Ids are used as directory names, so anything that could escape the registry is rejected
+export function isDeploymentId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+export function getDeploymentDir(id: string): string {
+  if (!isDeploymentId(id)) {
+    throw new Error(`Invalid deployment id: ${id}`);
+  }
+  return path.join(getRegistryDir(), id);
+}
+
+// Write the manifest through a temp file so readers never see a partial file
+async function writeManifest(manifest: DeploymentManifest): Promise<void> {
+  const manifestPath = path.join(getDeploymentDir(manifest.id), MANIFEST_FILE);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  await fs.writeJson(tempPath, manifest, { spaces: 2 });
+  await fs.move(tempPath, manifestPath, { overwrite: true });
+}
+
+// Lay out metadata.json and every source it references the way Sourcify expects them.
+// The metadata is written compact, the same bytes solc hashed into the bytecode.
+async function writeSourcifyBundle(bundleDir: string, metadata: Record<string, unknown>, standardJsonInput: SolcInput) {
+  await fs.ensureDir(path.join(bundleDir, SOURCIFY_SOURCES_DIR));
+  await fs.writeFile(path.join(bundleDir, SOURCIFY_METADATA_FILE), JSON.stringify(metadata));
+  for (const [sourceUnitName, { content }] of Object.entries(standardJsonInput.sources)) {
+    const sourcePath = path.join(bundleDir, SOURCIFY_SOURCES_DIR, sourceUnitName);
+    if (!sourcePath.startsWith(path.join(bundleDir, SOURCIFY_SOURCES_DIR) + path.sep)) {
+      throw new Error(`Source unit ${sourceUnitName} would be written outside the Sourcify bundle`);
+    }
+    await fs.outputFile(sourcePath, content);
+  }
+}
+
+function newDeploymentId(contractName: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${contractName}_${timestamp}_${crypto.randomBytes(3).toString('hex')}`;
+}
+
+// Save the compiled artifacts of a contract and create its manifest
+export async function createDeploymentArtifact(artifact: NewDeploymentArtifact): Promise<DeploymentManifest> {
+  const id = newDeploymentId(artifact.contractName);
+  const deploymentDir = getDeploymentDir(id);
+  await fs.ensureDir(deploymentDir);
+
+  const now = new Date().toISOString();
+  const manifest: DeploymentManifest = {
+    id,
+    contractName: artifact.contractName,
+    createdAt: now,
+    updatedAt: now,
+    sourceHash: ethers.keccak256(ethers.toUtf8Bytes(artifact.source)),
+    compilerProfile: artifact.compilerProfile,
+    contractDetails: artifact.contractDetails,
+    chainId: artifact.chainId,
+    address: null,
+    txHash: null,
+    blockNumber: null,
+    owner: null,
+    constructorArguments: null,
+    dividendTracker: artifact.dividendTrackerName ? { contractName: artifact.dividendTrackerName, address: null } : null,
+    proxy: artifact.proxy
+      ? {
+          kind: artifact.proxy.kind,
+          contractName: artifact.proxy.contractName,
+          adminContractName: artifact.proxy.adminContractName,
+          implementation: null,
+          admin: null,
+          constructorArguments: null,
+          upgrades: [],
+        }
+      : null,
+    create2: null,
+    state: null,
+    verificationStatus: 'unverified',
+    files: {
+      source: `${artifact.contractName}.sol`,
+      abi: 'abi.json',
+      bytecode: 'bytecode.txt',
+      metadata: 'metadata.json',
+      standardJsonInput: 'standard-input.json',
+      verification: artifact.verificationSource !== undefined ? 'verification.sol' : null,
+      sourcifyBundle: artifact.compilerProfile.appendMetadata && artifact.metadata ? 'sourcify' : null,
+      storageLayout: artifact.storageLayout ? 'storage-layout.json' : null,
+    },
+  };
+
+  await fs.writeFile(path.join(deploymentDir, manifest.files.source), artifact.source);
+  await fs.writeJson(path.join(deploymentDir, manifest.files.abi), artifact.abi, { spaces: 2 });
+  await fs.writeFile(path.join(deploymentDir, manifest.files.bytecode), artifact.bytecode);
+  await fs.writeJson(path.join(deploymentDir, manifest.files.metadata), artifact.metadata, { spaces: 2 });
+  await fs.writeJson(path.join(deploymentDir, manifest.files.standardJsonInput), artifact.standardJsonInput);
+  if (manifest.files.verification && artifact.verificationSource !== undefined) {
+    await fs.writeFile(path.join(deploymentDir, manifest.files.verification), artifact.verificationSource);
+  }
+  if (manifest.files.storageLayout && artifact.storageLayout) {
+    await fs.writeJson(path.join(deploymentDir, manifest.files.storageLayout), artifact.storageLayout, { spaces: 2 });
+  }
+  if (manifest.files.sourcifyBundle && artifact.metadata) {
+    await writeSourcifyBundle(path.join(deploymentDir, manifest.files.sourcifyBundle), artifact.metadata, artifact.standardJsonInput);
+  }
+  await writeManifest(manifest);
+
+  console.log(`Deployment artifact ${id} saved to ${deploymentDir}`);
+  return manifest;
+}
+
+// Register the artifacts of a deployment again for another chain. Multi-chain launches deploy the same
+// bytecode everywhere and keep one manifest per chain, each with its own address and verification status.
+export async function copyDeploymentArtifact(id: string, chainId: number): Promise<DeploymentManifest | null> {
+  const original = await getDeployment(id);
+  if (!original) {
+    return null;
+  }
+  const copyId = newDeploymentId(original.contractName);
+  await fs.copy(getDeploymentDir(id), getDeploymentDir(copyId));
+
+  const now = new Date().toISOString();
+  const manifest: DeploymentManifest = {
+    ...original,
+    id: copyId,
+    createdAt: now,
+    updatedAt: now,
+    chainId,
+    address: null,
+    txHash: null,
+    blockNumber: null,
+    owner: null,
+    constructorArguments: null,
+    dividendTracker: original.dividendTracker ? { ...original.dividendTracker, address: null } : original.dividendTracker,
+    proxy: original.proxy
+      ? { ...original.proxy, implementation: null, admin: null, constructorArguments: null, upgrades: [] }
+      : original.proxy,
+    create2: null,
+    state: null,
+    verificationStatus: 'unverified',
+  };
+  await writeManifest(manifest);
+
+  console.log(`Deployment artifact ${id} copied to ${copyId} for chain ${chainId}`);
+  return manifest;
+}
+
+export async function getDeployment(id: string): Promise<DeploymentManifest | null> {
+  if (!isDeploymentId(id)) {
+    return null;
+  }
+  const manifestPath = path.join(getDeploymentDir(id), MANIFEST_FILE);
+  if (!(await fs.pathExists(manifestPath))) {
+    return null;
+  }
+  return fs.readJson(manifestPath);
+}
+
+export async function getDeploymentAbi(id: string): Promise<AbiItem[] | null> {
+  const manifest = await getDeployment(id);
+  if (!manifest) {
+    return null;
+  }
+  return fs.readJson(path.join(getDeploymentDir(id), manifest.files.abi));
+}
+
+// Read the exact standard JSON input a deployment was compiled from
+export async function getStandardJsonInput(id: string): Promise<SolcInput | null> {
+  const manifest = await getDeployment(id);
+  if (!manifest) {
+    return null;
+  }
+  return fs.readJson(path.join(getDeploymentDir(id), manifest.files.standardJsonInput));
+}
+
+// Read the storage layout an upgradeable implementation was compiled with
+export async function getStorageLayout(id: string): Promise<StorageLayout | null> {
+  const manifest = await getDeployment(id);
+  if (!manifest?.files.storageLayout) {
+    return null;
+  }
+  return fs.readJson(path.join(getDeploymentDir(id), manifest.files.storageLayout));
+}
+
+// Read a deployment's Sourcify bundle as file name -> content, sources keyed by source unit name
+export async function getSourcifyBundle(id: string): Promise<Record<string, string> | null> {
+  const manifest = await getDeployment(id);
+  if (!manifest?.files.sourcifyBundle) {
+    return null;
+  }
+  const bundleDir = path.join(getDeploymentDir(id), manifest.files.sourcifyBundle);
+  const metadata = await fs.readFile(path.join(bundleDir, SOURCIFY_METADATA_FILE), 'utf8');
+  const files: Record<string, string> = { [SOURCIFY_METADATA_FILE]: metadata };
+  for (const sourceUnitName of Object.keys(JSON.parse(metadata).sources)) {
+    files[sourceUnitName] = await fs.readFile(path.join(bundleDir, SOURCIFY_SOURCES_DIR, sourceUnitName), 'utf8');
+  }
+  return files;
+}
+
+// List manifests newest first; directories without a manifest (older loose artifacts) are skipped
+export async function listDeployments(filter: DeploymentFilter = {}): Promise<DeploymentManifest[]> {
+  const registryDir = getRegistryDir();
+  if (!(await fs.pathExists(registryDir))) {
+    return [];
+  }
+
+  const entries = await fs.readdir(registryDir, { withFileTypes: true });
+  const manifests: DeploymentManifest[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    try {
+      const manifest = await getDeployment(entry.name);
+      if (manifest) {
+        manifests.push(manifest);
+      }
+    } catch (error) {
+      console.error(`Error reading deployment manifest ${entry.name}:`, error);
+    }
+  }
+
+  const sameAddress = (a: string | null, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+  return manifests
+    .filter(manifest =>
+      (filter.chainId === undefined || manifest.chainId === filter.chainId) &&
+      (!filter.owner || sameAddress(manifest.owner, filter.owner)) &&
+      (!filter.address || sameAddress(manifest.address, filter.address)) &&
+      (!filter.verificationStatus || manifest.verificationStatus === filter.verificationStatus)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Last pending update of each deployment, updates of one manifest run one after another
+const manifestUpdates = new Map<string, Promise<unknown>>();
+
+async function withManifestLock<T>(id: string, update: () => Promise<T>): Promise<T> {
+  const previous = manifestUpdates.get(id) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(update);
+  const settled = current.catch(() => undefined);
+  manifestUpdates.set(id, settled);
+  try {
+    return await current;
+  } finally {
+    if (manifestUpdates.get(id) === settled) {
+      manifestUpdates.delete(id);
+    }
+  }
+}
+
+// Read, change and write a manifest while holding its lock, so concurrent requests don't drop each other's changes.
+// The changes are computed from the manifest read inside the lock, returning null leaves the manifest as it is
+async function updateDeployment(
+  id: string,
+  changes: (manifest: DeploymentManifest) => Partial<DeploymentManifest> | null
+): Promise<DeploymentManifest | null> {
+  return withManifestLock(id, async () => {
+    const manifest = await getDeployment(id);
+    if (!manifest) {
+      return null;
+    }
+    const manifestChanges = changes(manifest);
+    if (!manifestChanges) {
+      return null;
+    }
+    const updated: DeploymentManifest = {
+      ...manifest,
+      ...manifestChanges,
+      id: manifest.id,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeManifest(updated);
+    return updated;
+  });
+}
+
+// Link a compiled artifact to the contract it produced on chain
+export async function recordDeployment(id: string, record: DeploymentRecord): Promise<DeploymentManifest | null> {
+  return updateDeployment(id, manifest => {
+    // The tracker address is only kept for manifests that were compiled with a tracker
+    const dividendTracker = manifest.dividendTracker && record.dividendTracker !== undefined
+      ? { ...manifest.dividendTracker, address: record.dividendTracker ? ethers.getAddress(record.dividendTracker) : null }
+      : manifest.dividendTracker;
+    const proxy = manifest.proxy
+      ? {
+          ...manifest.proxy,
+          implementation: record.implementation ? ethers.getAddress(record.implementation) : manifest.proxy.implementation,
+          admin: record.proxyAdmin ? ethers.getAddress(record.proxyAdmin) : manifest.proxy.admin,
+          constructorArguments: record.proxyConstructorArguments ?? manifest.proxy.constructorArguments,
+        }
+      : manifest.proxy;
+    return {
+      chainId: record.chainId,
+      address: ethers.getAddress(record.address),
+      txHash: record.txHash,
+      blockNumber: record.blockNumber ?? null,
+      owner: record.owner ? ethers.getAddress(record.owner) : null,
+      constructorArguments: record.constructorArguments ?? null,
+      dividendTracker,
+      proxy,
+      create2: record.create2Salt ? { factory: CREATE2_FACTORY_ADDRESS, salt: record.create2Salt } : null,
+    };
+  });
+}
+
+// Point an upgradeable deployment at the implementation it was upgraded to
+export async function recordUpgrade(id: string, upgrade: Omit<ProxyUpgrade, 'upgradedAt'>): Promise<DeploymentManifest | null> {
+  const implementation = ethers.getAddress(upgrade.implementation);
+  return updateDeployment(id, manifest => manifest.proxy
+    ? {
+        proxy: {
+          ...manifest.proxy,
+          implementation,
+          upgrades: [
+            ...manifest.proxy.upgrades,
+            { deploymentId: upgrade.deploymentId, implementation, txHash: upgrade.txHash, upgradedAt: new Date().toISOString() },
+          ],
+        },
+      }
+    : null
+  );
+}
+
+// Save the progress the client reports for a deployment, the registry keeps the last state it was sent.
+// A finished or cancelled deployment is not brought back by a tab that still has it open
+export async function saveDeploymentState(id: string, state: DeploymentState): Promise<DeploymentManifest | null> {
+  return updateDeployment(id, manifest => {
+    if (manifest.state && isFinalStage(manifest.state.stage) && manifest.state.stage !== state.stage) {
+      throw new DeploymentStateConflictError(manifest.state.stage);
+    }
+    return {
+      state: {
+        ...state,
+        deploymentId: id,
+        from: state.from ? ethers.getAddress(state.from) : null,
+        address: state.address ? ethers.getAddress(state.address) : null,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+  });
+}
+
+export async function setVerificationStatus(id: string, status: VerificationStatus): Promise<DeploymentManifest | null> {
+  return updateDeployment(id, () => ({ verificationStatus: status }));
+}
+
+// Remove a deployment and all of its artifacts, returns false when it does not exist
+export async function deleteDeployment(id: string): Promise<boolean> {
+  if (!(await getDeployment(id))) {
+    return false;
+  }
+  await fs.remove(getDeploymentDir(id));
+  console.log(`Deployment artifact ${id} deleted`);
+  return true;
+}
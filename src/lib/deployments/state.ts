@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import type { DeploymentCompanion, DeploymentStage, DeploymentState } from '@/types';
+
+export const DEPLOYMENT_STAGES: DeploymentStage[] = [
+  'generated',
+  'compiled',
+  'signed',
+  'broadcast',
+  'mined',
+  'verified',
+  'metadata_submitted',
+  'failed',
+  'cancelled',
+];
+
+export const DEPLOYMENT_COMPANIONS: DeploymentCompanion[] = ['proxyAdmin', 'proxy', 'routerLink', 'dividendTracker', 'dividendTrackerLink'];
+
+const COMPANION_STAGES: DeploymentStage[] = ['signed', 'broadcast', 'mined'];
+
+// Stages shown as steps, in the order a deployment goes through them
+export const DEPLOYMENT_STEPS: DeploymentStage[] = DEPLOYMENT_STAGES.slice(0, 7);
+
+// A deployment in one of these stages has nothing left to resume
+export function isFinalStage(stage: DeploymentStage): boolean {
+  return stage === 'metadata_submitted' || stage === 'failed' || stage === 'cancelled';
+}
+
+// Once the creation transaction may be on chain a deployment is not repeated, only followed up on
+export function isOnChainStage(stage: DeploymentStage): boolean {
+  return stage === 'broadcast' || stage === 'mined' || stage === 'verified';
+}
+
+export function newDeploymentState(chainId: number): DeploymentState {
+  return {
+    stage: 'generated',
+    deploymentId: null,
+    chainId,
+    from: null,
+    nonce: null,
+    address: null,
+    txHash: null,
+    create2Salt: null,
+    companions: {},
+    result: null,
+    error: null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function validateDeploymentState(state: Partial<DeploymentState> | null | undefined): string[] {
+  if (!state || typeof state !== 'object') {
+    return ['state must be an object'];
+  }
+  const problems: string[] = [];
+  if (!state.stage || !DEPLOYMENT_STAGES.includes(state.stage)) {
+    problems.push(`stage must be one of ${DEPLOYMENT_STAGES.join(', ')}`);
+  }
+  if (!Number.isInteger(state.chainId) || Number(state.chainId) <= 0) {
+    problems.push('chainId must be a positive integer');
+  }
+  for (const [field, value] of [['from', state.from], ['address', state.address]] as const) {
+    if (value !== undefined && value !== null && !ethers.isAddress(value)) {
+      problems.push(`${field} must be a valid address`);
+    }
+  }
+  if (state.nonce !== undefined && state.nonce !== null && (!Number.isInteger(state.nonce) || state.nonce < 0)) {
+    problems.push('nonce must be a non-negative integer');
+  }
+  if (state.txHash !== undefined && state.txHash !== null && !ethers.isHexString(state.txHash, 32)) {
+    problems.push('txHash must be a transaction hash');
+  }
+  if (state.create2Salt !== undefined && state.create2Salt !== null && !ethers.isHexString(state.create2Salt, 32)) {
+    problems.push('create2Salt must be a 32 byte hex string');
+  }
+  if (state.stage && isOnChainStage(state.stage) && !state.txHash) {
+    problems.push(`txHash is required once the deployment is ${state.stage}`);
+  }
+  if (state.companions !== undefined) {
+    if (!state.companions || typeof state.companions !== 'object') {
+      problems.push('companions must be an object');
+    } else {
+      for (const [companion, progress] of Object.entries(state.companions)) {
+        if (!DEPLOYMENT_COMPANIONS.includes(companion as DeploymentCompanion)) {
+          problems.push(`companions must be keyed by ${DEPLOYMENT_COMPANIONS.join(', ')}`);
+        } else if (!progress || !COMPANION_STAGES.includes(progress.stage)) {
+          problems.push(`companions.${companion}.stage must be one of ${COMPANION_STAGES.join(', ')}`);
+        } else if (!Number.isInteger(progress.nonce) || progress.nonce < 0) {
+          problems.push(`companions.${companion}.nonce must be a non-negative integer`);
+        } else if (progress.stage === 'signed' ? progress.txHash !== null : !ethers.isHexString(progress.txHash, 32)) {
+          problems.push(`companions.${companion}.txHash must be a transaction hash once it is ${progress.stage}`);
+        } else if (progress.address !== null && !ethers.isAddress(progress.address)) {
+          problems.push(`companions.${companion}.address must be a valid address`);
+        }
+      }
+    }
+  }
+  return problems;
+}
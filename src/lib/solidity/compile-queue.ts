@@ -0,0 +1,61 @@
+// solc is CPU and memory heavy, so compiles are admitted a few at a time and the rest wait in line.
+// solc-js compiles synchronously on the event loop, so admitted jobs still compile one after another: the
+// concurrency limit only bounds how many jobs are between loading a compiler and finishing, and with it the
+// inputs and outputs held in memory. What the queue really limits is how many requests wait, extra ones get
+// a 503 instead of piling up behind a busy compiler.
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_MAX_QUEUED = 50;
+
+// Thrown when the queue is full, routes report it as 503 so clients can retry later
+export class CompileQueueFullError extends Error {
+  constructor(queued: number) {
+    super(`Compiler is busy, ${queued} compile(s) already waiting`);
+    this.name = 'CompileQueueFullError';
+  }
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+const maxConcurrent = readLimit(process.env.MAX_CONCURRENT_COMPILES, DEFAULT_MAX_CONCURRENT);
+const maxQueued = readLimit(process.env.MAX_QUEUED_COMPILES, DEFAULT_MAX_QUEUED);
+
+let running = 0;
+const waiting: Array<() => void> = [];
+
+export function getCompileQueueStats() {
+  return { running, queued: waiting.length, maxConcurrent, maxQueued };
+}
+
+async function acquireSlot(): Promise<void> {
+  if (running < maxConcurrent) {
+    running++;
+    return;
+  }
+  if (waiting.length >= maxQueued) {
+    throw new CompileQueueFullError(waiting.length);
+  }
+  // The slot is handed over by releaseSlot, so running is not incremented here
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+}
+
+// Run a compile job once a slot is free, in the order jobs were submitted
+export async function runCompileJob<T>(job: () => Promise<T> | T): Promise<T> {
+  await acquireSlot();
+  try {
+    return await job();
+  } finally {
+    releaseSlot();
+  }
+}
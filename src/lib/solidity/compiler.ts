@@ -0,0 +1,259 @@
+import { AbiItem, CompilerDiagnostic, CompilerProfile } from '@/types';
+import { DEFAULT_COMPILER_PROFILE } from './profiles';
+import { loadCompiler } from './solc-loader';
+import { runCompileJob } from './compile-queue';
+import { resolveVendoredImport } from './openzeppelin';
+import type { StorageLayout } from './storage-layout';
+
+// Gas charged per byte of runtime code stored on chain
+const CODE_DEPOSIT_GAS_PER_BYTE = 200;
+// Base transaction cost plus the contract creation surcharge
+const CREATE_TX_BASE_GAS = 21000 + 32000;
+
+export interface CompileRequest {
+  source: string;
+  contractName: string;
+  // Source unit name, also used as the key in the compiler output
+  fileName?: string;
+  profile?: CompilerProfile;
+}
+
+export interface CompileResult {
+  success: boolean;
+  profile: CompilerProfile;
+  // Source unit the contract was compiled from, explorers address it as <fileName>:<contractName>
+  fileName: string;
+  abi: AbiItem[];
+  bytecode: string;
+  deployedBytecode: string;
+  metadata: Record<string, unknown> | null;
+  storageLayout: StorageLayout | null;
+  bytecodeSize: number;
+  deployedBytecodeSize: number;
+  estimatedDeployGas: string | null;
+  // True when solc could not bound the constructor cost and the estimate leaves it out
+  deployGasIsLowerBound: boolean;
+  errors: CompilerDiagnostic[];
+  warnings: CompilerDiagnostic[];
+  input: SolcInput;
+  // The compile input with every imported source inlined, what explorers need to reproduce the build
+  standardJsonInput: SolcInput | null;
+  output: SolcOutput;
+}
+
+export interface SolcInput {
+  language: 'Solidity';
+  sources: Record<string, { content: string }>;
+  settings: Record<string, unknown>;
+}
+
+interface SolcError {
+  severity: 'error' | 'warning' | 'info';
+  type: string;
+  errorCode?: string;
+  message: string;
+  formattedMessage?: string;
+  sourceLocation?: { file: string; start: number; end: number };
+}
+
+interface SolcContractOutput {
+  abi: AbiItem[];
+  metadata: string;
+  evm: {
+    bytecode: { object: string };
+    deployedBytecode: { object: string };
+    gasEstimates?: { creation?: { executionCost?: string } };
+  };
+  storageLayout?: StorageLayout;
+}
+
+export interface SolcOutput {
+  errors?: SolcError[];
+  sources?: Record<string, { id: number }>;
+  contracts?: Record<string, Record<string, SolcContractOutput>>;
+}
+
+// ABI and creation bytecode of another contract from the same compile, e.g. a companion deployed with the token
+export function getContractArtifact(output: SolcOutput, fileName: string, contractName: string) {
+  const compiledContract = output.contracts?.[fileName]?.[contractName];
+  if (!compiledContract) {
+    return null;
+  }
+  return { abi: compiledContract.abi, bytecode: compiledContract.evm.bytecode.object };
+}
+
+// Resolve imports against the vendored OpenZeppelin sources only
+export function findImports(importPath: string) {
+  return resolveVendoredImport(importPath);
+}
+
+// Inline every source unit solc loaded so the input compiles without an import callback
+export function toStandardJsonInput(input: SolcInput, output: SolcOutput): SolcInput {
+  const sources: SolcInput['sources'] = {};
+  for (const sourceName of Object.keys(output.sources || input.sources)) {
+    if (input.sources[sourceName]) {
+      sources[sourceName] = input.sources[sourceName];
+      continue;
+    }
+    const resolved = findImports(sourceName);
+    if ('error' in resolved) {
+      throw new Error(resolved.error);
+    }
+    sources[sourceName] = { content: resolved.contents };
+  }
+  return { language: input.language, sources, settings: input.settings };
+}
+
+// Translate a byte offset reported by solc into a 1-based line and column
+function toLineColumn(content: string, byteOffset: number): { line: number; column: number } {
+  const prefix = Buffer.from(content, 'utf8').subarray(0, byteOffset).toString('utf8');
+  const lines = prefix.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function toDiagnostic(error: SolcError, sources: SolcInput['sources']): CompilerDiagnostic {
+  const diagnostic: CompilerDiagnostic = {
+    severity: error.severity,
+    type: error.type,
+    errorCode: error.errorCode,
+    message: error.message,
+    formattedMessage: error.formattedMessage || error.message,
+  };
+
+  const location = error.sourceLocation;
+  if (location && location.start >= 0) {
+    diagnostic.file = location.file;
+    const content = sources[location.file]?.content;
+    if (content !== undefined) {
+      const { line, column } = toLineColumn(content, location.start);
+      diagnostic.line = line;
+      diagnostic.column = column;
+    }
+  }
+
+  return diagnostic;
+}
+
+// Intrinsic cost + code deposit + constructor execution when solc can bound it
+function estimateDeployGas(
+  bytecode: string,
+  deployedBytecodeSize: number,
+  executionCost?: string
+): { gas: string; lowerBound: boolean } {
+  const initCode = Buffer.from(bytecode, 'hex');
+  let calldataGas = 0;
+  for (const byte of initCode) {
+    calldataGas += byte === 0 ? 4 : 16;
+  }
+
+  const bounded = BigInt(CREATE_TX_BASE_GAS + calldataGas + deployedBytecodeSize * CODE_DEPOSIT_GAS_PER_BYTE);
+  if (!executionCost || executionCost === 'infinite') {
+    return { gas: bounded.toString(), lowerBound: true };
+  }
+  return { gas: (bounded + BigInt(executionCost)).toString(), lowerBound: false };
+}
+
+// Compile a single contract in memory and collect its artifacts and diagnostics
+export async function compileSolidity({
+  source,
+  contractName,
+  fileName = `${contractName}.sol`,
+  profile = DEFAULT_COMPILER_PROFILE,
+}: CompileRequest): Promise<CompileResult> {
+  const input: SolcInput = {
+    language: 'Solidity',
+    sources: {
+      [fileName]: {
+        content: source
+      }
+    },
+    settings: {
+      outputSelection: {
+        '*': {
+          '*': ['abi', 'evm.bytecode', 'evm.deployedBytecode', 'evm.gasEstimates', 'metadata', 'storageLayout']
+        }
+      },
+      optimizer: {
+        enabled: profile.optimizer.enabled,
+        runs: profile.optimizer.runs
+      },
+      evmVersion: profile.evmVersion,
+      viaIR: profile.viaIR,
+      metadata: {
+        // This makes sure the bytecode matches what's deployed
+        useLiteralContent: true,
+        // Without the metadata hash explorers match on the code alone; full-match builds keep it (IPFS hash)
+        appendCBOR: profile.appendMetadata === true
+      }
+    }
+  };
+
+  const output: SolcOutput = await runCompileJob(async () => {
+    const solc = await loadCompiler(profile.solcVersion);
+    return JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+  });
+
+  const diagnostics = (output.errors || []).map(error => toDiagnostic(error, input.sources));
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+  const warnings = diagnostics.filter(diagnostic => diagnostic.severity !== 'error');
+
+  const compiledContract = output.contracts?.[fileName]?.[contractName];
+  if (errors.length > 0 || !compiledContract) {
+    if (errors.length === 0) {
+      errors.push({
+        severity: 'error',
+        type: 'OutputError',
+        message: `No output found for contract ${contractName}`,
+        formattedMessage: `No output found for contract ${contractName}`,
+      });
+    }
+    return {
+      success: false,
+      profile,
+      fileName,
+      abi: [],
+      bytecode: '',
+      deployedBytecode: '',
+      metadata: null,
+      storageLayout: null,
+      bytecodeSize: 0,
+      deployedBytecodeSize: 0,
+      estimatedDeployGas: null,
+      deployGasIsLowerBound: false,
+      errors,
+      warnings,
+      input,
+      standardJsonInput: null,
+      output,
+    };
+  }
+
+  const bytecode = compiledContract.evm.bytecode.object;
+  const deployedBytecode = compiledContract.evm.deployedBytecode.object;
+  const deployedBytecodeSize = deployedBytecode.length / 2;
+  const deployGas = estimateDeployGas(
+    bytecode,
+    deployedBytecodeSize,
+    compiledContract.evm.gasEstimates?.creation?.executionCost
+  );
+
+  return {
+    success: true,
+    profile,
+    fileName,
+    abi: compiledContract.abi,
+    bytecode,
+    deployedBytecode,
+    metadata: JSON.parse(compiledContract.metadata),
+    storageLayout: compiledContract.storageLayout || null,
+    bytecodeSize: bytecode.length / 2,
+    deployedBytecodeSize,
+    estimatedDeployGas: deployGas.gas,
+    deployGasIsLowerBound: deployGas.lowerBound,
+    errors,
+    warnings,
+    input,
+    standardJsonInput: toStandardJsonInput(input, output),
+    output,
+  };
+}
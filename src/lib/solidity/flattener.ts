@@ -0,0 +1,180 @@
+import path from 'path';
+import { CompilerProfile } from '@/types';
+import { compileSolidity, findImports } from './compiler';
+
+// Thrown when a source cannot be flattened or the flattened file compiles differently
+export class FlattenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlattenError';
+  }
+}
+
+export interface FlattenedSource {
+  source: string;
+  // Source units in the order they appear in the flattened file
+  files: string[];
+}
+
+interface SourceUnit {
+  name: string;
+  content: string;
+  imports: string[];
+}
+
+// Matches every import form: "a.sol"; * as X from "a.sol"; {A, B} from "a.sol"; "a.sol" as X
+const IMPORT_PATTERN = /^\s*import\s+(?:([^;"']*?)\s+from\s+)?["']([^"']+)["'](?:\s+as\s+\w+)?\s*;/gm;
+const SPDX_PATTERN = /^\s*\/\/\s*SPDX-License-Identifier:\s*(.+?)\s*$/gm;
+const PRAGMA_PATTERN = /^\s*pragma\s+([^;]+);/gm;
+
+// Resolve an import against the importing unit, relative paths are relative to its directory
+function resolveImportPath(importPath: string, importer: string): string {
+  if (importPath.startsWith('./') || importPath.startsWith('../')) {
+    return path.posix.normalize(path.posix.join(path.posix.dirname(importer), importPath));
+  }
+  return importPath;
+}
+
+function parseUnit(name: string, content: string): SourceUnit {
+  const imports: string[] = [];
+  for (const match of content.matchAll(IMPORT_PATTERN)) {
+    const [statement, symbols, importPath] = match;
+    // Aliased symbols and namespace imports only exist through the import, they cannot be inlined
+    if (/\bas\b/.test(symbols || '') || /["']\s+as\s+\w+/.test(statement)) {
+      throw new FlattenError(`Cannot flatten aliased import in ${name}: ${statement.trim()}`);
+    }
+    imports.push(resolveImportPath(importPath, name));
+  }
+  return { name, content, imports };
+}
+
+// Load the root source and every unit reachable from it through findImports
+function collectSourceUnits(rootName: string, rootSource: string): Map<string, SourceUnit> {
+  const units = new Map<string, SourceUnit>();
+  const pending = [parseUnit(rootName, rootSource)];
+
+  while (pending.length > 0) {
+    const unit = pending.pop()!;
+    if (units.has(unit.name)) continue;
+    units.set(unit.name, unit);
+
+    for (const importPath of unit.imports) {
+      if (units.has(importPath)) continue;
+      const resolved = findImports(importPath);
+      if ('error' in resolved) {
+        throw new FlattenError(resolved.error);
+      }
+      pending.push(parseUnit(importPath, resolved.contents));
+    }
+  }
+
+  return units;
+}
+
+// Order units so every file comes after the files it imports; import cycles keep first-visit order
+function sortUnits(rootName: string, units: Map<string, SourceUnit>): SourceUnit[] {
+  const ordered: SourceUnit[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name)) return;
+    visited.add(name);
+    const unit = units.get(name)!;
+    for (const dependency of unit.imports) {
+      visit(dependency);
+    }
+    ordered.push(unit);
+  };
+
+  visit(rootName);
+  return ordered;
+}
+
+// Flatten a source and its imports into a single file with one SPDX line and one pragma per kind
+export function flattenSource(source: string, fileName = 'Contract.sol'): FlattenedSource {
+  const units = sortUnits(fileName, collectSourceUnits(fileName, source));
+
+  const licenses: string[] = [];
+  const versionConstraints: string[] = [];
+  const otherPragmas: string[] = [];
+  const bodies: string[] = [];
+
+  for (const unit of units) {
+    for (const [, license] of unit.content.matchAll(SPDX_PATTERN)) {
+      if (!licenses.includes(license)) licenses.push(license);
+    }
+    for (const [, pragma] of unit.content.matchAll(PRAGMA_PATTERN)) {
+      const normalized = pragma.trim().replace(/\s+/g, ' ');
+      if (normalized.startsWith('solidity ')) {
+        // All version constraints must hold at once, solc reads space separated ranges as an intersection
+        for (const constraint of normalized.slice('solidity '.length).split(' ')) {
+          if (!versionConstraints.includes(constraint)) versionConstraints.push(constraint);
+        }
+      } else if (!otherPragmas.includes(normalized)) {
+        otherPragmas.push(normalized);
+      }
+    }
+
+    const body = unit.content
+      .replace(IMPORT_PATTERN, '')
+      .replace(SPDX_PATTERN, '')
+      .replace(PRAGMA_PATTERN, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    bodies.push(`// File: ${unit.name}\n\n${body}`);
+  }
+
+  const header = [
+    `// SPDX-License-Identifier: ${licenses.length > 0 ? licenses.join(' AND ') : 'UNLICENSED'}`,
+    ...(versionConstraints.length > 0 ? [`pragma solidity ${versionConstraints.join(' ')};`] : []),
+    ...otherPragmas.map(pragma => `pragma ${pragma};`),
+  ];
+
+  return {
+    source: `${header.join('\n')}\n\n${bodies.join('\n\n')}\n`,
+    files: units.map(unit => unit.name),
+  };
+}
+
+// Flatten a source and prove the result compiles to the same creation bytecode as the original.
+// The metadata hash always differs between the two files, so full-match builds are compared without it.
+export async function flattenAndValidate({
+  source,
+  contractName,
+  profile,
+  expectedBytecode,
+}: {
+  source: string;
+  contractName: string;
+  profile: CompilerProfile;
+  // Bytecode of the original compile when the caller already has it
+  expectedBytecode?: string;
+}): Promise<FlattenedSource> {
+  const flattened = flattenSource(source, `${contractName}.sol`);
+  const comparisonProfile: CompilerProfile = { ...profile, appendMetadata: false };
+
+  let originalBytecode = profile.appendMetadata ? undefined : expectedBytecode;
+  if (originalBytecode === undefined) {
+    const original = await compileSolidity({ source, contractName, profile: comparisonProfile });
+    if (!original.success) {
+      throw new FlattenError(`Original source does not compile: ${original.errors.map(error => error.message).join('; ')}`);
+    }
+    originalBytecode = original.bytecode;
+  }
+
+  const recompiled = await compileSolidity({
+    source: flattened.source,
+    contractName,
+    fileName: `${contractName}_flattened.sol`,
+    profile: comparisonProfile,
+  });
+  if (!recompiled.success) {
+    throw new FlattenError(`Flattened source does not compile: ${recompiled.errors.map(error => error.message).join('; ')}`);
+  }
+  if (recompiled.bytecode !== originalBytecode) {
+    throw new FlattenError('Flattened source compiles to different bytecode than the original');
+  }
+
+  console.log(`Flattened ${contractName} from ${flattened.files.length} source files, bytecode matches`);
+  return flattened;
+}
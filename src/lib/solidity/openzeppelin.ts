@@ -0,0 +1,63 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import vendorManifest from './vendor/openzeppelin.json';
+
+// Generated contracts are written against this release, its sources are checked into vendor/
+export const OPENZEPPELIN_VERSION = vendorManifest.version;
+
+const IMPORT_PREFIX = '@openzeppelin/contracts/';
+// File path relative to the package root -> sha256 of its contents
+const VENDORED_FILES: Record<string, string> = vendorManifest.files;
+
+const sourceCache = new Map<string, string>();
+
+export function getVendorDir(): string {
+  return process.env.OPENZEPPELIN_VENDOR_DIR || path.join(process.cwd(), 'src', 'lib', 'solidity', 'vendor');
+}
+
+// Map an import path onto the vendored set, or null when it is not part of it
+export function toVendoredPath(importPath: string): string | null {
+  if (!importPath.startsWith(IMPORT_PREFIX)) {
+    return null;
+  }
+  const relativePath = importPath.slice(IMPORT_PREFIX.length);
+  // Reject anything that would normalize to a different file, such as ../ segments
+  if (path.posix.normalize(relativePath) !== relativePath || !VENDORED_FILES[relativePath]) {
+    return null;
+  }
+  return relativePath;
+}
+
+export function listVendoredImports(): string[] {
+  return Object.keys(VENDORED_FILES).map(file => `${IMPORT_PREFIX}${file}`);
+}
+
+// Import callback for solc: only files from the pinned OpenZeppelin set are ever read
+export function resolveVendoredImport(importPath: string): { contents: string } | { error: string } {
+  const relativePath = toVendoredPath(importPath);
+  if (!relativePath) {
+    console.error(`Refusing import outside the vendored OpenZeppelin ${OPENZEPPELIN_VERSION} sources: ${importPath}`);
+    return { error: `File not found: ${importPath} is not part of OpenZeppelin ${OPENZEPPELIN_VERSION} as vendored` };
+  }
+
+  const cached = sourceCache.get(relativePath);
+  if (cached !== undefined) {
+    return { contents: cached };
+  }
+
+  try {
+    const contents = fs.readFileSync(path.join(getVendorDir(), '@openzeppelin', 'contracts', relativePath), 'utf8');
+    const hash = crypto.createHash('sha256').update(contents).digest('hex');
+    if (hash !== VENDORED_FILES[relativePath]) {
+      console.error(`Vendored file ${importPath} does not match its pinned hash`);
+      return { error: `Vendored file ${importPath} has been modified` };
+    }
+
+    sourceCache.set(relativePath, contents);
+    return { contents };
+  } catch (error) {
+    console.error(`Error reading vendored import ${importPath}:`, error);
+    return { error: `Could not resolve import: ${importPath}` };
+  }
+}
@@ -0,0 +1,79 @@
+import { CompilerProfile, OptimizationLevel } from '@/types';
+
+// Optimizer settings behind each optimization level offered in the UI
+export const OPTIMIZATION_LEVELS: Record<OptimizationLevel, Pick<CompilerProfile, 'optimizer' | 'viaIR'>> = {
+  none: {
+    optimizer: { enabled: false, runs: 200 },
+    viaIR: false,
+  },
+  standard: {
+    optimizer: { enabled: true, runs: 200 },
+    viaIR: false,
+  },
+  // The IR pipeline produces smaller code for larger contracts but compiles noticeably slower
+  high: {
+    optimizer: { enabled: true, runs: 1000 },
+    viaIR: true,
+  },
+};
+
+// Compiler used when a chain has no profile of its own
+export const DEFAULT_COMPILER_PROFILE: CompilerProfile = {
+  solcVersion: '0.8.30+commit.73712a01',
+  evmVersion: 'paris',
+  optimizationLevel: 'standard',
+  ...OPTIMIZATION_LEVELS.standard,
+  appendMetadata: false,
+};
+
+// Per-chain compiler profiles, keyed by the chain ids in NETWORK_CONFIG
+export const CHAIN_COMPILER_PROFILES: Record<number, CompilerProfile> = {
+  // Ethereum and Sepolia support PUSH0, which makes the runtime code slightly smaller
+  1: { ...DEFAULT_COMPILER_PROFILE, evmVersion: 'shanghai' },
+  11155111: { ...DEFAULT_COMPILER_PROFILE, evmVersion: 'shanghai' },
+  // Sidechains and L2s stay on paris so the bytecode runs on every node and explorer
+  137: DEFAULT_COMPILER_PROFILE,
+  56: DEFAULT_COMPILER_PROFILE,
+  8453: DEFAULT_COMPILER_PROFILE,
+  42161: DEFAULT_COMPILER_PROFILE,
+  10: DEFAULT_COMPILER_PROFILE,
+};
+
+export function isOptimizationLevel(value: unknown): value is OptimizationLevel {
+  return typeof value === 'string' && value in OPTIMIZATION_LEVELS;
+}
+
+// Get the compiler profile for a chain at an optimization level, falling back to the defaults
+export function getCompilerProfile(chainId?: number, optimizationLevel?: string, fullMatch = false): CompilerProfile {
+  const profile = (chainId && CHAIN_COMPILER_PROFILES[chainId]) || DEFAULT_COMPILER_PROFILE;
+  const level = isOptimizationLevel(optimizationLevel) ? optimizationLevel : DEFAULT_COMPILER_PROFILE.optimizationLevel;
+  return {
+    ...profile,
+    optimizationLevel: level,
+    optimizer: { ...OPTIMIZATION_LEVELS[level].optimizer },
+    viaIR: OPTIMIZATION_LEVELS[level].viaIR,
+    appendMetadata: fullMatch === true,
+  };
+}
+
+// Check that a profile received from a client is complete before compiling or verifying with it
+export function isCompilerProfile(value: unknown): value is CompilerProfile {
+  const profile = value as CompilerProfile;
+  return (
+    !!profile &&
+    typeof profile.solcVersion === 'string' &&
+    /^\d+\.\d+\.\d+\+commit\.[0-9a-f]{8}$/.test(profile.solcVersion) &&
+    ['london', 'paris', 'shanghai', 'cancun'].includes(profile.evmVersion) &&
+    isOptimizationLevel(profile.optimizationLevel) &&
+    !!profile.optimizer &&
+    typeof profile.optimizer.enabled === 'boolean' &&
+    Number.isInteger(profile.optimizer.runs) &&
+    typeof profile.viaIR === 'boolean' &&
+    typeof profile.appendMetadata === 'boolean'
+  );
+}
+
+// Version string in the format block explorers expect, e.g. v0.8.30+commit.73712a01
+export function toExplorerCompilerVersion(profile: CompilerProfile): string {
+  return `v${profile.solcVersion}`;
+}
@@ -0,0 +1,85 @@
+import path from 'path';
+import crypto from 'crypto';
+import Module from 'module';
+import fs from 'fs-extra';
+import solc from 'solc';
+
+// Official solc-js builds
+const SOLC_BINARIES_URL = 'https://binaries.soliditylang.org/bin';
+
+export type SolcCompiler = typeof solc;
+
+interface SolcBuild {
+  path: string;
+  longVersion: string;
+  sha256: string;
+}
+
+// Compilers that are already loaded, keyed by version
+const loadedCompilers = new Map<string, Promise<SolcCompiler>>();
+
+// Directory holding downloaded soljson builds
+export function getSolcCacheDir(): string {
+  return process.env.SOLC_CACHE_DIR || path.join(process.cwd(), '.solc-cache');
+}
+
+// Download a soljson build once, verifying it against the checksum published in list.json
+async function downloadCompiler(version: string, targetPath: string) {
+  console.log(`Downloading solc ${version}...`);
+
+  const listResponse = await fetch(`${SOLC_BINARIES_URL}/list.json`);
+  if (!listResponse.ok) {
+    throw new Error(`Failed to fetch solc release list: ${listResponse.status}`);
+  }
+  const { builds } = await listResponse.json() as { builds: SolcBuild[] };
+  const build = builds.find(candidate => candidate.longVersion === version);
+  if (!build) {
+    throw new Error(`Unknown solc version: ${version}`);
+  }
+
+  const binaryResponse = await fetch(`${SOLC_BINARIES_URL}/${build.path}`);
+  if (!binaryResponse.ok) {
+    throw new Error(`Failed to download solc ${version}: ${binaryResponse.status}`);
+  }
+  const contents = Buffer.from(await binaryResponse.arrayBuffer());
+
+  const checksum = `0x${crypto.createHash('sha256').update(contents).digest('hex')}`;
+  if (checksum !== build.sha256) {
+    throw new Error(`Checksum mismatch for solc ${version}`);
+  }
+
+  // Write to a temporary file first so a partial download is never picked up
+  await fs.ensureDir(path.dirname(targetPath));
+  const tempPath = `${targetPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, contents);
+  await fs.move(tempPath, targetPath, { overwrite: true });
+}
+
+async function loadCachedCompiler(version: string): Promise<SolcCompiler> {
+  const binaryPath = path.join(getSolcCacheDir(), `soljson-v${version}.js`);
+  if (!(await fs.pathExists(binaryPath))) {
+    await downloadCompiler(version, binaryPath);
+  }
+
+  // Same approach solc's own loadRemoteVersion uses to evaluate a soljson build
+  const soljson = new Module(binaryPath) as Module & { _compile(code: string, filename: string): void };
+  soljson._compile(await fs.readFile(binaryPath, 'utf8'), binaryPath);
+  return solc.setupMethods(soljson.exports) as SolcCompiler;
+}
+
+// Get a compiler for an exact version, using the bundled solc when it matches
+export function loadCompiler(version: string): Promise<SolcCompiler> {
+  const bundledVersion = solc.version() as string;
+  if (bundledVersion.startsWith(version)) {
+    return Promise.resolve(solc);
+  }
+
+  let compiler = loadedCompilers.get(version);
+  if (!compiler) {
+    compiler = loadCachedCompiler(version);
+    // Forget failed loads so the next request can retry the download
+    compiler.catch(() => loadedCompilers.delete(version));
+    loadedCompilers.set(version, compiler);
+  }
+  return compiler;
+}
@@ -0,0 +1,85 @@
+import type { StorageLayoutCheck } from '@/types';
+
+// Storage layout as reported by solc for a single contract
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType> | null;
+}
+
+interface StorageVariable {
+  astId: number;
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+interface StorageType {
+  encoding: string;
+  label: string;
+  numberOfBytes: string;
+}
+
+// Type ids embed AST ids that change between compiles, the label is what identifies a type
+function typeLabel(layout: StorageLayout, variable: StorageVariable): string {
+  return layout.types?.[variable.type]?.label || variable.type;
+}
+
+function typeSize(layout: StorageLayout, variable: StorageVariable): bigint {
+  return BigInt(layout.types?.[variable.type]?.numberOfBytes || '32');
+}
+
+// Byte position of a variable in storage, slots are 32 bytes and offsets count from the right
+function position(variable: StorageVariable): bigint {
+  return BigInt(variable.slot) * BigInt(32) + BigInt(variable.offset);
+}
+
+function describe(layout: StorageLayout, variable: StorageVariable): string {
+  return `${typeLabel(layout, variable)} ${variable.label} (slot ${variable.slot}, offset ${variable.offset})`;
+}
+
+// A new implementation may only append variables: every existing one must keep its slot, offset,
+// name and type, and new ones must start after the end of the current layout
+export function compareStorageLayouts(current: StorageLayout, next: StorageLayout): StorageLayoutCheck {
+  const problems: string[] = [];
+  const added: string[] = [];
+
+  const nextByPosition = new Map(next.storage.map(variable => [position(variable).toString(), variable]));
+  const matched = new Set<StorageVariable>();
+  let end = BigInt(0);
+
+  for (const variable of current.storage) {
+    const variableEnd = position(variable) + typeSize(current, variable);
+    if (variableEnd > end) {
+      end = variableEnd;
+    }
+
+    const replacement = nextByPosition.get(position(variable).toString());
+    if (!replacement) {
+      const moved = next.storage.find(candidate => candidate.label === variable.label && candidate.contract === variable.contract);
+      problems.push(moved
+        ? `${variable.label} moved from slot ${variable.slot}, offset ${variable.offset} to slot ${moved.slot}, offset ${moved.offset}`
+        : `${describe(current, variable)} is no longer declared`);
+      continue;
+    }
+    matched.add(replacement);
+
+    if (replacement.label !== variable.label) {
+      problems.push(`${describe(current, variable)} is replaced by ${describe(next, replacement)}`);
+    } else if (typeLabel(next, replacement) !== typeLabel(current, variable) || typeSize(next, replacement) !== typeSize(current, variable)) {
+      problems.push(`${variable.label} changes type from ${typeLabel(current, variable)} to ${typeLabel(next, replacement)}`);
+    }
+  }
+
+  for (const variable of next.storage) {
+    if (matched.has(variable)) continue;
+    if (position(variable) < end) {
+      problems.push(`${describe(next, variable)} overlaps existing storage`);
+    } else {
+      added.push(describe(next, variable));
+    }
+  }
+
+  return { compatible: problems.length === 0, problems, added };
+}
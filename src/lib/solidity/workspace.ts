@@ -0,0 +1,103 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+
+// Workspaces are kept for a while after the request so failed compiles can be inspected
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_WORKSPACES = 200;
+// Cleanup runs at most this often, triggered by new workspaces
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+let lastCleanup = 0;
+
+export interface CompileWorkspace {
+  id: string;
+  dir: string;
+  // Write a file inside the workspace and return its absolute path
+  writeFile(fileName: string, contents: string): Promise<string>;
+  remove(): Promise<void>;
+}
+
+export interface WorkspaceRetention {
+  maxAgeMs: number;
+  maxCount: number;
+}
+
+export function getWorkspaceRoot(): string {
+  return process.env.COMPILE_WORKSPACE_DIR || path.join(process.cwd(), 'temp');
+}
+
+export function getWorkspaceRetention(): WorkspaceRetention {
+  const maxAgeMs = Number(process.env.COMPILE_WORKSPACE_RETENTION_MS);
+  const maxCount = Number(process.env.COMPILE_WORKSPACE_MAX_COUNT);
+  return {
+    maxAgeMs: Number.isFinite(maxAgeMs) && maxAgeMs >= 0 ? maxAgeMs : DEFAULT_RETENTION_MS,
+    maxCount: Number.isInteger(maxCount) && maxCount > 0 ? maxCount : DEFAULT_MAX_WORKSPACES,
+  };
+}
+
+// Create an isolated directory for a single compile request
+export async function createCompileWorkspace(label: string): Promise<CompileWorkspace> {
+  scheduleWorkspaceCleanup();
+
+  const safeLabel = label.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 40) || 'contract';
+  const id = `${safeLabel}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+  const dir = path.join(getWorkspaceRoot(), id);
+  await fs.ensureDir(dir);
+
+  return {
+    id,
+    dir,
+    writeFile: async (fileName: string, contents: string) => {
+      const filePath = path.join(dir, path.basename(fileName));
+      await fs.writeFile(filePath, contents);
+      return filePath;
+    },
+    remove: () => fs.remove(dir),
+  };
+}
+
+// Remove workspaces past the retention age, then the oldest ones beyond the count limit
+export async function cleanupWorkspaces(retention: WorkspaceRetention = getWorkspaceRetention()): Promise<number> {
+  const root = getWorkspaceRoot();
+  if (!(await fs.pathExists(root))) {
+    return 0;
+  }
+
+  const entries = await Promise.all(
+    (await fs.readdir(root)).map(async name => {
+      const entryPath = path.join(root, name);
+      try {
+        const stat = await fs.stat(entryPath);
+        return { path: entryPath, modified: stat.mtimeMs };
+      } catch {
+        // Removed by a concurrent cleanup
+        return null;
+      }
+    })
+  );
+
+  const now = Date.now();
+  const sorted = entries
+    .filter((entry): entry is { path: string; modified: number } => entry !== null)
+    .sort((a, b) => b.modified - a.modified);
+  const expired = sorted.filter((entry, index) => now - entry.modified > retention.maxAgeMs || index >= retention.maxCount);
+
+  await Promise.all(expired.map(entry => fs.remove(entry.path)));
+  if (expired.length > 0) {
+    console.log(`Removed ${expired.length} expired compile workspace(s) from ${root}`);
+  }
+  return expired.length;
+}
+
+// Run cleanup in the background, throttled so busy servers do not rescan on every request
+function scheduleWorkspaceCleanup() {
+  const now = Date.now();
+  if (now - lastCleanup < CLEANUP_INTERVAL_MS) {
+    return;
+  }
+  lastCleanup = now;
+  cleanupWorkspaces().catch(error => {
+    console.error('Error cleaning up compile workspaces:', error);
+  });
+}
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { advance, createLocalChain, deployToken, LocalChain } from './local-chain';
+
+const TOTAL_SUPPLY = ethers.parseEther('1000000');
+const DAY = 24 * 60 * 60;
+
+// Overloaded in OpenZeppelin's VestingWallet, the token overloads are the ones allocations use
+const VESTING_WALLET_ABI = [
+  'function allocation() view returns (string)',
+  'function beneficiary() view returns (address)',
+  'function start() view returns (uint256)',
+  'function duration() view returns (uint256)',
+  'function released(address token) view returns (uint256)',
+  'function releasable(address token) view returns (uint256)',
+  'function release(address token)',
+];
+
+interface Distribution {
+  allocation: string;
+  wallet: string;
+  amount: bigint;
+  vested: boolean;
+}
+
+describe('token allocations on a local chain', () => {
+  let chain: LocalChain;
+  let token: ethers.Contract;
+  let tokenAddress: string;
+  let ownerAddress: string;
+  let aliceAddress: string;
+  let bobAddress: string;
+  let carolAddress: string;
+  let deployedAt: number;
+  let distributions: Map<string, Distribution>;
+
+  function vestingWallet(name: string) {
+    return new ethers.Contract(distributions.get(name)!.wallet, VESTING_WALLET_ABI, chain.accounts[0]);
+  }
+
+  // Anyone can release, the tokens always go to the beneficiary
+  async function release(name: string) {
+    const receipt = await (await vestingWallet(name).release(tokenAddress)).wait();
+    return (await chain.provider.getBlock(receipt.blockNumber))!.timestamp;
+  }
+
+  beforeAll(async () => {
+    chain = await createLocalChain();
+    [ownerAddress, aliceAddress, bobAddress, carolAddress] = await Promise.all(chain.accounts.slice(0, 4).map(account => account.getAddress()));
+
+    // Taxed, with trading left closed: vesting wallets are excluded from fees, limits and the trading gate
+    token = await deployToken(chain, {
+      name: 'Allocated Token',
+      symbol: 'ALLOC',
+      totalSupply: '1000000',
+      buyTax: 5,
+      sellTax: 5,
+      allocations: [
+        { name: 'Team', percent: '15', beneficiary: aliceAddress, cliffDays: 30, vestingDays: 100 },
+        { name: 'Marketing', percent: '10.5', beneficiary: bobAddress, cliffDays: 0, vestingDays: 0 },
+        { name: 'Airdrop', percent: '0.25', beneficiary: carolAddress, cliffDays: 10, vestingDays: 0 },
+        { name: 'Liquidity', percent: '74.25', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+      ],
+    }, chain.accounts[0]);
+    tokenAddress = await token.getAddress();
+
+    const events = await token.queryFilter(token.filters.AllocationDistributed());
+    distributions = new Map(events.map(event => {
+      const [allocation, wallet, amount, vested] = (event as ethers.EventLog).args;
+      return [allocation, { allocation, wallet, amount, vested }];
+    }));
+    deployedAt = (await chain.provider.getBlock(events[0].blockNumber))!.timestamp;
+  });
+
+  afterAll(async () => {
+    await chain?.close();
+  });
+
+  it('mints the whole supply and hands out each percentage', async () => {
+    expect(await token.totalSupply()).toBe(TOTAL_SUPPLY);
+    expect(await token.balanceOf(tokenAddress)).toBe(BigInt(0));
+    expect(await token.getAllocationWallets()).toEqual([...distributions.values()].map(distribution => distribution.wallet));
+
+    const amounts = [...distributions.values()].map(distribution => distribution.amount);
+    expect(amounts.reduce((sum, amount) => sum + amount, BigInt(0))).toBe(TOTAL_SUPPLY);
+    expect(distributions.get('Team')!.amount).toBe(TOTAL_SUPPLY * BigInt(1500) / BigInt(10000));
+    expect(distributions.get('Marketing')!.amount).toBe(TOTAL_SUPPLY * BigInt(1050) / BigInt(10000));
+    expect(distributions.get('Airdrop')!.amount).toBe(TOTAL_SUPPLY * BigInt(25) / BigInt(10000));
+    expect(distributions.get('Liquidity')!.amount).toBe(TOTAL_SUPPLY * BigInt(7425) / BigInt(10000));
+
+    // Unlocked allocations go straight to the beneficiary, an empty beneficiary means the deployer
+    expect(distributions.get('Marketing')).toMatchObject({ wallet: bobAddress, vested: false });
+    expect(distributions.get('Liquidity')).toMatchObject({ wallet: ownerAddress, vested: false });
+    expect(await token.balanceOf(bobAddress)).toBe(distributions.get('Marketing')!.amount);
+    expect(await token.balanceOf(ownerAddress)).toBe(distributions.get('Liquidity')!.amount);
+  });
+
+  it('puts each vested allocation in its own vesting wallet starting at the end of the cliff', async () => {
+    for (const [name, beneficiary, cliffDays, vestingDays] of [['Team', aliceAddress, 30, 100], ['Airdrop', carolAddress, 10, 0]] as const) {
+      const distribution = distributions.get(name)!;
+      const wallet = vestingWallet(name);
+      expect(distribution.vested).toBe(true);
+      expect(await token.balanceOf(distribution.wallet)).toBe(distribution.amount);
+      expect(await wallet.allocation()).toBe(name);
+      expect(await wallet.beneficiary()).toBe(beneficiary);
+      expect(await wallet.start()).toBe(BigInt(deployedAt + cliffDays * DAY));
+      expect(await wallet.duration()).toBe(BigInt(vestingDays * DAY));
+      expect(await token.isExcludedFromLimits(distribution.wallet)).toBe(true);
+    }
+    expect(await token.balanceOf(aliceAddress)).toBe(BigInt(0));
+    expect(await token.balanceOf(carolAddress)).toBe(BigInt(0));
+  });
+
+  it('releases nothing before the cliff', async () => {
+    await advance(chain, 1, 9 * DAY);
+    expect(await vestingWallet('Team').releasable(tokenAddress)).toBe(BigInt(0));
+    expect(await vestingWallet('Airdrop').releasable(tokenAddress)).toBe(BigInt(0));
+
+    await release('Team');
+    await release('Airdrop');
+    expect(await token.balanceOf(aliceAddress)).toBe(BigInt(0));
+    expect(await token.balanceOf(carolAddress)).toBe(BigInt(0));
+  });
+
+  it('unlocks an allocation without a vesting period at once at the cliff', async () => {
+    await advance(chain, 1, DAY);
+    const airdrop = distributions.get('Airdrop')!;
+    expect(await vestingWallet('Airdrop').releasable(tokenAddress)).toBe(airdrop.amount);
+
+    await release('Airdrop');
+    expect(await token.balanceOf(carolAddress)).toBe(airdrop.amount);
+    expect(await token.balanceOf(airdrop.wallet)).toBe(BigInt(0));
+  });
+
+  it('releases a vested allocation linearly from the cliff to the end of the vesting period', async () => {
+    const team = distributions.get('Team')!;
+    const start = deployedAt + 30 * DAY;
+    const duration = 100 * DAY;
+
+    // Halfway through the vesting period, no tax is taken although trading is not open
+    await advance(chain, 1, 70 * DAY);
+    const releasedAt = await release('Team');
+    expect(releasedAt).toBeGreaterThan(start);
+    const vested = team.amount * BigInt(releasedAt - start) / BigInt(duration);
+    expect(await token.balanceOf(aliceAddress)).toBe(vested);
+    expect(await vestingWallet('Team').released(tokenAddress)).toBe(vested);
+    expect(await token.tradingOpen()).toBe(false);
+
+    // Everything after the end
+    await advance(chain, 1, 60 * DAY);
+    await release('Team');
+    expect(await token.balanceOf(aliceAddress)).toBe(team.amount);
+    expect(await token.balanceOf(team.wallet)).toBe(BigInt(0));
+    expect(await vestingWallet('Team').releasable(tokenAddress)).toBe(BigInt(0));
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import type { ContractDetailsInput } from '@/lib/token-builder';
+import { addLiquidity, advance, buy, createLocalChain, deployToken, LocalChain, quoteBuy, sell } from './local-chain';
+
+const TOTAL_SUPPLY = ethers.parseEther('1000000');
+
+// Chain of the running test, every test launches its own token
+let activeChain: LocalChain | null = null;
+
+afterEach(async () => {
+  await activeChain?.close();
+  activeChain = null;
+});
+
+// Deploy an untaxed token with the given launch protections and add liquidity, trading is opened by the test
+async function launch(features: string[], antiBot: ContractDetailsInput['antiBot']) {
+  const chain = await createLocalChain();
+  activeChain = chain;
+  const [owner, alice, bob, carol] = chain.accounts;
+  const token = await deployToken(chain, { name: 'Bot Token', symbol: 'BOT', totalSupply: '1000000', features, antiBot }, owner);
+  const pair = await addLiquidity(chain, token, TOTAL_SUPPLY / BigInt(2), ethers.parseEther('100'));
+  return { chain, token, pair, alice, bob, carol };
+}
+
+async function openTrading(token: ethers.Contract) {
+  await (await token.openTrading()).wait();
+}
+
+describe('sniper tax', () => {
+  it('burns the sniper tax on buys in the first blocks after launch', async () => {
+    const { chain, token, alice, bob } = await launch(['sniper tax'], { sniperTaxBlocks: 3, sniperTax: 40 });
+    await openTrading(token);
+
+    const supply = await token.totalSupply();
+    const quoted = await quoteBuy(chain, token, ethers.parseEther('1'));
+    await buy(chain, token, alice, ethers.parseEther('1'));
+    const sniperFee = quoted * BigInt(40) / BigInt(100);
+    expect(await token.balanceOf(alice.address)).toBe(quoted - sniperFee);
+    expect(await token.totalSupply()).toBe(supply - sniperFee);
+
+    await advance(chain, 3);
+    const laterQuote = await quoteBuy(chain, token, ethers.parseEther('1'));
+    await buy(chain, token, bob, ethers.parseEther('1'));
+    expect(await token.balanceOf(bob.address)).toBe(laterQuote);
+  });
+
+  it('can be switched off by the owner', async () => {
+    const { chain, token, alice } = await launch(['sniper tax'], { sniperTaxBlocks: 100, sniperTax: 40 });
+    await openTrading(token);
+    await (await token.disableSniperTax()).wait();
+
+    const quoted = await quoteBuy(chain, token, ethers.parseEther('1'));
+    await buy(chain, token, alice, ethers.parseEther('1'));
+    expect(await token.balanceOf(alice.address)).toBe(quoted);
+  });
+});
+
+describe('block limit', () => {
+  it('rejects pair trades over maxTradesPerBlock in one block', async () => {
+    const { chain, token, alice, bob, carol } = await launch(['block limit'], { maxTradesPerBlock: 2 });
+    await openTrading(token);
+
+    // Hold the three buys back so they are mined into the same block
+    await chain.provider.send('miner_stop', []);
+    const pending = await Promise.all([alice, bob, carol].map(async buyer => {
+      const router = chain.router.connect(buyer) as ethers.Contract;
+      return router.swapExactETHForTokensSupportingFeeOnTransferTokens(
+        0,
+        [await chain.weth.getAddress(), await token.getAddress()],
+        buyer.address,
+        ethers.MaxUint256,
+        { value: ethers.parseEther('0.1'), gasLimit: 1000000 }
+      ) as Promise<ethers.TransactionResponse>;
+    }));
+    await chain.provider.send('miner_start', []);
+
+    const receipts = await Promise.all(pending.map(transaction => chain.provider.getTransactionReceipt(transaction.hash)));
+    expect(new Set(receipts.map(receipt => receipt?.blockNumber)).size).toBe(1);
+    expect(receipts.filter(receipt => receipt?.status === 1)).toHaveLength(2);
+
+    // The next block starts counting again
+    await buy(chain, token, carol, ethers.parseEther('0.1'));
+  });
+});
+
+describe('transfer delay', () => {
+  it('allows one pair trade per transaction origin every transferDelayBlocks', async () => {
+    const { chain, token, alice } = await launch(['transfer delay'], { transferDelayBlocks: 3 });
+    await openTrading(token);
+    await buy(chain, token, alice, ethers.parseEther('1'));
+
+    // Approving mines a block, the sell lands two blocks after the buy
+    await expect(sell(chain, token, alice, ethers.parseEther('10'))).rejects.toThrow();
+    await advance(chain, 1);
+    await sell(chain, token, alice, ethers.parseEther('10'));
+
+    await (await token.disableTransferDelay()).wait();
+    await buy(chain, token, alice, ethers.parseEther('0.1'));
+    await buy(chain, token, alice, ethers.parseEther('0.1'));
+  });
+});
+
+describe('blacklist', () => {
+  it('stops blacklisted wallets until the window after launch expires', async () => {
+    const { chain, token, pair, alice, bob } = await launch(['blacklist'], { blacklistWindowBlocks: 5 });
+    await (await token.setBlacklisted([alice.address], true)).wait();
+    await expect(token.setBlacklisted([pair], true)).rejects.toThrow();
+    await openTrading(token);
+
+    await expect(buy(chain, token, alice, ethers.parseEther('1'))).rejects.toThrow();
+    await buy(chain, token, bob, ethers.parseEther('1'));
+    expect(await token.blacklistActive()).toBe(true);
+
+    await advance(chain, 5);
+    expect(await token.blacklistActive()).toBe(false);
+    await buy(chain, token, alice, ethers.parseEther('1'));
+    expect(await token.balanceOf(alice.address)).toBeGreaterThan(BigInt(0));
+
+    // Nobody can be added once the window is over
+    await expect(token.setBlacklisted([bob.address], true)).rejects.toThrow();
+  });
+});
+
+describe('buy cooldown', () => {
+  it('makes wallets wait between buys but not before selling', async () => {
+    const { chain, token, alice } = await launch(['buy cooldown'], { buyCooldownSeconds: 30 });
+    await openTrading(token);
+    await buy(chain, token, alice, ethers.parseEther('1'));
+
+    await advance(chain, 1, 10);
+    await expect(buy(chain, token, alice, ethers.parseEther('1'))).rejects.toThrow();
+    await sell(chain, token, alice, ethers.parseEther('10'));
+
+    await advance(chain, 1, 30);
+    await buy(chain, token, alice, ethers.parseEther('1'));
+  });
+
+  it('can only be lowered', async () => {
+    const { token } = await launch(['buy cooldown'], { buyCooldownSeconds: 30 });
+
+    await expect(token.setBuyCooldown(60)).rejects.toThrow();
+    await (await token.setBuyCooldown(10)).wait();
+    expect(await token.buyCooldown()).toBe(BigInt(10));
+  });
+});
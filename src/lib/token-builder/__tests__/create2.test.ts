@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { computeCreate2Address, CREATE2_FACTORY_ADDRESS, encodeCreate2Deployment } from '@/lib/deployments/create2';
+import { addLiquidity, buy, compileToken, createLocalChain, LocalChain, linkRouter } from './local-chain';
+
+const SALT = ethers.id('create2 test salt');
+
+const chains: LocalChain[] = [];
+
+afterEach(async () => {
+  await Promise.all(chains.splice(0).map(chain => chain.close()));
+});
+
+describe('CREATE2 deployment', () => {
+  it('puts a tax token at the same address on two chain ids', async () => {
+    const compiled = await compileToken({ name: 'Everywhere', symbol: 'EVR', totalSupply: '1000000', buyTax: 5, sellTax: 5 });
+
+    const addresses: string[] = [];
+    for (const chainId of [31337, 56]) {
+      const chain = await createLocalChain(chainId);
+      chains.push(chain);
+      const [owner, alice] = chain.accounts;
+
+      // Built the way the deployer builds it, with nothing from the chain in the creation code
+      const { data: initCode } = await new ethers.ContractFactory(compiled.abi, compiled.bytecode).getDeployTransaction(owner.address);
+      const address = computeCreate2Address(SALT, ethers.keccak256(initCode));
+      await (await owner.sendTransaction({ to: CREATE2_FACTORY_ADDRESS, data: encodeCreate2Deployment(SALT, initCode) })).wait();
+      expect(await chain.provider.getCode(address)).not.toBe('0x');
+      addresses.push(address);
+
+      // Trading needs the router of this chain, linked once after deployment
+      const token = new ethers.Contract(address, compiled.abi, owner);
+      expect(await token.owner()).toBe(owner.address);
+      await expect(token.openTrading()).rejects.toThrow();
+      await linkRouter(chain, token);
+      expect(await token.uniswapV2Router()).toBe(await chain.router.getAddress());
+      await expect(token.setUniswapV2Router(alice.address)).rejects.toThrow();
+
+      await addLiquidity(chain, token, ethers.parseEther('500000'), ethers.parseEther('100'));
+      await (await token.openTrading()).wait();
+      await buy(chain, token, alice, ethers.parseEther('1'));
+      expect(await token.balanceOf(alice.address)).toBeGreaterThan(BigInt(0));
+    }
+
+    expect(addresses[1]).toBe(addresses[0]);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { addLiquidity, advance, buy, createLocalChain, deployToken, LocalChain, sell } from './local-chain';
+
+const TOTAL_SUPPLY = ethers.parseEther('1000000');
+const MINIMUM_BALANCE = ethers.parseEther('1000');
+const DEAD_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+
+const TRACKER_ABI = [
+  'function sharesOf(address account) view returns (uint256)',
+  'function totalShares() view returns (uint256)',
+  'function totalDividendsDistributed() view returns (uint256)',
+  'function totalDividendsWithdrawn() view returns (uint256)',
+  'function accumulativeDividendOf(address account) view returns (uint256)',
+  'function withdrawnDividendOf(address account) view returns (uint256)',
+  'function getNumberOfHolders() view returns (uint256)',
+  'function minimumTokenBalanceForDividends() view returns (uint256)',
+];
+
+describe('dividend token on a local chain', () => {
+  let chain: LocalChain;
+  let token: ethers.Contract;
+  let tracker: ethers.Contract;
+  let tokenAddress: string;
+  let pair: string;
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+  let ownerAddress: string;
+  let aliceAddress: string;
+  let bobAddress: string;
+  let carolAddress: string;
+
+  function expectClose(actual: bigint, expected: bigint, tolerance: bigint) {
+    expect(actual - expected).toBeGreaterThanOrEqual(-tolerance);
+    expect(actual - expected).toBeLessThanOrEqual(tolerance);
+  }
+
+  // The owner tops up the collected fees so the next sell runs swapBack
+  async function collectFees() {
+    await (await token.transfer(tokenAddress, await token.swapTokensAtAmount())).wait();
+  }
+
+  // swapBack swaps the collected fees and sends the dividends share to the tracker
+  async function triggerSwapBack() {
+    await collectFees();
+    await sell(chain, token, alice, ethers.parseEther('100'));
+  }
+
+  beforeAll(async () => {
+    chain = await createLocalChain();
+    const [owner] = chain.accounts;
+    [, alice, bob] = chain.accounts;
+    [ownerAddress, aliceAddress, bobAddress, carolAddress] = await Promise.all(chain.accounts.slice(0, 4).map(account => account.getAddress()));
+
+    token = await deployToken(chain, {
+      name: 'Dividend Token',
+      symbol: 'DIV',
+      totalSupply: '1000000',
+      template: 'dividend',
+      buyTax: 5,
+      sellTax: 10,
+      taxDistribution: { marketing: 5000, liquidity: 0, burn: 0, dev: 0, treasury: 0, dividends: 5000 },
+      marketingWallet: await chain.accounts[5].getAddress(),
+      dividends: { minimumTokenBalance: '1000' },
+    }, owner);
+    tokenAddress = await token.getAddress();
+    tracker = new ethers.Contract(await token.dividendTracker(), TRACKER_ABI, chain.provider);
+
+    pair = await addLiquidity(chain, token, TOTAL_SUPPLY / BigInt(2), ethers.parseEther('100'));
+    await (await token.openTrading()).wait();
+    await buy(chain, token, alice, ethers.parseEther('1'));
+  });
+
+  afterAll(async () => {
+    await chain?.close();
+  });
+
+  it('keeps the pair, the token, the tracker and the dead address out of the shares', async () => {
+    await (await token.transfer(DEAD_ADDRESS, ethers.parseEther('1000'))).wait();
+
+    for (const account of [pair, tokenAddress, await tracker.getAddress(), DEAD_ADDRESS]) {
+      expect(await tracker.sharesOf(account)).toBe(BigInt(0));
+    }
+    expect(await token.isExcludedFromDividends(tokenAddress)).toBe(true);
+    expect(await token.isExcludedFromDividends(DEAD_ADDRESS)).toBe(true);
+    expect(await token.isExcludedFromDividends(await tracker.getAddress())).toBe(true);
+
+    // The owner is synced when the tracker is set, buyers on their buy
+    expect(await tracker.sharesOf(ownerAddress)).toBe(await token.balanceOf(ownerAddress));
+    expect(await tracker.sharesOf(aliceAddress)).toBe(await token.balanceOf(aliceAddress));
+  });
+
+  it('gives shares only to balances at or above the minimum', async () => {
+    expect(await tracker.minimumTokenBalanceForDividends()).toBe(MINIMUM_BALANCE);
+
+    await (await token.transfer(bobAddress, MINIMUM_BALANCE - ethers.parseEther('1'))).wait();
+    expect(await tracker.sharesOf(bobAddress)).toBe(BigInt(0));
+
+    await (await token.transfer(bobAddress, ethers.parseEther('1'))).wait();
+    expect(await tracker.sharesOf(bobAddress)).toBe(MINIMUM_BALANCE);
+    expect(await tracker.getNumberOfHolders()).toBe(BigInt(3));
+  });
+
+  it('distributes the dividends share when swapBack runs and pays holders pro rata', async () => {
+    expect(await tracker.totalDividendsDistributed()).toBe(BigInt(0));
+    await collectFees();
+    const ownerShares: bigint = await tracker.sharesOf(ownerAddress);
+    const bobShares: bigint = await tracker.sharesOf(bobAddress);
+    const receipt = await sell(chain, token, alice, ethers.parseEther('100'));
+
+    const distributed: bigint = await tracker.totalDividendsDistributed();
+    expect(distributed).toBeGreaterThan(BigInt(0));
+    const ownerDividends: bigint = await tracker.accumulativeDividendOf(ownerAddress);
+    const bobDividends: bigint = await tracker.accumulativeDividendOf(bobAddress);
+    expect(bobDividends).toBeGreaterThan(BigInt(0));
+    expectClose(ownerDividends, bobDividends * ownerShares / bobShares, ownerShares / bobShares + BigInt(1));
+
+    // Every wei distributed belongs to a holder, the pair and the excluded accounts earn nothing
+    const holderDividends = await Promise.all([ownerAddress, aliceAddress, bobAddress].map(account => tracker.accumulativeDividendOf(account)));
+    expectClose(holderDividends.reduce((sum, dividends) => sum + dividends, BigInt(0)), distributed, BigInt(3));
+    expect(await tracker.accumulativeDividendOf(pair)).toBe(BigInt(0));
+    expect(await tracker.accumulativeDividendOf(tokenAddress)).toBe(BigInt(0));
+    expect(await chain.provider.getBalance(await tracker.getAddress())).toBe(distributed - await tracker.totalDividendsWithdrawn());
+
+    // The same transfer processes the tracker, holders that can receive ETH are paid right away
+    expect(await tracker.withdrawnDividendOf(bobAddress)).toBe(bobDividends);
+    expect(await token.withdrawableDividendOf(bobAddress)).toBe(BigInt(0));
+    const bobBalance = await chain.provider.getBalance(bobAddress, receipt!.blockNumber - 1);
+    expect(await chain.provider.getBalance(bobAddress, receipt!.blockNumber)).toBe(bobBalance + bobDividends);
+  });
+
+  it('lets holders claim what automatic processing skipped within the claim wait', async () => {
+    await triggerSwapBack();
+
+    // Paid in the last hour, so processing leaves the new dividends for a claim
+    const withdrawable: bigint = await token.withdrawableDividendOf(bobAddress);
+    expect(withdrawable).toBeGreaterThan(BigInt(0));
+    const withdrawn: bigint = await tracker.withdrawnDividendOf(bobAddress);
+
+    // Balances are read at the blocks around the claim, ethers caches repeated reads for a moment
+    const receipt: ethers.ContractTransactionReceipt = await (await (token.connect(bob) as ethers.Contract).claim()).wait();
+    const balance = await chain.provider.getBalance(bobAddress, receipt.blockNumber - 1);
+    expect(await chain.provider.getBalance(bobAddress, receipt.blockNumber)).toBe(balance + withdrawable - receipt.gasUsed * receipt.gasPrice);
+    expect(await token.withdrawableDividendOf(bobAddress)).toBe(BigInt(0));
+    expect(await tracker.withdrawnDividendOf(bobAddress)).toBe(withdrawn + withdrawable);
+
+    // Nothing left to claim
+    const claimed: bigint = await tracker.totalDividendsWithdrawn();
+    await (await (token.connect(bob) as ethers.Contract).claim()).wait();
+    expect(await tracker.totalDividendsWithdrawn()).toBe(claimed);
+  });
+
+  it('drops the shares of a holder below the minimum and keeps what it earned', async () => {
+    await advance(chain, 1, 3600);
+    await triggerSwapBack();
+    const earned: bigint = await tracker.accumulativeDividendOf(bobAddress);
+
+    await (await (token.connect(bob) as ethers.Contract).transfer(carolAddress, ethers.parseEther('1'))).wait();
+    expect(await tracker.sharesOf(bobAddress)).toBe(BigInt(0));
+    expect(await tracker.sharesOf(carolAddress)).toBe(BigInt(0));
+    expect(await tracker.accumulativeDividendOf(bobAddress)).toBe(earned);
+
+    // Later distributions go to the remaining holders only
+    const distributed: bigint = await tracker.totalDividendsDistributed();
+    await advance(chain, 1, 3600);
+    await triggerSwapBack();
+    expect(await tracker.totalDividendsDistributed()).toBeGreaterThan(distributed);
+    expect(await tracker.accumulativeDividendOf(bobAddress)).toBe(earned);
+  });
+
+  it('lets the owner exclude a holder and include it again', async () => {
+    await (await token.excludeFromDividends(aliceAddress, true)).wait();
+    expect(await tracker.sharesOf(aliceAddress)).toBe(BigInt(0));
+    await expect((token.connect(alice) as ethers.Contract).excludeFromDividends(bobAddress, true)).rejects.toThrow();
+
+    await (await token.excludeFromDividends(aliceAddress, false)).wait();
+    expect(await tracker.sharesOf(aliceAddress)).toBe(await token.balanceOf(aliceAddress));
+  });
+});
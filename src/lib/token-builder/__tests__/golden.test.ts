@@ -0,0 +1,106 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { describe, expect, it } from 'vitest';
+import { FEATURES } from '@/constants/networks';
+import { ANTI_BOT_FEATURES, generateTokenContract, REFLECTION_INCOMPATIBLE_FEATURES, TokenBuildError } from '@/lib/token-builder';
+import type { ContractDetailsInput } from '@/lib/token-builder';
+
+// Committed outputs of generateTokenContract, rewrite them after an intended change with
+// UPDATE_GOLDEN=1 npm test -- golden
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const BASE_DETAILS: ContractDetailsInput = { name: 'Golden Token', symbol: 'GOLD', totalSupply: '1000000' };
+const TAX_DETAILS: ContractDetailsInput = { ...BASE_DETAILS, buyTax: 5, sellTax: 5 };
+const ALL_FEATURES = FEATURES.map(feature => feature.id);
+const DIVIDEND_DISTRIBUTION = { marketing: 5000, liquidity: 0, burn: 0, dev: 0, treasury: 0, dividends: 5000 };
+const VESTED_ALLOCATIONS: ContractDetailsInput['allocations'] = [
+  { name: 'Team', percent: '10', beneficiary: '0x1000000000000000000000000000000000000001', cliffDays: 30, vestingDays: 365 },
+  { name: 'Liquidity', percent: '90', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+];
+
+function toCaseName(feature: string): string {
+  return feature.replace(/\s+/g, '-');
+}
+
+// Every feature on its own and all of them together, on a plain and on a tax token, plus each template
+const GOLDEN_CASES: Record<string, ContractDetailsInput> = {
+  standard: BASE_DETAILS,
+  ...Object.fromEntries(ALL_FEATURES.map(feature => [`standard-${toCaseName(feature)}`, { ...BASE_DETAILS, features: [feature] }])),
+  'standard-all-features': { ...BASE_DETAILS, features: ALL_FEATURES },
+  tax: TAX_DETAILS,
+  ...Object.fromEntries(ALL_FEATURES.map(feature => [`tax-${toCaseName(feature)}`, { ...TAX_DETAILS, features: [feature] }])),
+  'tax-all-features': { ...TAX_DETAILS, features: ALL_FEATURES },
+  'tax-decimals-and-limits': {
+    ...TAX_DETAILS,
+    decimals: 9,
+    limits: { maxTransaction: { mode: 'percent', value: '2' }, maxWallet: { mode: 'amount', value: '30000' } },
+  },
+  reflection: { ...BASE_DETAILS, template: 'reflection', reflectionFee: 2 },
+  'reflection-tax-anti-bot': { ...TAX_DETAILS, template: 'reflection', reflectionFee: 2, features: ANTI_BOT_FEATURES },
+  dividend: { ...TAX_DETAILS, template: 'dividend', taxDistribution: DIVIDEND_DISTRIBUTION },
+  allocations: { ...BASE_DETAILS, allocations: VESTED_ALLOCATIONS },
+  'upgradeable-uups': { ...TAX_DETAILS, upgradeable: 'uups', features: ['pausable', 'mintable'] },
+  'upgradeable-transparent': { ...BASE_DETAILS, upgradeable: 'transparent', features: ['burnable'] },
+};
+
+// Pairs whose modules meet in the same hooks, constructor or initializer
+const PAIR_CASES: Record<string, ContractDetailsInput> = {
+  'pair-pausable-anti-bot': { ...BASE_DETAILS, features: ['pausable', ...ANTI_BOT_FEATURES] },
+  'pair-tax-pausable-anti-bot': { ...TAX_DETAILS, features: ['pausable', ...ANTI_BOT_FEATURES] },
+  'pair-access-control-mintable-pausable': { ...TAX_DETAILS, features: ['access control', 'mintable', 'pausable'] },
+  'pair-capped-mintable': { ...BASE_DETAILS, features: ['capped supply', 'mintable'] },
+  'pair-tax-reflection': { ...TAX_DETAILS, template: 'reflection', reflectionFee: 2 },
+  'pair-upgradeable-uups-tax-anti-bot': { ...TAX_DETAILS, upgradeable: 'uups', features: ANTI_BOT_FEATURES },
+  'pair-upgradeable-transparent-tax': { ...TAX_DETAILS, upgradeable: 'transparent' },
+  'pair-dividend-allocations': { ...TAX_DETAILS, template: 'dividend', taxDistribution: DIVIDEND_DISTRIBUTION, allocations: VESTED_ALLOCATIONS },
+  'pair-allocations-tax-anti-bot': { ...TAX_DETAILS, features: ANTI_BOT_FEATURES, allocations: VESTED_ALLOCATIONS },
+};
+
+// Combinations the builder refuses, with the problem it reports for each
+const CONFLICTING_CASES: Array<[string, ContractDetailsInput, string]> = [
+  ...REFLECTION_INCOMPATIBLE_FEATURES.map((feature): [string, ContractDetailsInput, string] => [
+    `reflection with ${feature}`,
+    { ...BASE_DETAILS, template: 'reflection', reflectionFee: 2, features: [feature] },
+    `"reflection" cannot be combined with "${feature}"`,
+  ]),
+  ['a dividend token without a tax', { ...BASE_DETAILS, template: 'dividend', taxDistribution: DIVIDEND_DISTRIBUTION }, 'set a tax above 0'],
+  ['a dividends share on a standard token', { ...TAX_DETAILS, taxDistribution: DIVIDEND_DISTRIBUTION }, 'Only dividend tokens can have a dividends share'],
+  ['the upgradeable feature without a proxy type', { ...BASE_DETAILS, features: ['upgradeable'] }, 'Choose a proxy type'],
+  ['an unknown feature', { ...BASE_DETAILS, features: ['pausable', 'rebase'] }, 'Unknown feature "rebase"'],
+];
+
+describe('generateTokenContract golden files', () => {
+  it.each(Object.entries({ ...GOLDEN_CASES, ...PAIR_CASES }))('%s', async (caseName, details) => {
+    const { source } = generateTokenContract(details);
+    const goldenFile = path.join(GOLDEN_DIR, `${caseName}.sol`);
+    if (UPDATE_GOLDEN) {
+      await fs.outputFile(goldenFile, source);
+    }
+    expect(await fs.pathExists(goldenFile), `${goldenFile} is missing, run with UPDATE_GOLDEN=1`).toBe(true);
+    expect(source).toBe(await fs.readFile(goldenFile, 'utf8'));
+  });
+
+  it('has no golden files without a case', async () => {
+    const files = await fs.readdir(GOLDEN_DIR);
+    const stale = files.filter(file => !(path.basename(file, '.sol') in GOLDEN_CASES || path.basename(file, '.sol') in PAIR_CASES));
+    if (UPDATE_GOLDEN) {
+      await Promise.all(stale.map(file => fs.remove(path.join(GOLDEN_DIR, file))));
+      return;
+    }
+    expect(stale).toEqual([]);
+  });
+});
+
+describe('generateTokenContract conflicts', () => {
+  it.each(CONFLICTING_CASES)('rejects %s', (_, details, problem) => {
+    let error: unknown;
+    try {
+      generateTokenContract(details);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(TokenBuildError);
+    expect((error as TokenBuildError).conflicts).toEqual(expect.arrayContaining([expect.stringContaining(problem)]));
+  });
+});
@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {VestingWallet} from "@openzeppelin/contracts/finance/VestingWallet.sol";
+
+contract GoldenToken is ERC20, Ownable {
+    bool public tradingOpen = false;
+    uint256 public launchBlock;
+    mapping(address => bool) private _isExcludedFromFees;
+    mapping(address => bool) private automatedMarketMakerPairs;
+    uint256 public maxTransactionAmount;
+    uint256 public maxWallet;
+    mapping(address => bool) private _isExcludedFromLimits;
+    address[] public allocationWallets;
+
+    event ExcludeFromFees(address indexed account, bool isExcluded);
+    event SetAutomatedMarketMakerPair(address indexed pair, bool indexed value);
+    event ExcludeFromLimits(address indexed account, bool isExcluded);
+    event MaxTransactionAmountUpdated(uint256 maxTransactionAmount);
+    event MaxWalletUpdated(uint256 maxWallet);
+    event AllocationDistributed(string allocation, address indexed wallet, uint256 amount, bool vested);
+
+    constructor(address initialOwner)
+        ERC20("Golden Token", "GOLD")
+        Ownable()
+    {
+        _transferOwnership(initialOwner);
+        _isExcludedFromFees[initialOwner] = true;
+        maxTransactionAmount = 1000000 * 10 ** decimals() * 100 / 10000;
+        maxWallet = 1000000 * 10 ** decimals() * 100 / 10000;
+        _isExcludedFromLimits[initialOwner] = true;
+        _isExcludedFromLimits[address(this)] = true;
+        _isExcludedFromLimits[address(0xdead)] = true;
+        uint256 allocationSupply = 1000000 * 10 ** decimals();
+        _mint(address(this), allocationSupply);
+        _distributeAllocation("Team", address(new GoldenTokenVestingWallet("Team", 0x1000000000000000000000000000000000000001, uint64(block.timestamp + 30 days), uint64(365 days))), allocationSupply * 1000 / 10000, true);
+        _distributeAllocation("Liquidity", initialOwner, balanceOf(address(this)), false);
+    }
+
+    function openTrading() external onlyOwner {
+        if (!tradingOpen) {
+            launchBlock = block.number;
+        }
+        tradingOpen = true;
+    }
+
+    function setAutomatedMarketMakerPair(address pair, bool value) public onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit SetAutomatedMarketMakerPair(pair, value);
+    }
+
+    function excludeFromFees(address account, bool excluded) external onlyOwner {
+        _isExcludedFromFees[account] = excluded;
+        emit ExcludeFromFees(account, excluded);
+    }
+
+    function setMaxTransactionAmount(uint256 newMaxTransactionAmount) external onlyOwner {
+        require(newMaxTransactionAmount >= maxTransactionAmount, "Max transaction can only be raised");
+        maxTransactionAmount = newMaxTransactionAmount;
+        emit MaxTransactionAmountUpdated(newMaxTransactionAmount);
+    }
+
+    function setMaxWallet(uint256 newMaxWallet) external onlyOwner {
+        require(newMaxWallet >= maxWallet, "Max wallet can only be raised");
+        maxWallet = newMaxWallet;
+        emit MaxWalletUpdated(newMaxWallet);
+    }
+
+    function removeTokensLimits() external onlyOwner {
+        maxTransactionAmount = type(uint256).max;
+        maxWallet = type(uint256).max;
+        emit MaxTransactionAmountUpdated(maxTransactionAmount);
+        emit MaxWalletUpdated(maxWallet);
+    }
+
+    function excludeFromLimits(address account, bool excluded) external onlyOwner {
+        _isExcludedFromLimits[account] = excluded;
+        emit ExcludeFromLimits(account, excluded);
+    }
+
+    function isExcludedFromLimits(address account) public view returns (bool) {
+        return _isExcludedFromLimits[account];
+    }
+
+    function _distributeAllocation(string memory allocation, address wallet, uint256 amount, bool vested) private {
+        if (vested) {
+            _isExcludedFromFees[wallet] = true;
+            _isExcludedFromLimits[wallet] = true;
+        }
+        allocationWallets.push(wallet);
+        super._transfer(address(this), wallet, amount);
+        emit AllocationDistributed(allocation, wallet, amount, vested);
+    }
+
+    function getAllocationWallets() external view returns (address[] memory) {
+        return allocationWallets;
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        if (amount == 0) {
+            super._transfer(from, to, 0);
+            return;
+        }
+
+        if (!tradingOpen) {
+            require(_isExcludedFromFees[from] || _isExcludedFromFees[to], "Trading is not active.");
+        }
+
+        // Check transaction limits, transfers from or to an excluded account are not limited
+        if (!_isExcludedFromLimits[from] && !_isExcludedFromLimits[to]) {
+            if (automatedMarketMakerPairs[from]) {
+                require(amount <= maxTransactionAmount, "Buy transfer amount exceeds the maxTransactionAmount.");
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+            else if (automatedMarketMakerPairs[to]) {
+                require(amount <= maxTransactionAmount, "Sell transfer amount exceeds the maxTransactionAmount.");
+            }
+            else {
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+        }
+
+        super._transfer(from, to, amount);
+    }
+}
+
+// Holds one allocation of the token and releases it to the beneficiary
+contract GoldenTokenVestingWallet is VestingWallet {
+    string public allocation;
+
+    constructor(string memory allocation_, address beneficiaryAddress, uint64 startTimestamp, uint64 durationSeconds)
+        VestingWallet(beneficiaryAddress, startTimestamp, durationSeconds)
+    {
+        allocation = allocation_;
+    }
+}
@@ -0,0 +1,630 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+// Uniswap Router Interface for token swaps
+interface IUniswapV2Router02 {
+    function factory() external pure returns (address);
+    function WETH() external pure returns (address);
+    function swapExactTokensForETHSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external;
+    function swapExactETHForTokensSupportingFeeOnTransferTokens(
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable;
+    function addLiquidityETH(
+        address token,
+        uint256 amountTokenDesired,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity);
+}
+
+contract GoldenToken is ERC20, Ownable {
+    bool public tradingOpen = false;
+    uint256 public launchBlock;
+    mapping(address => bool) private _isExcludedFromFees;
+    mapping(address => bool) private automatedMarketMakerPairs;
+    uint256 public maxTransactionAmount;
+    uint256 public maxWallet;
+    mapping(address => bool) private _isExcludedFromLimits;
+    uint256 public constant MAX_TAX = 50;
+    uint256 public buyTax = 5;
+    uint256 public sellTax = 5;
+    uint256 public constant FEE_DENOMINATOR = 10000;
+    uint256 public marketingShare = 5000;
+    uint256 public liquidityShare = 0;
+    uint256 public burnShare = 0;
+    uint256 public devShare = 0;
+    uint256 public treasuryShare = 0;
+    uint256 public dividendShare = 5000;
+    address public marketingWallet;
+    address public devWallet;
+    address public treasuryWallet;
+    address private deployerWallet;
+    IUniswapV2Router02 public uniswapV2Router;
+    address public uniswapV2Pair;
+    bool private swapping;
+    uint256 public swapTokensAtAmount;
+    GoldenTokenDividendTracker public dividendTracker;
+    uint256 public gasForProcessing = 300000;
+    mapping(address => bool) private _isExcludedFromDividends;
+
+    event ExcludeFromFees(address indexed account, bool isExcluded);
+    event SetAutomatedMarketMakerPair(address indexed pair, bool indexed value);
+    event ExcludeFromLimits(address indexed account, bool isExcluded);
+    event MaxTransactionAmountUpdated(uint256 maxTransactionAmount);
+    event MaxWalletUpdated(uint256 maxWallet);
+    event FeeDistributionUpdated(uint256 marketingShare, uint256 liquidityShare, uint256 burnShare, uint256 devShare, uint256 treasuryShare, uint256 dividendShare);
+    event DividendTrackerSet(address indexed tracker);
+    event ExcludeFromDividends(address indexed account, bool isExcluded);
+    event GasForProcessingUpdated(uint256 newGasForProcessing);
+    event ProcessedDividendTracker(uint256 iterations, uint256 claims, uint256 lastProcessedIndex, bool indexed automatic);
+
+    constructor(address initialOwner)
+        ERC20("Golden Token", "GOLD")
+        Ownable()
+    {
+        _transferOwnership(initialOwner);
+        _isExcludedFromFees[initialOwner] = true;
+        maxTransactionAmount = 1000000 * 10 ** decimals() * 100 / 10000;
+        maxWallet = 1000000 * 10 ** decimals() * 100 / 10000;
+        _isExcludedFromLimits[initialOwner] = true;
+        _isExcludedFromLimits[address(this)] = true;
+        _isExcludedFromLimits[address(0xdead)] = true;
+        marketingWallet = initialOwner;
+        devWallet = initialOwner;
+        treasuryWallet = initialOwner;
+        deployerWallet = initialOwner;
+        swapTokensAtAmount = 1000000 * 10 ** decimals() * 1 / 100; // 1% of supply
+        _isExcludedFromDividends[address(this)] = true;
+        _isExcludedFromDividends[address(0xdead)] = true;
+        _mint(initialOwner, 1000000 * 10 ** decimals());
+    }
+
+    function openTrading() external onlyOwner {
+        require(address(uniswapV2Router) != address(0), "Router not set");
+        if (!tradingOpen) {
+            launchBlock = block.number;
+        }
+        tradingOpen = true;
+    }
+
+    function setAutomatedMarketMakerPair(address pair, bool value) public onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit SetAutomatedMarketMakerPair(pair, value);
+    }
+
+    function excludeFromFees(address account, bool excluded) external onlyOwner {
+        _isExcludedFromFees[account] = excluded;
+        emit ExcludeFromFees(account, excluded);
+    }
+
+    function setMaxTransactionAmount(uint256 newMaxTransactionAmount) external onlyOwner {
+        require(newMaxTransactionAmount >= maxTransactionAmount, "Max transaction can only be raised");
+        maxTransactionAmount = newMaxTransactionAmount;
+        emit MaxTransactionAmountUpdated(newMaxTransactionAmount);
+    }
+
+    function setMaxWallet(uint256 newMaxWallet) external onlyOwner {
+        require(newMaxWallet >= maxWallet, "Max wallet can only be raised");
+        maxWallet = newMaxWallet;
+        emit MaxWalletUpdated(newMaxWallet);
+    }
+
+    function removeTokensLimits() external onlyOwner {
+        maxTransactionAmount = type(uint256).max;
+        maxWallet = type(uint256).max;
+        emit MaxTransactionAmountUpdated(maxTransactionAmount);
+        emit MaxWalletUpdated(maxWallet);
+    }
+
+    function excludeFromLimits(address account, bool excluded) external onlyOwner {
+        _isExcludedFromLimits[account] = excluded;
+        emit ExcludeFromLimits(account, excluded);
+    }
+
+    function isExcludedFromLimits(address account) public view returns (bool) {
+        return _isExcludedFromLimits[account];
+    }
+
+    // Called once after deployment: routers differ per chain, keeping them out of the constructor
+    // keeps the creation code and with it the CREATE2 address the same on every chain
+    function setUniswapV2Router(address router) external onlyOwner {
+        require(address(uniswapV2Router) == address(0), "Router already set");
+        require(router != address(0), "Router cannot be zero address");
+        uniswapV2Router = IUniswapV2Router02(router);
+    }
+
+    function setBuyTax(uint256 newBuyTax) public onlyOwner {
+        require(newBuyTax <= MAX_TAX, "Tax cannot exceed 50%");
+        buyTax = newBuyTax;
+    }
+
+    function setSellTax(uint256 newSellTax) public onlyOwner {
+        require(newSellTax <= MAX_TAX, "Tax cannot exceed 50%");
+        sellTax = newSellTax;
+    }
+
+    function setTaxes(uint256 newBuyTax, uint256 newSellTax) public onlyOwner {
+        require(newBuyTax <= MAX_TAX && newSellTax <= MAX_TAX, "Tax cannot exceed 50%");
+        buyTax = newBuyTax;
+        sellTax = newSellTax;
+    }
+
+    function setMarketingWallet(address _marketingWallet) external onlyOwner {
+        require(_marketingWallet != address(0), "Marketing wallet cannot be zero address");
+        marketingWallet = _marketingWallet;
+    }
+
+    function setDevWallet(address _devWallet) external onlyOwner {
+        require(_devWallet != address(0), "Dev wallet cannot be zero address");
+        devWallet = _devWallet;
+    }
+
+    function setTreasuryWallet(address _treasuryWallet) external onlyOwner {
+        require(_treasuryWallet != address(0), "Treasury wallet cannot be zero address");
+        treasuryWallet = _treasuryWallet;
+    }
+
+    function setFeeDistribution(
+        uint256 _marketingShare,
+        uint256 _liquidityShare,
+        uint256 _burnShare,
+        uint256 _devShare,
+        uint256 _treasuryShare,
+        uint256 _dividendShare
+    ) external onlyOwner {
+        require(
+            _marketingShare + _liquidityShare + _burnShare + _devShare + _treasuryShare + _dividendShare == FEE_DENOMINATOR,
+            "Fee shares must add up to 100%"
+        );
+        marketingShare = _marketingShare;
+        liquidityShare = _liquidityShare;
+        burnShare = _burnShare;
+        devShare = _devShare;
+        treasuryShare = _treasuryShare;
+        dividendShare = _dividendShare;
+        emit FeeDistributionUpdated(_marketingShare, _liquidityShare, _burnShare, _devShare, _treasuryShare, _dividendShare);
+    }
+
+    function clearStuckTheEth() external {
+        require(_msgSender() == deployerWallet);
+        require(address(this).balance > 0, "Token: no ETH to clear");
+        payable(msg.sender).transfer(address(this).balance);
+    }
+
+    function swapTokensForEth(uint256 tokenAmount) private {
+        // Generate the uniswap pair path of token -> WETH
+        address[] memory path = new address[](2);
+        path[0] = address(this);
+        path[1] = uniswapV2Router.WETH();
+
+        _approve(address(this), address(uniswapV2Router), tokenAmount);
+
+        // Make the swap
+        uniswapV2Router.swapExactTokensForETHSupportingFeeOnTransferTokens(
+            tokenAmount,
+            0, // Accept any amount of ETH
+            path,
+            address(this), // Split by swapBack
+            block.timestamp
+        );
+    }
+
+    function addLiquidity(uint256 tokenAmount, uint256 ethAmount) private {
+        _approve(address(this), address(uniswapV2Router), tokenAmount);
+
+        // LP tokens go to the owner, or are burned once ownership is renounced
+        uniswapV2Router.addLiquidityETH{value: ethAmount}(
+            address(this),
+            tokenAmount,
+            0,
+            0,
+            owner(),
+            block.timestamp
+        );
+    }
+
+    // Receives ETH from the router during swaps
+    receive() external payable {}
+
+    function swapBack(uint256 tokens) private {
+        uint256 contractBalance = balanceOf(address(this));
+
+        if (contractBalance == 0 || tokens == 0) {
+            return;
+        }
+
+        uint256 tokensToSwap = tokens > contractBalance ? contractBalance : tokens;
+
+        if (tokensToSwap > swapTokensAtAmount) {
+            tokensToSwap = swapTokensAtAmount;
+        }
+
+        // Burned fees never reach the contract, so its balance is split over the remaining shares
+        uint256 totalShares = marketingShare + liquidityShare + devShare + treasuryShare + dividendShare;
+        if (tokensToSwap == 0 || totalShares == 0) {
+            return;
+        }
+
+        // Half of the liquidity share stays in tokens and is paired with the ETH from the other half
+        uint256 liquidityTokens = tokensToSwap * liquidityShare / totalShares / 2;
+        uint256 initialETHBalance = address(this).balance;
+        swapTokensForEth(tokensToSwap - liquidityTokens);
+        uint256 ethBalance = address(this).balance - initialETHBalance;
+
+        // Shares of the swapped ETH in half basis points, the liquidity share only swapped half its tokens
+        uint256 ethShares = totalShares * 2 - liquidityShare;
+        uint256 ethForLiquidity = ethBalance * liquidityShare / ethShares;
+        uint256 ethForDev = ethBalance * devShare * 2 / ethShares;
+        uint256 ethForTreasury = ethBalance * treasuryShare * 2 / ethShares;
+        uint256 ethForDividends = ethBalance * dividendShare * 2 / ethShares;
+        uint256 ethForMarketing = ethBalance - ethForLiquidity - ethForDev - ethForTreasury - ethForDividends;
+
+        if (liquidityTokens > 0 && ethForLiquidity > 0) {
+            addLiquidity(liquidityTokens, ethForLiquidity);
+        }
+
+        // Without a tracker or holders to pay, the dividend share goes to marketing
+        if (ethForDividends > 0 && !sendDividends(ethForDividends)) {
+            ethForMarketing += ethForDividends;
+        }
+
+        // A wallet that rejects ETH must not block transfers, its share stays claimable via clearStuckTheEth
+        bool success;
+        if (ethForDev > 0) {
+            (success, ) = payable(devWallet).call{value: ethForDev}("");
+        }
+        if (ethForTreasury > 0) {
+            (success, ) = payable(treasuryWallet).call{value: ethForTreasury}("");
+        }
+        if (ethForMarketing > 0) {
+            (success, ) = payable(marketingWallet).call{value: ethForMarketing}("");
+        }
+    }
+
+    // Called once after deployment, the owner's balance is synced and other holders on their next transfer
+    function setDividendTracker(address tracker) external onlyOwner {
+        require(address(dividendTracker) == address(0), "Dividend tracker already set");
+        require(GoldenTokenDividendTracker(tracker).token() == address(this), "Tracker belongs to another token");
+        dividendTracker = GoldenTokenDividendTracker(tracker);
+        _isExcludedFromDividends[tracker] = true;
+        _syncDividendBalance(owner());
+        emit DividendTrackerSet(tracker);
+    }
+
+    // Pairs and excluded accounts hold no dividend shares
+    function _syncDividendBalance(address account) private {
+        if (account == address(0) || _isExcludedFromDividends[account]) {
+            return;
+        }
+        dividendTracker.setBalance(account, automatedMarketMakerPairs[account] ? 0 : balanceOf(account));
+    }
+
+    function excludeFromDividends(address account, bool excluded) external onlyOwner {
+        require(address(dividendTracker) != address(0), "Dividend tracker not set");
+        _isExcludedFromDividends[account] = excluded;
+        if (excluded) {
+            dividendTracker.setBalance(account, 0);
+        } else {
+            _syncDividendBalance(account);
+        }
+        emit ExcludeFromDividends(account, excluded);
+    }
+
+    function isExcludedFromDividends(address account) public view returns (bool) {
+        return _isExcludedFromDividends[account];
+    }
+
+    function updateGasForProcessing(uint256 newGasForProcessing) external onlyOwner {
+        require(
+            newGasForProcessing >= 200000 && newGasForProcessing <= 500000,
+            "Gas for processing must be between 200000 and 500000"
+        );
+        gasForProcessing = newGasForProcessing;
+        emit GasForProcessingUpdated(newGasForProcessing);
+    }
+
+    function updateClaimWait(uint256 newClaimWait) external onlyOwner {
+        dividendTracker.updateClaimWait(newClaimWait);
+    }
+
+    function withdrawableDividendOf(address account) public view returns (uint256) {
+        if (address(dividendTracker) == address(0)) {
+            return 0;
+        }
+        return dividendTracker.withdrawableDividendOf(account);
+    }
+
+    function claim() external {
+        require(address(dividendTracker) != address(0), "Dividend tracker not set");
+        dividendTracker.processAccount(_msgSender(), false);
+    }
+
+    // Anyone can pay out pending dividends when automatic processing falls behind
+    function processDividendTracker(uint256 gas) external {
+        require(address(dividendTracker) != address(0), "Dividend tracker not set");
+        (uint256 iterations, uint256 claims, uint256 lastProcessedIndex) = dividendTracker.process(gas);
+        emit ProcessedDividendTracker(iterations, claims, lastProcessedIndex, false);
+    }
+
+    function sendDividends(uint256 ethAmount) private returns (bool) {
+        if (address(dividendTracker) == address(0) || dividendTracker.totalShares() == 0) {
+            return false;
+        }
+        try dividendTracker.distributeDividends{value: ethAmount}() {
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        if (amount == 0) {
+            super._transfer(from, to, 0);
+            return;
+        }
+
+        if (!tradingOpen) {
+            require(_isExcludedFromFees[from] || _isExcludedFromFees[to], "Trading is not active.");
+        }
+
+        // Check transaction limits, transfers from or to an excluded account are not limited
+        if (!_isExcludedFromLimits[from] && !_isExcludedFromLimits[to]) {
+            if (automatedMarketMakerPairs[from]) {
+                require(amount <= maxTransactionAmount, "Buy transfer amount exceeds the maxTransactionAmount.");
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+            else if (automatedMarketMakerPairs[to]) {
+                require(amount <= maxTransactionAmount, "Sell transfer amount exceeds the maxTransactionAmount.");
+            }
+            else {
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+        }
+
+        // Indicates if fee should be deducted from transfer
+        bool takeFee = !swapping;
+
+        // If any account belongs to _isExcludedFromFee then remove the fee
+        if (_isExcludedFromFees[from] || _isExcludedFromFees[to]) {
+            takeFee = false;
+        }
+
+        // Calculate fees
+        uint256 fees = 0;
+        if (takeFee) {
+            if (automatedMarketMakerPairs[to]) {
+                // Sell transfer
+                fees = amount * sellTax / 100;
+            } else if (automatedMarketMakerPairs[from]) {
+                // Buy transfer
+                fees = amount * buyTax / 100;
+            }
+
+            if (fees > 0) {
+                // The burn share is destroyed right away, the rest is collected for swapBack
+                uint256 burnFees = fees * burnShare / FEE_DENOMINATOR;
+                if (burnFees > 0) {
+                    _burn(from, burnFees);
+                }
+                if (fees > burnFees) {
+                    super._transfer(from, address(this), fees - burnFees);
+                }
+                amount = amount - fees;
+            }
+        }
+
+        // Process accumulated fees
+        uint256 contractTokenBalance = balanceOf(address(this));
+        bool canSwap = contractTokenBalance > swapTokensAtAmount && !swapping;
+
+        if (canSwap && !automatedMarketMakerPairs[from] && !_isExcludedFromFees[from] && !_isExcludedFromFees[to]) {
+            swapping = true;
+            swapBack(swapTokensAtAmount);
+            swapping = false;
+        }
+
+        // Pay out dividends to a few holders, a failure must never block the transfer
+        if (!swapping && address(dividendTracker) != address(0)) {
+            try dividendTracker.process(gasForProcessing) returns (uint256 iterations, uint256 claims, uint256 lastProcessedIndex) {
+                emit ProcessedDividendTracker(iterations, claims, lastProcessedIndex, true);
+            } catch {}
+        }
+
+        super._transfer(from, to, amount);
+    }
+
+    function _afterTokenTransfer(address from, address to, uint256 amount) internal override {
+        super._afterTokenTransfer(from, to, amount);
+
+        if (address(dividendTracker) != address(0)) {
+            _syncDividendBalance(from);
+            _syncDividendBalance(to);
+        }
+    }
+}
+
+// Pays out native currency to token holders pro rata
+contract GoldenTokenDividendTracker {
+    uint256 private constant MAGNITUDE = 2**128;
+
+    address public immutable token;
+
+    uint256 public immutable minimumTokenBalanceForDividends;
+    uint256 public claimWait = 3600;
+
+    uint256 public totalShares;
+    uint256 public totalDividendsDistributed;
+    uint256 public totalDividendsWithdrawn;
+    uint256 private magnifiedDividendPerShare;
+
+    mapping(address => uint256) public sharesOf;
+    mapping(address => int256) private magnifiedDividendCorrections;
+    mapping(address => uint256) private withdrawnDividends;
+    mapping(address => uint256) public lastClaimTimes;
+
+    // Holders with shares, iterated by process()
+    address[] private holders;
+    mapping(address => uint256) private holderIndexes;
+    uint256 public lastProcessedIndex;
+
+    event DividendsDistributed(uint256 amount);
+    event DividendWithdrawn(address indexed to, uint256 amount);
+    event Claim(address indexed account, uint256 amount, bool indexed automatic);
+    event ClaimWaitUpdated(uint256 newClaimWait);
+
+    modifier onlyToken() {
+        require(msg.sender == token, "Only the token can call this");
+        _;
+    }
+
+    constructor(address token_) {
+        require(token_ != address(0), "Token cannot be zero address");
+        token = token_;
+        minimumTokenBalanceForDividends = 0 * 10 ** 18;
+    }
+
+    function _rewardBalance() private view returns (uint256) {
+        return address(this).balance;
+    }
+
+    // Everything received since the last distribution is spread over the current shares.
+    // Without shares the amount is kept and included in the next distribution.
+    function distributeDividends() external payable onlyToken {
+        uint256 amount = _rewardBalance() - (totalDividendsDistributed - totalDividendsWithdrawn);
+        if (amount == 0 || totalShares == 0) {
+            return;
+        }
+        magnifiedDividendPerShare += amount * MAGNITUDE / totalShares;
+        totalDividendsDistributed += amount;
+        emit DividendsDistributed(amount);
+    }
+
+    function accumulativeDividendOf(address account) public view returns (uint256) {
+        return uint256(int256(magnifiedDividendPerShare * sharesOf[account]) + magnifiedDividendCorrections[account]) / MAGNITUDE;
+    }
+
+    function withdrawableDividendOf(address account) public view returns (uint256) {
+        return accumulativeDividendOf(account) - withdrawnDividends[account];
+    }
+
+    function withdrawnDividendOf(address account) public view returns (uint256) {
+        return withdrawnDividends[account];
+    }
+
+    function getNumberOfHolders() external view returns (uint256) {
+        return holders.length;
+    }
+
+    function updateClaimWait(uint256 newClaimWait) external onlyToken {
+        require(newClaimWait >= 3600 && newClaimWait <= 86400, "Claim wait must be between 1 and 24 hours");
+        claimWait = newClaimWait;
+        emit ClaimWaitUpdated(newClaimWait);
+    }
+
+    // Balances below the minimum hold no shares
+    function setBalance(address account, uint256 balance) external onlyToken {
+        uint256 newShares = balance >= minimumTokenBalanceForDividends ? balance : 0;
+        uint256 currentShares = sharesOf[account];
+
+        if (newShares > currentShares) {
+            uint256 added = newShares - currentShares;
+            magnifiedDividendCorrections[account] -= int256(magnifiedDividendPerShare * added);
+            totalShares += added;
+        } else if (newShares < currentShares) {
+            uint256 removed = currentShares - newShares;
+            magnifiedDividendCorrections[account] += int256(magnifiedDividendPerShare * removed);
+            totalShares -= removed;
+        }
+        sharesOf[account] = newShares;
+
+        if (newShares > 0 && holderIndexes[account] == 0) {
+            holders.push(account);
+            holderIndexes[account] = holders.length;
+        } else if (newShares == 0 && holderIndexes[account] != 0) {
+            uint256 index = holderIndexes[account] - 1;
+            address last = holders[holders.length - 1];
+            holders[index] = last;
+            holderIndexes[last] = index + 1;
+            holders.pop();
+            delete holderIndexes[account];
+        }
+    }
+
+    function processAccount(address account, bool automatic) external onlyToken returns (bool) {
+        return _processAccount(account, automatic);
+    }
+
+    // Pay holders in turn until the gas budget is spent, skipping those paid within claimWait
+    function process(uint256 gas) external onlyToken returns (uint256 iterations, uint256 claims, uint256) {
+        uint256 numberOfHolders = holders.length;
+        if (numberOfHolders == 0) {
+            return (0, 0, lastProcessedIndex);
+        }
+
+        uint256 index = lastProcessedIndex;
+        uint256 gasUsed = 0;
+        uint256 gasLeft = gasleft();
+        while (gasUsed < gas && iterations < numberOfHolders) {
+            index++;
+            if (index >= numberOfHolders) {
+                index = 0;
+            }
+
+            address account = holders[index];
+            if (block.timestamp >= lastClaimTimes[account] + claimWait && _processAccount(account, true)) {
+                claims++;
+            }
+            iterations++;
+
+            uint256 newGasLeft = gasleft();
+            if (gasLeft > newGasLeft) {
+                gasUsed += gasLeft - newGasLeft;
+            }
+            gasLeft = newGasLeft;
+        }
+
+        lastProcessedIndex = index;
+        return (iterations, claims, lastProcessedIndex);
+    }
+
+    function _processAccount(address account, bool automatic) private returns (bool) {
+        uint256 amount = withdrawableDividendOf(account);
+        if (amount == 0) {
+            return false;
+        }
+
+        withdrawnDividends[account] += amount;
+        totalDividendsWithdrawn += amount;
+        if (!_sendReward(account, amount)) {
+            // A holder that cannot receive keeps the dividend and can claim it later
+            withdrawnDividends[account] -= amount;
+            totalDividendsWithdrawn -= amount;
+            return false;
+        }
+
+        lastClaimTimes[account] = block.timestamp;
+        emit DividendWithdrawn(account, amount);
+        emit Claim(account, amount, automatic);
+        return true;
+    }
+
+    function _sendReward(address account, uint256 amount) private returns (bool) {
+        // Limited gas so a holder contract cannot make transfers of the token fail
+        (bool success, ) = payable(account).call{value: amount, gas: 3000}("");
+        return success;
+    }
+}
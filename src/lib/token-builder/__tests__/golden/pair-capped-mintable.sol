@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ERC20Capped} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
+
+contract GoldenToken is ERC20, Ownable, ERC20Capped {
+    bool public tradingOpen = false;
+    uint256 public launchBlock;
+    mapping(address => bool) private _isExcludedFromFees;
+    mapping(address => bool) private automatedMarketMakerPairs;
+    uint256 public maxTransactionAmount;
+    uint256 public maxWallet;
+    mapping(address => bool) private _isExcludedFromLimits;
+
+    event ExcludeFromFees(address indexed account, bool isExcluded);
+    event SetAutomatedMarketMakerPair(address indexed pair, bool indexed value);
+    event ExcludeFromLimits(address indexed account, bool isExcluded);
+    event MaxTransactionAmountUpdated(uint256 maxTransactionAmount);
+    event MaxWalletUpdated(uint256 maxWallet);
+
+    constructor(address initialOwner)
+        ERC20("Golden Token", "GOLD")
+        Ownable()
+        ERC20Capped(1000000 * 10 ** 18)
+    {
+        _transferOwnership(initialOwner);
+        _isExcludedFromFees[initialOwner] = true;
+        maxTransactionAmount = 1000000 * 10 ** decimals() * 100 / 10000;
+        maxWallet = 1000000 * 10 ** decimals() * 100 / 10000;
+        _isExcludedFromLimits[initialOwner] = true;
+        _isExcludedFromLimits[address(this)] = true;
+        _isExcludedFromLimits[address(0xdead)] = true;
+        _mint(initialOwner, 1000000 * 10 ** decimals());
+    }
+
+    function openTrading() external onlyOwner {
+        if (!tradingOpen) {
+            launchBlock = block.number;
+        }
+        tradingOpen = true;
+    }
+
+    function setAutomatedMarketMakerPair(address pair, bool value) public onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit SetAutomatedMarketMakerPair(pair, value);
+    }
+
+    function excludeFromFees(address account, bool excluded) external onlyOwner {
+        _isExcludedFromFees[account] = excluded;
+        emit ExcludeFromFees(account, excluded);
+    }
+
+    function setMaxTransactionAmount(uint256 newMaxTransactionAmount) external onlyOwner {
+        require(newMaxTransactionAmount >= maxTransactionAmount, "Max transaction can only be raised");
+        maxTransactionAmount = newMaxTransactionAmount;
+        emit MaxTransactionAmountUpdated(newMaxTransactionAmount);
+    }
+
+    function setMaxWallet(uint256 newMaxWallet) external onlyOwner {
+        require(newMaxWallet >= maxWallet, "Max wallet can only be raised");
+        maxWallet = newMaxWallet;
+        emit MaxWalletUpdated(newMaxWallet);
+    }
+
+    function removeTokensLimits() external onlyOwner {
+        maxTransactionAmount = type(uint256).max;
+        maxWallet = type(uint256).max;
+        emit MaxTransactionAmountUpdated(maxTransactionAmount);
+        emit MaxWalletUpdated(maxWallet);
+    }
+
+    function excludeFromLimits(address account, bool excluded) external onlyOwner {
+        _isExcludedFromLimits[account] = excluded;
+        emit ExcludeFromLimits(account, excluded);
+    }
+
+    function isExcludedFromLimits(address account) public view returns (bool) {
+        return _isExcludedFromLimits[account];
+    }
+
+    function mint(address to, uint256 amount) public onlyOwner {
+        _mint(to, amount);
+    }
+
+    function remainingMintableSupply() public view returns (uint256) {
+        return cap() - totalSupply();
+    }
+
+    function getSupplyCap() public view returns (uint256) {
+        return cap();
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        if (amount == 0) {
+            super._transfer(from, to, 0);
+            return;
+        }
+
+        if (!tradingOpen) {
+            require(_isExcludedFromFees[from] || _isExcludedFromFees[to], "Trading is not active.");
+        }
+
+        // Check transaction limits, transfers from or to an excluded account are not limited
+        if (!_isExcludedFromLimits[from] && !_isExcludedFromLimits[to]) {
+            if (automatedMarketMakerPairs[from]) {
+                require(amount <= maxTransactionAmount, "Buy transfer amount exceeds the maxTransactionAmount.");
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+            else if (automatedMarketMakerPairs[to]) {
+                require(amount <= maxTransactionAmount, "Sell transfer amount exceeds the maxTransactionAmount.");
+            }
+            else {
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+        }
+
+        super._transfer(from, to, amount);
+    }
+
+    function _mint(address account, uint256 amount) internal override(ERC20, ERC20Capped) {
+        super._mint(account, amount);
+    }
+}
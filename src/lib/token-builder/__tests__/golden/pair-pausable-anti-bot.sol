@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ERC20Pausable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol";
+
+contract GoldenToken is ERC20, Ownable, ERC20Pausable {
+    bool public tradingOpen = false;
+    uint256 public launchBlock;
+    mapping(address => bool) private _isExcludedFromFees;
+    mapping(address => bool) private automatedMarketMakerPairs;
+    uint256 public maxTransactionAmount;
+    uint256 public maxWallet;
+    mapping(address => bool) private _isExcludedFromLimits;
+    uint256 public sniperTaxBlocks = 2;
+    uint256 public sniperTax = 50;
+    uint256 public maxTradesPerBlock = 3;
+    mapping(uint256 => uint256) private _tradesInBlock;
+    uint256 public transferDelayBlocks = 1;
+    bool public transferDelayEnabled = true;
+    mapping(address => uint256) private _holderLastTransferBlock;
+    uint256 public blacklistWindowBlocks = 7200;
+    mapping(address => bool) public blacklisted;
+    uint256 public buyCooldown = 30;
+    mapping(address => uint256) private _lastBuyTimestamp;
+
+    event ExcludeFromFees(address indexed account, bool isExcluded);
+    event SetAutomatedMarketMakerPair(address indexed pair, bool indexed value);
+    event ExcludeFromLimits(address indexed account, bool isExcluded);
+    event MaxTransactionAmountUpdated(uint256 maxTransactionAmount);
+    event MaxWalletUpdated(uint256 maxWallet);
+    event BlacklistUpdated(address indexed account, bool isBlacklisted);
+
+    constructor(address initialOwner)
+        ERC20("Golden Token", "GOLD")
+        Ownable()
+    {
+        _transferOwnership(initialOwner);
+        _isExcludedFromFees[initialOwner] = true;
+        maxTransactionAmount = 1000000 * 10 ** decimals() * 100 / 10000;
+        maxWallet = 1000000 * 10 ** decimals() * 100 / 10000;
+        _isExcludedFromLimits[initialOwner] = true;
+        _isExcludedFromLimits[address(this)] = true;
+        _isExcludedFromLimits[address(0xdead)] = true;
+        _mint(initialOwner, 1000000 * 10 ** decimals());
+    }
+
+    function openTrading() external onlyOwner {
+        if (!tradingOpen) {
+            launchBlock = block.number;
+        }
+        tradingOpen = true;
+    }
+
+    function setAutomatedMarketMakerPair(address pair, bool value) public onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit SetAutomatedMarketMakerPair(pair, value);
+    }
+
+    function excludeFromFees(address account, bool excluded) external onlyOwner {
+        _isExcludedFromFees[account] = excluded;
+        emit ExcludeFromFees(account, excluded);
+    }
+
+    function setMaxTransactionAmount(uint256 newMaxTransactionAmount) external onlyOwner {
+        require(newMaxTransactionAmount >= maxTransactionAmount, "Max transaction can only be raised");
+        maxTransactionAmount = newMaxTransactionAmount;
+        emit MaxTransactionAmountUpdated(newMaxTransactionAmount);
+    }
+
+    function setMaxWallet(uint256 newMaxWallet) external onlyOwner {
+        require(newMaxWallet >= maxWallet, "Max wallet can only be raised");
+        maxWallet = newMaxWallet;
+        emit MaxWalletUpdated(newMaxWallet);
+    }
+
+    function removeTokensLimits() external onlyOwner {
+        maxTransactionAmount = type(uint256).max;
+        maxWallet = type(uint256).max;
+        emit MaxTransactionAmountUpdated(maxTransactionAmount);
+        emit MaxWalletUpdated(maxWallet);
+    }
+
+    function excludeFromLimits(address account, bool excluded) external onlyOwner {
+        _isExcludedFromLimits[account] = excluded;
+        emit ExcludeFromLimits(account, excluded);
+    }
+
+    function isExcludedFromLimits(address account) public view returns (bool) {
+        return _isExcludedFromLimits[account];
+    }
+
+    function disableSniperTax() external onlyOwner {
+        sniperTaxBlocks = 0;
+    }
+
+    function removeBlockLimit() external onlyOwner {
+        maxTradesPerBlock = type(uint256).max;
+    }
+
+    function disableTransferDelay() external onlyOwner {
+        transferDelayEnabled = false;
+    }
+
+    function blacklistActive() public view returns (bool) {
+        return !tradingOpen || block.number < launchBlock + blacklistWindowBlocks;
+    }
+
+    function setBlacklisted(address[] calldata accounts, bool value) external onlyOwner {
+        require(!value || blacklistActive(), "Blacklist window has expired");
+        for (uint256 i = 0; i < accounts.length; i++) {
+            require(!value || !automatedMarketMakerPairs[accounts[i]], "Cannot blacklist a pair");
+            blacklisted[accounts[i]] = value;
+            emit BlacklistUpdated(accounts[i], value);
+        }
+    }
+
+    function setBuyCooldown(uint256 newCooldown) external onlyOwner {
+        require(newCooldown <= buyCooldown, "Cooldown can only be lowered");
+        buyCooldown = newCooldown;
+    }
+
+    function pause() public onlyOwner {
+        _pause();
+    }
+
+    function unpause() public onlyOwner {
+        _unpause();
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        if (amount == 0) {
+            super._transfer(from, to, 0);
+            return;
+        }
+
+        if (!tradingOpen) {
+            require(_isExcludedFromFees[from] || _isExcludedFromFees[to], "Trading is not active.");
+        }
+
+        // Blacklisted wallets are stopped during the launch window only
+        if (blacklistActive()) {
+            require(!blacklisted[from] && !blacklisted[to], "Blacklisted");
+        }
+
+        // Buys right after launch pay the sniper tax
+        if (block.number < launchBlock + sniperTaxBlocks && automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) {
+            uint256 sniperFee = amount * sniperTax / 100;
+            _burn(from, sniperFee);
+            amount = amount - sniperFee;
+        }
+
+        // Limit pair trades per block
+        if (((automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) || (automatedMarketMakerPairs[to] && !_isExcludedFromFees[from]))) {
+            _tradesInBlock[block.number] += 1;
+            require(_tradesInBlock[block.number] <= maxTradesPerBlock, "Too many trades in this block");
+        }
+
+        // Transfer delay per transaction origin
+        if (transferDelayEnabled && ((automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) || (automatedMarketMakerPairs[to] && !_isExcludedFromFees[from]))) {
+            require(
+                block.number >= _holderLastTransferBlock[tx.origin] + transferDelayBlocks,
+                "Transfer delay enabled, try again later"
+            );
+            _holderLastTransferBlock[tx.origin] = block.number;
+        }
+
+        // Cooldown between buys
+        if (automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) {
+            require(block.timestamp >= _lastBuyTimestamp[to] + buyCooldown, "Buy cooldown active");
+            _lastBuyTimestamp[to] = block.timestamp;
+        }
+
+        // Check transaction limits, transfers from or to an excluded account are not limited
+        if (!_isExcludedFromLimits[from] && !_isExcludedFromLimits[to]) {
+            if (automatedMarketMakerPairs[from]) {
+                require(amount <= maxTransactionAmount, "Buy transfer amount exceeds the maxTransactionAmount.");
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+            else if (automatedMarketMakerPairs[to]) {
+                require(amount <= maxTransactionAmount, "Sell transfer amount exceeds the maxTransactionAmount.");
+            }
+            else {
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+        }
+
+        super._transfer(from, to, amount);
+    }
+
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal override(ERC20, ERC20Pausable) {
+        super._beforeTokenTransfer(from, to, amount);
+    }
+}
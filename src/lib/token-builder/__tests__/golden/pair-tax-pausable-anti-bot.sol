@@ -0,0 +1,430 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ERC20Pausable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol";
+
+// Uniswap Router Interface for token swaps
+interface IUniswapV2Router02 {
+    function factory() external pure returns (address);
+    function WETH() external pure returns (address);
+    function swapExactTokensForETHSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external;
+    function addLiquidityETH(
+        address token,
+        uint256 amountTokenDesired,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity);
+}
+
+contract GoldenToken is ERC20, Ownable, ERC20Pausable {
+    bool public tradingOpen = false;
+    uint256 public launchBlock;
+    mapping(address => bool) private _isExcludedFromFees;
+    mapping(address => bool) private automatedMarketMakerPairs;
+    uint256 public maxTransactionAmount;
+    uint256 public maxWallet;
+    mapping(address => bool) private _isExcludedFromLimits;
+    uint256 public constant MAX_TAX = 50;
+    uint256 public buyTax = 5;
+    uint256 public sellTax = 5;
+    uint256 public constant FEE_DENOMINATOR = 10000;
+    uint256 public marketingShare = 10000;
+    uint256 public liquidityShare = 0;
+    uint256 public burnShare = 0;
+    uint256 public devShare = 0;
+    uint256 public treasuryShare = 0;
+    address public marketingWallet;
+    address public devWallet;
+    address public treasuryWallet;
+    address private deployerWallet;
+    IUniswapV2Router02 public uniswapV2Router;
+    address public uniswapV2Pair;
+    bool private swapping;
+    uint256 public swapTokensAtAmount;
+    uint256 public sniperTaxBlocks = 2;
+    uint256 public sniperTax = 50;
+    uint256 public maxTradesPerBlock = 3;
+    mapping(uint256 => uint256) private _tradesInBlock;
+    uint256 public transferDelayBlocks = 1;
+    bool public transferDelayEnabled = true;
+    mapping(address => uint256) private _holderLastTransferBlock;
+    uint256 public blacklistWindowBlocks = 7200;
+    mapping(address => bool) public blacklisted;
+    uint256 public buyCooldown = 30;
+    mapping(address => uint256) private _lastBuyTimestamp;
+
+    event ExcludeFromFees(address indexed account, bool isExcluded);
+    event SetAutomatedMarketMakerPair(address indexed pair, bool indexed value);
+    event ExcludeFromLimits(address indexed account, bool isExcluded);
+    event MaxTransactionAmountUpdated(uint256 maxTransactionAmount);
+    event MaxWalletUpdated(uint256 maxWallet);
+    event FeeDistributionUpdated(uint256 marketingShare, uint256 liquidityShare, uint256 burnShare, uint256 devShare, uint256 treasuryShare);
+    event BlacklistUpdated(address indexed account, bool isBlacklisted);
+
+    constructor(address initialOwner)
+        ERC20("Golden Token", "GOLD")
+        Ownable()
+    {
+        _transferOwnership(initialOwner);
+        _isExcludedFromFees[initialOwner] = true;
+        maxTransactionAmount = 1000000 * 10 ** decimals() * 100 / 10000;
+        maxWallet = 1000000 * 10 ** decimals() * 100 / 10000;
+        _isExcludedFromLimits[initialOwner] = true;
+        _isExcludedFromLimits[address(this)] = true;
+        _isExcludedFromLimits[address(0xdead)] = true;
+        marketingWallet = initialOwner;
+        devWallet = initialOwner;
+        treasuryWallet = initialOwner;
+        deployerWallet = initialOwner;
+        swapTokensAtAmount = 1000000 * 10 ** decimals() * 1 / 100; // 1% of supply
+        _mint(initialOwner, 1000000 * 10 ** decimals());
+    }
+
+    function openTrading() external onlyOwner {
+        require(address(uniswapV2Router) != address(0), "Router not set");
+        if (!tradingOpen) {
+            launchBlock = block.number;
+        }
+        tradingOpen = true;
+    }
+
+    function setAutomatedMarketMakerPair(address pair, bool value) public onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit SetAutomatedMarketMakerPair(pair, value);
+    }
+
+    function excludeFromFees(address account, bool excluded) external onlyOwner {
+        _isExcludedFromFees[account] = excluded;
+        emit ExcludeFromFees(account, excluded);
+    }
+
+    function setMaxTransactionAmount(uint256 newMaxTransactionAmount) external onlyOwner {
+        require(newMaxTransactionAmount >= maxTransactionAmount, "Max transaction can only be raised");
+        maxTransactionAmount = newMaxTransactionAmount;
+        emit MaxTransactionAmountUpdated(newMaxTransactionAmount);
+    }
+
+    function setMaxWallet(uint256 newMaxWallet) external onlyOwner {
+        require(newMaxWallet >= maxWallet, "Max wallet can only be raised");
+        maxWallet = newMaxWallet;
+        emit MaxWalletUpdated(newMaxWallet);
+    }
+
+    function removeTokensLimits() external onlyOwner {
+        maxTransactionAmount = type(uint256).max;
+        maxWallet = type(uint256).max;
+        emit MaxTransactionAmountUpdated(maxTransactionAmount);
+        emit MaxWalletUpdated(maxWallet);
+    }
+
+    function excludeFromLimits(address account, bool excluded) external onlyOwner {
+        _isExcludedFromLimits[account] = excluded;
+        emit ExcludeFromLimits(account, excluded);
+    }
+
+    function isExcludedFromLimits(address account) public view returns (bool) {
+        return _isExcludedFromLimits[account];
+    }
+
+    // Called once after deployment: routers differ per chain, keeping them out of the constructor
+    // keeps the creation code and with it the CREATE2 address the same on every chain
+    function setUniswapV2Router(address router) external onlyOwner {
+        require(address(uniswapV2Router) == address(0), "Router already set");
+        require(router != address(0), "Router cannot be zero address");
+        uniswapV2Router = IUniswapV2Router02(router);
+    }
+
+    function setBuyTax(uint256 newBuyTax) public onlyOwner {
+        require(newBuyTax <= MAX_TAX, "Tax cannot exceed 50%");
+        buyTax = newBuyTax;
+    }
+
+    function setSellTax(uint256 newSellTax) public onlyOwner {
+        require(newSellTax <= MAX_TAX, "Tax cannot exceed 50%");
+        sellTax = newSellTax;
+    }
+
+    function setTaxes(uint256 newBuyTax, uint256 newSellTax) public onlyOwner {
+        require(newBuyTax <= MAX_TAX && newSellTax <= MAX_TAX, "Tax cannot exceed 50%");
+        buyTax = newBuyTax;
+        sellTax = newSellTax;
+    }
+
+    function setMarketingWallet(address _marketingWallet) external onlyOwner {
+        require(_marketingWallet != address(0), "Marketing wallet cannot be zero address");
+        marketingWallet = _marketingWallet;
+    }
+
+    function setDevWallet(address _devWallet) external onlyOwner {
+        require(_devWallet != address(0), "Dev wallet cannot be zero address");
+        devWallet = _devWallet;
+    }
+
+    function setTreasuryWallet(address _treasuryWallet) external onlyOwner {
+        require(_treasuryWallet != address(0), "Treasury wallet cannot be zero address");
+        treasuryWallet = _treasuryWallet;
+    }
+
+    function setFeeDistribution(
+        uint256 _marketingShare,
+        uint256 _liquidityShare,
+        uint256 _burnShare,
+        uint256 _devShare,
+        uint256 _treasuryShare
+    ) external onlyOwner {
+        require(
+            _marketingShare + _liquidityShare + _burnShare + _devShare + _treasuryShare == FEE_DENOMINATOR,
+            "Fee shares must add up to 100%"
+        );
+        marketingShare = _marketingShare;
+        liquidityShare = _liquidityShare;
+        burnShare = _burnShare;
+        devShare = _devShare;
+        treasuryShare = _treasuryShare;
+        emit FeeDistributionUpdated(_marketingShare, _liquidityShare, _burnShare, _devShare, _treasuryShare);
+    }
+
+    function clearStuckTheEth() external {
+        require(_msgSender() == deployerWallet);
+        require(address(this).balance > 0, "Token: no ETH to clear");
+        payable(msg.sender).transfer(address(this).balance);
+    }
+
+    function swapTokensForEth(uint256 tokenAmount) private {
+        // Generate the uniswap pair path of token -> WETH
+        address[] memory path = new address[](2);
+        path[0] = address(this);
+        path[1] = uniswapV2Router.WETH();
+
+        _approve(address(this), address(uniswapV2Router), tokenAmount);
+
+        // Make the swap
+        uniswapV2Router.swapExactTokensForETHSupportingFeeOnTransferTokens(
+            tokenAmount,
+            0, // Accept any amount of ETH
+            path,
+            address(this), // Split by swapBack
+            block.timestamp
+        );
+    }
+
+    function addLiquidity(uint256 tokenAmount, uint256 ethAmount) private {
+        _approve(address(this), address(uniswapV2Router), tokenAmount);
+
+        // LP tokens go to the owner, or are burned once ownership is renounced
+        uniswapV2Router.addLiquidityETH{value: ethAmount}(
+            address(this),
+            tokenAmount,
+            0,
+            0,
+            owner(),
+            block.timestamp
+        );
+    }
+
+    // Receives ETH from the router during swaps
+    receive() external payable {}
+
+    function swapBack(uint256 tokens) private {
+        uint256 contractBalance = balanceOf(address(this));
+
+        if (contractBalance == 0 || tokens == 0) {
+            return;
+        }
+
+        uint256 tokensToSwap = tokens > contractBalance ? contractBalance : tokens;
+
+        if (tokensToSwap > swapTokensAtAmount) {
+            tokensToSwap = swapTokensAtAmount;
+        }
+
+        // Burned fees never reach the contract, so its balance is split over the remaining shares
+        uint256 totalShares = marketingShare + liquidityShare + devShare + treasuryShare;
+        if (tokensToSwap == 0 || totalShares == 0) {
+            return;
+        }
+
+        // Half of the liquidity share stays in tokens and is paired with the ETH from the other half
+        uint256 liquidityTokens = tokensToSwap * liquidityShare / totalShares / 2;
+        uint256 initialETHBalance = address(this).balance;
+        swapTokensForEth(tokensToSwap - liquidityTokens);
+        uint256 ethBalance = address(this).balance - initialETHBalance;
+
+        // Shares of the swapped ETH in half basis points, the liquidity share only swapped half its tokens
+        uint256 ethShares = totalShares * 2 - liquidityShare;
+        uint256 ethForLiquidity = ethBalance * liquidityShare / ethShares;
+        uint256 ethForDev = ethBalance * devShare * 2 / ethShares;
+        uint256 ethForTreasury = ethBalance * treasuryShare * 2 / ethShares;
+        uint256 ethForMarketing = ethBalance - ethForLiquidity - ethForDev - ethForTreasury;
+
+        if (liquidityTokens > 0 && ethForLiquidity > 0) {
+            addLiquidity(liquidityTokens, ethForLiquidity);
+        }
+
+        // A wallet that rejects ETH must not block transfers, its share stays claimable via clearStuckTheEth
+        bool success;
+        if (ethForDev > 0) {
+            (success, ) = payable(devWallet).call{value: ethForDev}("");
+        }
+        if (ethForTreasury > 0) {
+            (success, ) = payable(treasuryWallet).call{value: ethForTreasury}("");
+        }
+        if (ethForMarketing > 0) {
+            (success, ) = payable(marketingWallet).call{value: ethForMarketing}("");
+        }
+    }
+
+    function disableSniperTax() external onlyOwner {
+        sniperTaxBlocks = 0;
+    }
+
+    function removeBlockLimit() external onlyOwner {
+        maxTradesPerBlock = type(uint256).max;
+    }
+
+    function disableTransferDelay() external onlyOwner {
+        transferDelayEnabled = false;
+    }
+
+    function blacklistActive() public view returns (bool) {
+        return !tradingOpen || block.number < launchBlock + blacklistWindowBlocks;
+    }
+
+    function setBlacklisted(address[] calldata accounts, bool value) external onlyOwner {
+        require(!value || blacklistActive(), "Blacklist window has expired");
+        for (uint256 i = 0; i < accounts.length; i++) {
+            require(!value || !automatedMarketMakerPairs[accounts[i]], "Cannot blacklist a pair");
+            blacklisted[accounts[i]] = value;
+            emit BlacklistUpdated(accounts[i], value);
+        }
+    }
+
+    function setBuyCooldown(uint256 newCooldown) external onlyOwner {
+        require(newCooldown <= buyCooldown, "Cooldown can only be lowered");
+        buyCooldown = newCooldown;
+    }
+
+    function pause() public onlyOwner {
+        _pause();
+    }
+
+    function unpause() public onlyOwner {
+        _unpause();
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        if (amount == 0) {
+            super._transfer(from, to, 0);
+            return;
+        }
+
+        if (!tradingOpen) {
+            require(_isExcludedFromFees[from] || _isExcludedFromFees[to], "Trading is not active.");
+        }
+
+        // Blacklisted wallets are stopped during the launch window only
+        if (blacklistActive()) {
+            require(!blacklisted[from] && !blacklisted[to], "Blacklisted");
+        }
+
+        // Buys right after launch pay the sniper tax
+        if (block.number < launchBlock + sniperTaxBlocks && automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) {
+            uint256 sniperFee = amount * sniperTax / 100;
+            super._transfer(from, address(this), sniperFee);
+            amount = amount - sniperFee;
+        }
+
+        // Limit pair trades per block
+        if (((automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) || (automatedMarketMakerPairs[to] && !_isExcludedFromFees[from])) && !swapping) {
+            _tradesInBlock[block.number] += 1;
+            require(_tradesInBlock[block.number] <= maxTradesPerBlock, "Too many trades in this block");
+        }
+
+        // Transfer delay per transaction origin
+        if (transferDelayEnabled && ((automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) || (automatedMarketMakerPairs[to] && !_isExcludedFromFees[from])) && !swapping) {
+            require(
+                block.number >= _holderLastTransferBlock[tx.origin] + transferDelayBlocks,
+                "Transfer delay enabled, try again later"
+            );
+            _holderLastTransferBlock[tx.origin] = block.number;
+        }
+
+        // Cooldown between buys
+        if (automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) {
+            require(block.timestamp >= _lastBuyTimestamp[to] + buyCooldown, "Buy cooldown active");
+            _lastBuyTimestamp[to] = block.timestamp;
+        }
+
+        // Check transaction limits, transfers from or to an excluded account are not limited
+        if (!_isExcludedFromLimits[from] && !_isExcludedFromLimits[to]) {
+            if (automatedMarketMakerPairs[from]) {
+                require(amount <= maxTransactionAmount, "Buy transfer amount exceeds the maxTransactionAmount.");
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+            else if (automatedMarketMakerPairs[to]) {
+                require(amount <= maxTransactionAmount, "Sell transfer amount exceeds the maxTransactionAmount.");
+            }
+            else {
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+        }
+
+        // Indicates if fee should be deducted from transfer
+        bool takeFee = !swapping;
+
+        // If any account belongs to _isExcludedFromFee then remove the fee
+        if (_isExcludedFromFees[from] || _isExcludedFromFees[to]) {
+            takeFee = false;
+        }
+
+        // Calculate fees
+        uint256 fees = 0;
+        if (takeFee) {
+            if (automatedMarketMakerPairs[to]) {
+                // Sell transfer
+                fees = amount * sellTax / 100;
+            } else if (automatedMarketMakerPairs[from]) {
+                // Buy transfer
+                fees = amount * buyTax / 100;
+            }
+
+            if (fees > 0) {
+                // The burn share is destroyed right away, the rest is collected for swapBack
+                uint256 burnFees = fees * burnShare / FEE_DENOMINATOR;
+                if (burnFees > 0) {
+                    _burn(from, burnFees);
+                }
+                if (fees > burnFees) {
+                    super._transfer(from, address(this), fees - burnFees);
+                }
+                amount = amount - fees;
+            }
+        }
+
+        // Process accumulated fees
+        uint256 contractTokenBalance = balanceOf(address(this));
+        bool canSwap = contractTokenBalance > swapTokensAtAmount && !swapping;
+
+        if (canSwap && !automatedMarketMakerPairs[from] && !_isExcludedFromFees[from] && !_isExcludedFromFees[to]) {
+            swapping = true;
+            swapBack(swapTokensAtAmount);
+            swapping = false;
+        }
+
+        super._transfer(from, to, amount);
+    }
+
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal override(ERC20, ERC20Pausable) {
+        super._beforeTokenTransfer(from, to, amount);
+    }
+}
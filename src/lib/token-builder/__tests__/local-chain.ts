@@ -0,0 +1,176 @@
+import ganache from 'ganache';
+import { ethers } from 'ethers';
+import UniswapV2Factory from '@uniswap/v2-core/build/UniswapV2Factory.json';
+import UniswapV2Router02 from '@uniswap/v2-periphery/build/UniswapV2Router02.json';
+import WETH9 from '@uniswap/v2-periphery/build/WETH9.json';
+import { compileSolidity } from '@/lib/solidity/compiler';
+import { generateTokenContract, toDividendTrackerName } from '@/lib/token-builder';
+import type { ContractDetailsInput } from '@/lib/token-builder';
+
+// In-process chain for token tests: ganache with Uniswap V2 deployed the way it is on a live network.
+// ganache is archived but still the only in-process EVM on npm that serves the whole JSON-RPC API ethers and the
+// deployer talk to, with unlocked accounts, evm_mine and evm_increaseTime for launch windows and cooldowns, and
+// pre-EIP-155 raw transactions for the keyless CREATE2 factory, without native binaries. @ethereumjs/vm has no
+// RPC layer, hardhat's network needs a hardhat project and its native EDR runtime. Its latest hardfork is
+// shanghai, the tests compile with the default paris profile so nothing they deploy depends on a later one.
+export interface LocalChain {
+  provider: ethers.BrowserProvider;
+  accounts: ethers.JsonRpcSigner[];
+  weth: ethers.Contract;
+  factory: ethers.Contract;
+  router: ethers.Contract;
+  close: () => Promise<void>;
+}
+
+interface UniswapArtifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+}
+
+async function deployArtifact(artifact: UniswapArtifact, signer: ethers.Signer, args: unknown[] = []) {
+  const bytecode = artifact.bytecode.startsWith('0x') ? artifact.bytecode : `0x${artifact.bytecode}`;
+  const contract = await new ethers.ContractFactory(artifact.abi, bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return new ethers.Contract(await contract.getAddress(), artifact.abi, signer);
+}
+
+// Keyless deployment of the CREATE2 factory, the same signed transaction creates it on every chain
+const CREATE2_FACTORY_DEPLOYER = '0x3fab184622dc19b6109349b94811493bf2a45362';
+const CREATE2_FACTORY_DEPLOYMENT = '0xf8a58085174876e800830186a08080b853604580600e600039806000f350fe7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf31ba02222222222222222222222222222222222222222222222222222222222222222a02222222222222222222222222222222222222222222222222222222222222222';
+
+// Accounts are derived from ganache's fixed mnemonic, so they are the same on every local chain
+export async function createLocalChain(chainId = 31337): Promise<LocalChain> {
+  const ganacheProvider = ganache.provider({
+    logging: { quiet: true },
+    chain: { chainId, hardfork: 'shanghai' },
+    wallet: { totalAccounts: 6, defaultBalance: 1000, deterministic: true },
+  });
+  const provider = new ethers.BrowserProvider(ganacheProvider as unknown as ethers.Eip1193Provider, chainId);
+  // Blocks are mined as soon as a transaction arrives, waiting for receipts does not need the default 4s polling
+  provider.pollingInterval = 50;
+  const accounts = await Promise.all(Array.from({ length: 6 }, (_, index) => provider.getSigner(index)));
+
+  const [deployer] = accounts;
+  const weth = await deployArtifact(WETH9, deployer);
+  const factory = await deployArtifact(UniswapV2Factory, deployer, [deployer.address]);
+  const router = await deployArtifact(UniswapV2Router02, deployer, [await factory.getAddress(), await weth.getAddress()]);
+  await (await deployer.sendTransaction({ to: CREATE2_FACTORY_DEPLOYER, value: ethers.parseEther('0.01') })).wait();
+  await provider.waitForTransaction(await provider.send('eth_sendRawTransaction', [CREATE2_FACTORY_DEPLOYMENT]));
+
+  return {
+    provider,
+    accounts,
+    weth,
+    factory,
+    router,
+    close: () => ganacheProvider.disconnect(),
+  };
+}
+
+// Move the chain forward, launch windows count blocks and the buy cooldown counts seconds
+export async function advance(chain: LocalChain, blocks: number, seconds = 0) {
+  if (seconds > 0) {
+    await chain.provider.send('evm_increaseTime', [seconds]);
+  }
+  for (let block = 0; block < blocks; block++) {
+    await chain.provider.send('evm_mine', []);
+  }
+}
+
+export async function compileContract(source: string, contractName: string) {
+  const compiled = await compileSolidity({ source, contractName });
+  if (!compiled.success) {
+    throw new Error(`${contractName} did not compile: ${compiled.errors.map(error => error.formattedMessage).join('\n')}`);
+  }
+  return compiled;
+}
+
+// Generate and compile a token the way /api/deploy-contract does, companions compile from the same source
+export async function compileToken(details: ContractDetailsInput) {
+  const { source, contractName } = generateTokenContract(details);
+  return { ...(await compileContract(source, contractName)), source, contractName };
+}
+
+// Tax tokens are linked to the chain's router after deployment, the way the deployer does it
+export async function linkRouter(chain: LocalChain, token: ethers.Contract) {
+  if (token.interface.getFunction('setUniswapV2Router')) {
+    await (await token.setUniswapV2Router(await chain.router.getAddress())).wait();
+  }
+}
+
+export async function deployToken(chain: LocalChain, details: ContractDetailsInput, owner: ethers.Signer) {
+  const compiled = await compileToken(details);
+  const factory = new ethers.ContractFactory(compiled.abi, compiled.bytecode, owner);
+  const token = await factory.deploy(await owner.getAddress());
+  await token.waitForDeployment();
+  const contract = new ethers.Contract(await token.getAddress(), compiled.abi, owner);
+  await linkRouter(chain, contract);
+
+  // Dividend tokens get their tracker right after, it is linked once and then pays holders
+  if (contract.interface.getFunction('setDividendTracker')) {
+    const tracker = await compileContract(compiled.source, toDividendTrackerName(compiled.contractName));
+    const deployed = await new ethers.ContractFactory(tracker.abi, tracker.bytecode, owner).deploy(await contract.getAddress());
+    await deployed.waitForDeployment();
+    await (await contract.setDividendTracker(await deployed.getAddress())).wait();
+  }
+  return contract;
+}
+
+// Pair the token with WETH on the local router and register the pair for taxes and launch protections
+export async function addLiquidity(chain: LocalChain, token: ethers.Contract, tokenAmount: bigint, ethAmount: bigint) {
+  const owner = token.runner as ethers.Signer;
+  const router = chain.router.connect(owner) as ethers.Contract;
+  await (await token.approve(await router.getAddress(), tokenAmount)).wait();
+  await (await router.addLiquidityETH(
+    await token.getAddress(),
+    tokenAmount,
+    0,
+    0,
+    await owner.getAddress(),
+    ethers.MaxUint256,
+    { value: ethAmount }
+  )).wait();
+
+  const pair = await chain.factory.getPair(await token.getAddress(), await chain.weth.getAddress());
+  await (await token.setAutomatedMarketMakerPair(pair, true)).wait();
+  return pair as string;
+}
+
+// ganache estimates swaps without the gas refunds they get along the way, which can leave them short of gas
+const SWAP_GAS_LIMIT = 1000000;
+
+// Buy the token with ETH through the router, fee-on-transfer swaps are what wallets use for taxed tokens
+export async function buy(chain: LocalChain, token: ethers.Contract, buyer: ethers.Signer, ethAmount: bigint) {
+  const router = chain.router.connect(buyer) as ethers.Contract;
+  const transaction = await router.swapExactETHForTokensSupportingFeeOnTransferTokens(
+    0,
+    [await chain.weth.getAddress(), await token.getAddress()],
+    await buyer.getAddress(),
+    ethers.MaxUint256,
+    { value: ethAmount, gasLimit: SWAP_GAS_LIMIT }
+  );
+  return transaction.wait();
+}
+
+// Sell the token for ETH through the router, approve is false when the router already has an allowance
+export async function sell(chain: LocalChain, token: ethers.Contract, seller: ethers.Signer, tokenAmount: bigint, approve = true) {
+  const router = chain.router.connect(seller) as ethers.Contract;
+  if (approve) {
+    await (await (token.connect(seller) as ethers.Contract).approve(await router.getAddress(), tokenAmount)).wait();
+  }
+  const transaction = await router.swapExactTokensForETHSupportingFeeOnTransferTokens(
+    tokenAmount,
+    0,
+    [await token.getAddress(), await chain.weth.getAddress()],
+    await seller.getAddress(),
+    ethers.MaxUint256,
+    { gasLimit: SWAP_GAS_LIMIT }
+  );
+  return transaction.wait();
+}
+
+// Tokens a buy for ethAmount returns from the pair before any tax is taken
+export async function quoteBuy(chain: LocalChain, token: ethers.Contract, ethAmount: bigint): Promise<bigint> {
+  const amounts = await chain.router.getAmountsOut(ethAmount, [await chain.weth.getAddress(), await token.getAddress()]);
+  return amounts[1];
+}
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { createLocalChain, deployToken, LocalChain } from './local-chain';
+
+const REFLECTION_FEE = BigInt(2);
+const TOTAL_SUPPLY = ethers.parseEther('1000000');
+const ONE_TOKEN = ethers.parseEther('1');
+
+describe('reflection token on a local chain', () => {
+  let chain: LocalChain;
+  let token: ethers.Contract;
+  let holders: string[];
+  let alice: ethers.Signer;
+  let bob: ethers.Signer;
+  let carol: string;
+
+  async function balances(): Promise<bigint[]> {
+    return Promise.all(holders.map(holder => token.balanceOf(holder)));
+  }
+
+  // Holder balances are rounded down from reflected units, their sum stays within a few wei of the supply
+  async function expectSupplyHeld() {
+    const held = (await balances()).reduce((sum, balance) => sum + balance, BigInt(0));
+    expect(await token.totalSupply()).toBe(TOTAL_SUPPLY);
+    expect(held).toBeLessThanOrEqual(TOTAL_SUPPLY);
+    expect(TOTAL_SUPPLY - held).toBeLessThanOrEqual(BigInt(holders.length));
+  }
+
+  function expectClose(actual: bigint, expected: bigint) {
+    expect(actual - expected).toBeGreaterThanOrEqual(BigInt(-1));
+    expect(actual - expected).toBeLessThanOrEqual(BigInt(1));
+  }
+
+  beforeAll(async () => {
+    chain = await createLocalChain();
+    const [owner] = chain.accounts;
+    [, alice, bob] = chain.accounts;
+    carol = await chain.accounts[3].getAddress();
+    holders = await Promise.all([owner, alice, bob].map(account => account.getAddress()));
+    holders.push(carol);
+
+    token = await deployToken(chain, {
+      name: 'Reflect Token',
+      symbol: 'RFL',
+      totalSupply: '1000000',
+      template: 'reflection',
+      reflectionFee: Number(REFLECTION_FEE),
+    }, owner);
+    await (await token.openTrading()).wait();
+
+    // The owner is excluded from fees, its transfers arrive in full
+    await (await token.transfer(holders[1], ethers.parseEther('10000'))).wait();
+    await (await token.transfer(holders[2], ethers.parseEther('5000'))).wait();
+  });
+
+  afterAll(async () => {
+    await chain?.close();
+  });
+
+  it('converts between tokens and reflected units at the current rate', async () => {
+    const reflected: bigint = await token.reflectionFromToken(ONE_TOKEN);
+    expect(reflected).toBeGreaterThan(ONE_TOKEN);
+    expect(await token.tokenFromReflection(reflected)).toBe(ONE_TOKEN);
+    expect(await token.tokenFromReflection(reflected * BigInt(1000))).toBe(ONE_TOKEN * BigInt(1000));
+
+    await expect(token.reflectionFromToken(TOTAL_SUPPLY + BigInt(1))).rejects.toThrow();
+    await expect(token.tokenFromReflection(ethers.MaxUint256)).rejects.toThrow();
+    await expectSupplyHeld();
+  });
+
+  it('raises every holder balance by the reflected fee', async () => {
+    const amount = ethers.parseEther('1000');
+    const fee = amount * REFLECTION_FEE / BigInt(100);
+    const [ownerBefore, aliceBefore, bobBefore] = await balances();
+    const rate: bigint = await token.reflectionFromToken(ONE_TOKEN);
+    await (await (token.connect(alice) as ethers.Contract).transfer(carol, amount)).wait();
+
+    const [ownerAfter, aliceAfter, bobAfter, carolAfter] = await balances();
+    expect(await token.totalFees()).toBe(fee);
+    expect(await token.reflectionFromToken(ONE_TOKEN)).toBeLessThan(rate);
+
+    // The fee is reflected before the transfer, spread over the other holders in proportion to their balance.
+    // The sender shares in it, the receiver only gets what is left of the amount.
+    const circulating = TOTAL_SUPPLY - fee;
+    expectClose(ownerAfter, ownerBefore + ownerBefore * fee / circulating);
+    expectClose(bobAfter, bobBefore + bobBefore * fee / circulating);
+    expect(aliceAfter).toBeGreaterThan(aliceBefore - amount);
+    expect(carolAfter).toBe(amount - fee);
+    await expectSupplyHeld();
+  });
+
+  it('keeps the rate when an account is excluded from rewards and included again', async () => {
+    const bobAddress = holders[2];
+    const before = await balances();
+    await (await token.excludeFromReward(bobAddress, true)).wait();
+    expect(await token.isExcludedFromReward(bobAddress)).toBe(true);
+
+    // Excluding an account only takes it out of the rate, no balance moves
+    const excluded = await balances();
+    excluded.forEach((balance, index) => expectClose(balance, before[index]));
+    await expect(token.excludeFromReward.staticCall(bobAddress, true)).rejects.toThrow('Account is already in that state');
+
+    // Reflections made while excluded go to the others
+    const ownerBefore = excluded[0];
+    await (await (token.connect(alice) as ethers.Contract).transfer(carol, ethers.parseEther('1000'))).wait();
+    const [ownerAfter, , bobAfter] = await balances();
+    expect(bobAfter).toBe(excluded[2]);
+    expect(ownerAfter).toBeGreaterThan(ownerBefore);
+    await expectSupplyHeld();
+
+    // Included again the account keeps its frozen balance, the others keep theirs
+    const reincluded = await balances();
+    await (await token.excludeFromReward(bobAddress, false)).wait();
+    const after = await balances();
+    after.forEach((balance, index) => expectClose(balance, reincluded[index]));
+    await expectSupplyHeld();
+
+    // And receives reflections again
+    await (await (token.connect(alice) as ethers.Contract).transfer(carol, ethers.parseEther('1000'))).wait();
+    expect(await token.balanceOf(bobAddress)).toBeGreaterThan(after[2]);
+    await (await (token.connect(bob) as ethers.Contract).transfer(carol, ethers.parseEther('100'))).wait();
+    await expectSupplyHeld();
+  });
+
+  it('lets the owner change the fee up to the cap', async () => {
+    await expect(token.setReflectionFee(11)).rejects.toThrow();
+    await (await token.setReflectionFee(0)).wait();
+    const fees: bigint = await token.totalFees();
+
+    await (await (token.connect(alice) as ethers.Contract).transfer(carol, ethers.parseEther('100'))).wait();
+    expect(await token.totalFees()).toBe(fees);
+    await expect((token.connect(alice) as ethers.Contract).setReflectionFee(5)).rejects.toThrow();
+    await expectSupplyHeld();
+  });
+});
@@ -0,0 +1,275 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { FEATURES } from '@/constants/networks';
+import type { ContractDetailsInput } from '@/lib/token-builder';
+import { ANTI_BOT_FEATURES } from '@/lib/token-builder';
+import { addLiquidity, advance, buy, createLocalChain, deployToken, LocalChain, quoteBuy, sell } from './local-chain';
+
+// Every feature on its own on top of a tax token, and all of them together
+const FEATURE_COMBINATIONS: string[][] = [...FEATURES.map(feature => [feature.id]), FEATURES.map(feature => feature.id)];
+
+// Dividend tokens are always taxed, half of the fees go to holders through the tracker
+const TAXED_CASES: Array<[string, Partial<ContractDetailsInput>]> = [
+  ...FEATURE_COMBINATIONS.map((features): [string, Partial<ContractDetailsInput>] => [features.join(', '), { features }]),
+  ['the dividend template', {
+    template: 'dividend',
+    taxDistribution: { marketing: 5000, liquidity: 0, burn: 0, dev: 0, treasury: 0, dividends: 5000 },
+  }],
+];
+
+// Without a tax the launch protections have nothing to act on, the other features are tested on their own and together
+const UNTAXED_FEATURES = FEATURES.map(feature => feature.id).filter(feature => !ANTI_BOT_FEATURES.includes(feature));
+const REFLECTION_FEE = BigInt(2);
+const UNTAXED_CASES: Array<[string, Partial<ContractDetailsInput>]> = [
+  ...UNTAXED_FEATURES.map((feature): [string, Partial<ContractDetailsInput>] => [feature, { features: [feature] }]),
+  [UNTAXED_FEATURES.join(', '), { features: UNTAXED_FEATURES }],
+  ['the reflection template', { template: 'reflection', reflectionFee: Number(REFLECTION_FEE) }],
+];
+
+const BUY_TAX = BigInt(5);
+const SELL_TAX = BigInt(10);
+const TOTAL_SUPPLY = ethers.parseEther('1000000');
+// Default limits: 1% of the supply per transaction and per wallet
+const MAX_WALLET = TOTAL_SUPPLY / BigInt(100);
+
+describe.each(TAXED_CASES)('tax token with %s', (_, details) => {
+  const features = details.features ?? [];
+  let chain: LocalChain;
+  let token: ethers.Contract;
+  let tokenAddress: string;
+  let buyer: ethers.Signer;
+  let buyerAddress: string;
+  let marketingWallet: string;
+
+  beforeAll(async () => {
+    chain = await createLocalChain();
+    const [owner, alice] = chain.accounts;
+    buyer = alice;
+    buyerAddress = await alice.getAddress();
+    marketingWallet = await chain.accounts[5].getAddress();
+
+    token = await deployToken(chain, {
+      name: 'Launch Token',
+      symbol: 'LAUNCH',
+      totalSupply: '1000000',
+      ...details,
+      buyTax: Number(BUY_TAX),
+      sellTax: Number(SELL_TAX),
+      marketingWallet,
+    }, owner);
+    tokenAddress = await token.getAddress();
+
+    await addLiquidity(chain, token, TOTAL_SUPPLY / BigInt(2), ethers.parseEther('100'));
+    await (await token.openTrading()).wait();
+    // Past the sniper tax and transfer delay windows, the blacklist stays empty
+    await advance(chain, 10, 60);
+  });
+
+  afterAll(async () => {
+    await chain?.close();
+  });
+
+  it('takes the buy tax', async () => {
+    const quoted = await quoteBuy(chain, token, ethers.parseEther('1'));
+    await buy(chain, token, buyer, ethers.parseEther('1'));
+
+    const fee = quoted * BUY_TAX / BigInt(100);
+    expect(await token.balanceOf(buyerAddress)).toBe(quoted - fee);
+    expect(await token.balanceOf(tokenAddress)).toBe(fee);
+  });
+
+  it('rejects buys over the max wallet', async () => {
+    await advance(chain, 1, 60);
+    const held = await token.balanceOf(buyerAddress);
+    expect(await quoteBuy(chain, token, ethers.parseEther('1.5')) + held).toBeGreaterThan(MAX_WALLET);
+    await expect(buy(chain, token, buyer, ethers.parseEther('1.5'))).rejects.toThrow();
+
+    // A smaller buy still fits
+    await buy(chain, token, buyer, ethers.parseEther('0.5'));
+    expect(await token.balanceOf(buyerAddress)).toBeGreaterThan(held);
+  });
+
+  it('takes the sell tax', async () => {
+    const amount = ethers.parseEther('1000');
+    const held = await token.balanceOf(buyerAddress);
+    const collected = await token.balanceOf(tokenAddress);
+    await sell(chain, token, buyer, amount);
+
+    expect(await token.balanceOf(buyerAddress)).toBe(held - amount);
+    expect(await token.balanceOf(tokenAddress)).toBe(collected + amount * SELL_TAX / BigInt(100));
+  });
+
+  it('swaps collected fees back to ETH once they pass swapTokensAtAmount', async () => {
+    const swapTokensAtAmount: bigint = await token.swapTokensAtAmount();
+    await (await token.transfer(tokenAddress, swapTokensAtAmount)).wait();
+    const collected = await token.balanceOf(tokenAddress);
+    const marketingBalance = await chain.provider.getBalance(marketingWallet);
+
+    const amount = ethers.parseEther('100');
+    await sell(chain, token, buyer, amount);
+
+    expect(await token.balanceOf(tokenAddress)).toBe(collected + amount * SELL_TAX / BigInt(100) - swapTokensAtAmount);
+    expect(await chain.provider.getBalance(marketingWallet)).toBeGreaterThan(marketingBalance);
+  });
+
+  it.runIf(features.includes('pausable'))('stops transfers while paused', async () => {
+    const recipient = await chain.accounts[2].getAddress();
+    const buyerToken = token.connect(buyer) as ethers.Contract;
+    await (await token.pause()).wait();
+    await expect(buyerToken.transfer(recipient, BigInt(1))).rejects.toThrow();
+    await expect(sell(chain, token, buyer, ethers.parseEther('10'))).rejects.toThrow();
+
+    await (await token.unpause()).wait();
+    await (await buyerToken.transfer(recipient, BigInt(1))).wait();
+    expect(await token.balanceOf(recipient)).toBe(BigInt(1));
+  });
+});
+
+describe.each(UNTAXED_CASES)('untaxed token with %s', (_, details) => {
+  const features = details.features ?? [];
+  const reflected = details.template === 'reflection';
+  let chain: LocalChain;
+  let token: ethers.Contract;
+  let tokenAddress: string;
+  let pair: string;
+  let buyer: ethers.Signer;
+  let buyerAddress: string;
+
+  // Reflection tokens take their fee on every transfer and pay part of it back to holders, the receiver included
+  function expectReceived(received: bigint, amount: bigint) {
+    if (!reflected) {
+      expect(received).toBe(amount);
+      return;
+    }
+    expect(received).toBeGreaterThanOrEqual(amount - amount * REFLECTION_FEE / BigInt(100));
+    expect(received).toBeLessThan(amount);
+  }
+
+  beforeAll(async () => {
+    chain = await createLocalChain();
+    const [owner, alice] = chain.accounts;
+    buyer = alice;
+    buyerAddress = await alice.getAddress();
+
+    token = await deployToken(chain, { name: 'Plain Token', symbol: 'PLAIN', totalSupply: '1000000', ...details }, owner);
+    tokenAddress = await token.getAddress();
+
+    pair = await addLiquidity(chain, token, TOTAL_SUPPLY / BigInt(2), ethers.parseEther('100'));
+    await (await token.openTrading()).wait();
+  });
+
+  afterAll(async () => {
+    await chain?.close();
+  });
+
+  it('buys without a tax', async () => {
+    const quoted = await quoteBuy(chain, token, ethers.parseEther('1'));
+    await buy(chain, token, buyer, ethers.parseEther('1'));
+
+    expectReceived(await token.balanceOf(buyerAddress), quoted);
+    expect(await token.balanceOf(tokenAddress)).toBe(BigInt(0));
+  });
+
+  it('sells without a tax', async () => {
+    const amount = ethers.parseEther('1000');
+    const held = await token.balanceOf(buyerAddress);
+    const pooled: bigint = await token.balanceOf(pair);
+    await sell(chain, token, buyer, amount);
+
+    const received: bigint = await token.balanceOf(pair) - pooled;
+    expectReceived(received, amount);
+    if (reflected) {
+      expect(await token.balanceOf(buyerAddress)).toBeGreaterThanOrEqual(held - amount);
+    } else {
+      expect(await token.balanceOf(buyerAddress)).toBe(held - amount);
+    }
+    expect(await token.balanceOf(tokenAddress)).toBe(BigInt(0));
+  });
+
+  it('transfers between wallets', async () => {
+    const recipient = await chain.accounts[2].getAddress();
+    const amount = ethers.parseEther('100');
+    await (await (token.connect(buyer) as ethers.Contract).transfer(recipient, amount)).wait();
+
+    expectReceived(await token.balanceOf(recipient), amount);
+  });
+
+  it.runIf(features.includes('pausable'))('stops transfers and trades while paused', async () => {
+    const recipient = await chain.accounts[2].getAddress();
+    const buyerToken = token.connect(buyer) as ethers.Contract;
+    await (await token.pause()).wait();
+    await expect(buyerToken.transfer(recipient, BigInt(1))).rejects.toThrow();
+    await expect(buy(chain, token, buyer, ethers.parseEther('0.1'))).rejects.toThrow();
+    await expect(sell(chain, token, buyer, ethers.parseEther('10'))).rejects.toThrow();
+
+    await (await token.unpause()).wait();
+    await buy(chain, token, buyer, ethers.parseEther('0.1'));
+  });
+
+  it.runIf(features.includes('mintable') && !features.includes('capped supply'))('sells tokens the owner minted', async () => {
+    const amount = ethers.parseEther('500');
+    const held = await token.balanceOf(buyerAddress);
+    await (await token.mint(buyerAddress, amount)).wait();
+    expect(await token.totalSupply()).toBe(TOTAL_SUPPLY + amount);
+
+    await sell(chain, token, buyer, amount);
+    expect(await token.balanceOf(buyerAddress)).toBe(held);
+  });
+
+  it.runIf(features.includes('capped supply'))('keeps the supply at the cap', async () => {
+    expect(await token.cap()).toBe(TOTAL_SUPPLY);
+    if (features.includes('mintable')) {
+      await expect(token.mint(buyerAddress, BigInt(1))).rejects.toThrow();
+    }
+  });
+
+  it.runIf(features.includes('burnable'))('burns bought tokens out of the supply', async () => {
+    const amount = ethers.parseEther('100');
+    const supply = await token.totalSupply();
+    const held = await token.balanceOf(buyerAddress);
+    await (await (token.connect(buyer) as ethers.Contract).burn(amount)).wait();
+
+    expect(await token.totalSupply()).toBe(supply - amount);
+    expect(await token.balanceOf(buyerAddress)).toBe(held - amount);
+  });
+
+  it.runIf(features.includes('permit'))('sells with a permit instead of an approval', async () => {
+    const router = await chain.router.getAddress();
+    const amount = ethers.parseEther('10');
+    // ganache cannot sign typed data sent by ethers, the holder signs with a local key instead
+    const holder = ethers.Wallet.createRandom().connect(chain.provider);
+    await (await chain.accounts[0].sendTransaction({ to: holder.address, value: ethers.parseEther('1') })).wait();
+    await (await (token.connect(buyer) as ethers.Contract).transfer(holder.address, amount)).wait();
+
+    const [, name, version, chainId, verifyingContract] = await token.eip712Domain();
+    const signature = ethers.Signature.from(await holder.signTypedData(
+      { name, version, chainId, verifyingContract },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { owner: holder.address, spender: router, value: amount, nonce: await token.nonces(holder.address), deadline: ethers.MaxUint256 }
+    ));
+
+    // Anyone can submit the permit, here the owner pays for it
+    await (await token.permit(holder.address, router, amount, ethers.MaxUint256, signature.v, signature.r, signature.s)).wait();
+    expect(await token.allowance(holder.address, router)).toBe(amount);
+    await sell(chain, token, holder, amount, false);
+    expect(await token.balanceOf(holder.address)).toBe(BigInt(0));
+  });
+
+  it.runIf(features.includes('flash minting'))('lends the unminted supply without a fee', async () => {
+    expect(await token.maxFlashLoan(tokenAddress)).toBe(ethers.MaxUint256 - await token.totalSupply());
+    expect(await token.flashFee(tokenAddress, ethers.parseEther('1000'))).toBe(BigInt(0));
+  });
+
+  it.runIf(reflected)('keeps the total supply while fees are reflected', async () => {
+    expect(await token.totalSupply()).toBe(TOTAL_SUPPLY);
+    expect(await token.reflectionFee()).toBe(REFLECTION_FEE);
+  });
+});
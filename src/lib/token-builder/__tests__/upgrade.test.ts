@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import type { ProxyKind } from '@/types';
+import { compareStorageLayouts } from '@/lib/solidity/storage-layout';
+import { generateTokenContract, toProxyAdminName, toProxyName } from '@/lib/token-builder';
+import type { ContractDetailsInput } from '@/lib/token-builder';
+import { compileContract, createLocalChain, LocalChain } from './local-chain';
+
+let activeChain: LocalChain | null = null;
+
+afterEach(async () => {
+  await activeChain?.close();
+  activeChain = null;
+});
+
+async function deploy(compiled: { abi: ethers.InterfaceAbi; bytecode: string }, signer: ethers.Signer, args: unknown[] = []) {
+  const contract = await new ethers.ContractFactory(compiled.abi, compiled.bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract.getAddress();
+}
+
+describe.each(['uups', 'transparent'] as ProxyKind[])('upgrading a %s token', kind => {
+  it('initializes the state a new version adds in the upgrade transaction', async () => {
+    const chain = await createLocalChain();
+    activeChain = chain;
+    const [owner, alice] = chain.accounts;
+
+    // Version 1, deployed the way the deployer does: implementation, admin for transparent proxies, proxy with initialize()
+    const v1: ContractDetailsInput = { name: 'Upgrade Token', symbol: 'UPG', totalSupply: '1000000', upgradeable: kind, features: ['burnable'] };
+    const v1Build = generateTokenContract(v1);
+    const v1Compiled = await compileContract(v1Build.source, v1Build.contractName);
+    const v1Implementation = await deploy(v1Compiled, owner);
+    const admin = kind === 'transparent'
+      ? new ethers.Contract(await deploy(await compileContract(v1Build.source, toProxyAdminName(v1Build.contractName)), owner), [
+        'function upgradeAndCall(address proxy, address implementation, bytes data) payable',
+      ], owner)
+      : null;
+    const initData = new ethers.Interface(v1Compiled.abi).encodeFunctionData('initialize', [owner.address]);
+    const proxyCompiled = await compileContract(v1Build.source, toProxyName(v1Build.contractName));
+    const proxyAddress = await deploy(
+      proxyCompiled,
+      owner,
+      admin ? [v1Implementation, await admin.getAddress(), initData] : [v1Implementation, initData]
+    );
+    const token = new ethers.Contract(proxyAddress, v1Compiled.abi, owner);
+    await (await token.transfer(alice.address, ethers.parseEther('1000'))).wait();
+
+    // Version 2 adds the buy cooldown, its value is only set by the reinitializer
+    const v2: ContractDetailsInput = { ...v1, features: ['burnable', 'buy cooldown'], antiBot: { buyCooldownSeconds: 30 } };
+    const v2Build = generateTokenContract(v2, { previous: v1, version: 2 });
+    expect(v2Build.upgradeInitializer).toBe('initializeV2');
+    const v2Compiled = await compileContract(v2Build.source, v2Build.contractName);
+    expect(compareStorageLayouts(v1Compiled.storageLayout!, v2Compiled.storageLayout!).compatible).toBe(true);
+    const v2Implementation = await deploy(v2Compiled, owner);
+
+    const reinitialize = new ethers.Interface(v2Compiled.abi).encodeFunctionData(v2Build.upgradeInitializer!);
+    const upgrade = admin
+      ? await admin.upgradeAndCall(proxyAddress, v2Implementation, reinitialize)
+      : await token.upgradeToAndCall(v2Implementation, reinitialize);
+    await upgrade.wait();
+
+    const upgraded = new ethers.Contract(proxyAddress, v2Compiled.abi, owner);
+    expect(await upgraded.buyCooldown()).toBe(BigInt(30));
+    expect(await upgraded.owner()).toBe(owner.address);
+    expect(await upgraded.balanceOf(alice.address)).toBe(ethers.parseEther('1000'));
+    expect(await upgraded.totalSupply()).toBe(ethers.parseEther('1000000'));
+    await expect(upgraded.initializeV2()).rejects.toThrow();
+    await expect(upgraded.initialize(alice.address)).rejects.toThrow();
+
+    // Only the new version's setting can be changed by the owner, as on a fresh deployment
+    await expect(upgraded.setBuyCooldown(60)).rejects.toThrow();
+    await (await upgraded.setBuyCooldown(10)).wait();
+    expect(await upgraded.buyCooldown()).toBe(BigInt(10));
+  });
+});
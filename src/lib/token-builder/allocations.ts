@@ -0,0 +1,112 @@
+import { ethers } from 'ethers';
+import type { TokenAllocation } from '@/types';
+import { ContractDetailsInput, TokenBuildOptions } from './types';
+
+// Allocation percentages may have two decimals, amounts are computed in basis points of the supply
+export const ALLOCATION_BASIS_POINTS = 10000;
+
+export const MAX_ALLOCATIONS = 10;
+
+// Longest cliff and vesting period in days, ten years
+export const MAX_VESTING_DAYS = 3650;
+
+// Everything unlocked for the deployer, which is how tokens were minted before allocations existed
+export const DEFAULT_ALLOCATIONS: TokenAllocation[] = [
+  { name: 'Team', percent: '0', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+  { name: 'Marketing', percent: '0', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+  { name: 'Airdrop', percent: '0', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+  { name: 'Liquidity', percent: '100', beneficiary: '', cliffDays: 0, vestingDays: 0 },
+];
+
+const PERCENT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+// Allocation names end up in a Solidity string literal and in event logs
+const NAME_PATTERN = /^[A-Za-z0-9 _-]{1,32}$/;
+
+// Read the allocation table from a request body, an empty table keeps the whole supply with the deployer
+export function normalizeAllocations(input?: ContractDetailsInput['allocations']): TokenAllocation[] {
+  return (input || []).map(allocation => ({
+    name: String(allocation.name ?? '').trim(),
+    percent: allocation.percent === undefined || allocation.percent === '' ? '0' : String(allocation.percent).trim(),
+    beneficiary: String(allocation.beneficiary ?? '').trim(),
+    cliffDays: allocation.cliffDays === undefined || allocation.cliffDays === '' ? 0 : Number(allocation.cliffDays),
+    vestingDays: allocation.vestingDays === undefined || allocation.vestingDays === '' ? 0 : Number(allocation.vestingDays),
+  }));
+}
+
+export function toAllocationBasisPoints(percent: string): number {
+  return PERCENT_PATTERN.test(percent) ? Math.round(Number(percent) * (ALLOCATION_BASIS_POINTS / 100)) : 0;
+}
+
+export function isVestedAllocation(allocation: TokenAllocation): boolean {
+  return allocation.cliffDays > 0 || allocation.vestingDays > 0;
+}
+
+// Allocations that change where the supply goes; a table that hands everything unlocked to the
+// deployer is the same as no table and leaves the generated contract unchanged
+export function activeAllocations(options: TokenBuildOptions): TokenAllocation[] {
+  const allocations = options.allocations.filter(allocation => toAllocationBasisPoints(allocation.percent) > 0);
+  const changesDistribution = allocations.some(allocation => allocation.beneficiary !== '' || isVestedAllocation(allocation));
+  return changesDistribution ? allocations : [];
+}
+
+export function validateAllocations(allocations: TokenAllocation[]): string[] {
+  if (allocations.length === 0) {
+    return [];
+  }
+  if (allocations.length > MAX_ALLOCATIONS) {
+    return [`At most ${MAX_ALLOCATIONS} allocations are supported`];
+  }
+
+  const problems: string[] = [];
+  const names = new Set<string>();
+  let total = 0;
+  for (const allocation of allocations) {
+    const label = allocation.name || 'Unnamed';
+    if (!NAME_PATTERN.test(allocation.name)) {
+      problems.push(`Allocation name "${label}" must be 1-32 letters, digits, spaces, dashes or underscores`);
+    } else if (names.has(allocation.name.toLowerCase())) {
+      problems.push(`Allocation "${label}" is listed twice`);
+    }
+    names.add(allocation.name.toLowerCase());
+
+    if (!PERCENT_PATTERN.test(allocation.percent) || Number(allocation.percent) > 100) {
+      problems.push(`${label} must be a percentage between 0 and 100 with at most two decimals`);
+    }
+    total += toAllocationBasisPoints(allocation.percent);
+
+    if (allocation.beneficiary !== '' && (!ethers.isAddress(allocation.beneficiary) || allocation.beneficiary === ethers.ZeroAddress)) {
+      problems.push(`${label} beneficiary must be a valid non-zero address`);
+    }
+    for (const [field, days] of [['cliff', allocation.cliffDays], ['vesting period', allocation.vestingDays]] as const) {
+      if (!Number.isInteger(days) || days < 0 || days > MAX_VESTING_DAYS) {
+        problems.push(`${label} ${field} must be a whole number of days between 0 and ${MAX_VESTING_DAYS}`);
+      }
+    }
+  }
+
+  if (problems.length === 0 && total !== ALLOCATION_BASIS_POINTS) {
+    problems.push(`Allocations add up to ${(total / 100).toFixed(2)}% instead of 100%`);
+  }
+  return problems;
+}
+
+// The vesting wallet is deployed by the token constructor, one per vested allocation
+export function toVestingWalletName(contractName: string): string {
+  return `${contractName}VestingWallet`;
+}
+
+// OpenZeppelin's VestingWallet releases linearly from start to start + duration. The token sets start to
+// the end of the cliff, so nothing vests before it and a zero duration unlocks everything at the cliff.
+export function vestingWalletContract(walletName: string): string {
+  return `// Holds one allocation of the token and releases it to the beneficiary
+contract ${walletName} is VestingWallet {
+    string public allocation;
+
+    constructor(string memory allocation_, address beneficiaryAddress, uint64 startTimestamp, uint64 durationSeconds)
+        VestingWallet(beneficiaryAddress, startTimestamp, durationSeconds)
+    {
+        allocation = allocation_;
+    }
+}`;
+}
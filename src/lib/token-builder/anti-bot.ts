@@ -0,0 +1,46 @@
+import type { AntiBotSettings } from '@/types';
+import { ContractDetailsInput } from './types';
+
+// Features backed by the settings below
+export const ANTI_BOT_FEATURES = ['sniper tax', 'block limit', 'transfer delay', 'blacklist', 'buy cooldown'];
+
+export const DEFAULT_ANTI_BOT_SETTINGS: AntiBotSettings = {
+  sniperTaxBlocks: 2,
+  sniperTax: 50,
+  maxTradesPerBlock: 3,
+  transferDelayBlocks: 1,
+  // About a day of Ethereum blocks
+  blacklistWindowBlocks: 7200,
+  buyCooldownSeconds: 30,
+};
+
+// Inclusive bounds per setting, and the feature the setting belongs to
+const ANTI_BOT_LIMITS: Record<keyof AntiBotSettings, { feature: string; min: number; max: number }> = {
+  sniperTaxBlocks: { feature: 'sniper tax', min: 1, max: 100 },
+  sniperTax: { feature: 'sniper tax', min: 1, max: 99 },
+  maxTradesPerBlock: { feature: 'block limit', min: 1, max: 1000 },
+  transferDelayBlocks: { feature: 'transfer delay', min: 1, max: 100 },
+  blacklistWindowBlocks: { feature: 'blacklist', min: 1, max: 1000000 },
+  buyCooldownSeconds: { feature: 'buy cooldown', min: 1, max: 86400 },
+};
+
+// Read anti-bot settings from a request body, missing values fall back to the defaults
+export function normalizeAntiBotSettings(input?: ContractDetailsInput['antiBot']): AntiBotSettings {
+  const settings = { ...DEFAULT_ANTI_BOT_SETTINGS };
+  for (const key of Object.keys(settings) as Array<keyof AntiBotSettings>) {
+    const value = input?.[key];
+    if (value !== undefined && value !== '') {
+      settings[key] = Number(value);
+    }
+  }
+  return settings;
+}
+
+// Only settings of selected features are checked, the others never reach the contract
+export function validateAntiBotSettings(settings: AntiBotSettings, features: string[]): string[] {
+  return (Object.entries(ANTI_BOT_LIMITS) as Array<[keyof AntiBotSettings, { feature: string; min: number; max: number }]>)
+    .filter(([key, { feature, min, max }]) =>
+      features.includes(feature) && (!Number.isInteger(settings[key]) || settings[key] < min || settings[key] > max)
+    )
+    .map(([key, { min, max }]) => `${key} must be a whole number between ${min} and ${max}`);
+}
@@ -0,0 +1,384 @@
+import { TOKEN_MODULES, BASE_MODULES } from './modules';
+import { validateTaxDistribution, validateTaxWallets } from './tax';
+import { validateAntiBotSettings } from './anti-bot';
+import { validateTransactionLimits } from './limits';
+import { TOKEN_TEMPLATES, validateReflectionFee } from './reflection';
+import { validateDividendSettings } from './dividends';
+import { activeAllocations, validateAllocations } from './allocations';
+import { validateUpgradeable } from './upgradeable';
+import {
+  ComposedContract,
+  HookContribution,
+  HookName,
+  ModuleContext,
+  ModuleContribution,
+  SolidityImport,
+  TokenBuildOptions,
+  TokenModule,
+  TokenUpgrade,
+} from './types';
+
+// Thrown when the selected features cannot be combined into a single contract
+export class TokenBuildError extends Error {
+  conflicts: string[];
+
+  constructor(conflicts: string[]) {
+    super(`Invalid token configuration: ${conflicts.join('; ')}`);
+    this.name = 'TokenBuildError';
+    this.conflicts = conflicts;
+  }
+}
+
+// Parameter lists used when rendering hook overrides
+const HOOK_SIGNATURES: Record<HookName, string> = {
+  _transfer: 'address from, address to, uint256 amount',
+  _beforeTokenTransfer: 'address from, address to, uint256 amount',
+  _afterTokenTransfer: 'address from, address to, uint256 amount',
+  _mint: 'address account, uint256 amount',
+};
+
+const HOOK_ARGUMENTS: Record<HookName, string> = {
+  _transfer: 'from, to, amount',
+  _beforeTokenTransfer: 'from, to, amount',
+  _afterTokenTransfer: 'from, to, amount',
+  _mint: 'account, amount',
+};
+
+// Strip whitespace from the token name and make sure the result is a valid Solidity identifier
+export function toContractName(name: string): string {
+  const contractName = name.replace(/\s+/g, '');
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(contractName)) {
+    throw new TokenBuildError([`"${name}" cannot be used as a contract name`]);
+  }
+  return contractName;
+}
+
+// Resolve the selected features to module definitions, including implicit ones
+export function resolveModules(options: TokenBuildOptions): TokenModule[] {
+  const ids = new Set<string>(BASE_MODULES);
+  if (options.decimals !== 18) {
+    ids.add('decimals');
+  }
+  if (options.buyTax > 0 || options.sellTax > 0) {
+    ids.add('tax');
+  }
+  if (options.template === 'reflection') {
+    ids.add('reflection');
+  }
+  if (options.template === 'dividend') {
+    ids.add('dividends');
+  }
+  if (activeAllocations(options).length > 0) {
+    ids.add('allocations');
+  }
+  if (options.upgradeable) {
+    ids.add('upgradeable');
+  }
+
+  const problems: string[] = [];
+  for (const feature of options.features) {
+    const id = feature.toLowerCase();
+    if (!TOKEN_MODULES[id]) {
+      problems.push(`Unknown feature "${feature}"`);
+      continue;
+    }
+    ids.add(id);
+  }
+
+  const modules = Array.from(ids)
+    .filter(id => TOKEN_MODULES[id])
+    .map(id => TOKEN_MODULES[id])
+    .sort((a, b) => a.order - b.order);
+
+  for (const tokenModule of modules) {
+    for (const required of tokenModule.requires || []) {
+      if (!ids.has(required)) {
+        problems.push(`"${tokenModule.id}" requires "${required}"`);
+      }
+    }
+    for (const conflicting of tokenModule.conflicts || []) {
+      if (ids.has(conflicting)) {
+        problems.push(`"${tokenModule.id}" cannot be combined with "${conflicting}"`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new TokenBuildError(problems);
+  }
+
+  return modules;
+}
+
+// Merge imports that share a path into a single named import
+function renderImports(imports: SolidityImport[]): string[] {
+  const byPath = new Map<string, string[]>();
+  for (const { symbol, path } of imports) {
+    const symbols = byPath.get(path) || [];
+    if (!symbols.includes(symbol)) {
+      symbols.push(symbol);
+    }
+    byPath.set(path, symbols);
+  }
+  return Array.from(byPath.entries()).map(
+    ([path, symbols]) => `import {${symbols.join(', ')}} from "${path}";`
+  );
+}
+
+function renderHook(hook: HookName, contributions: HookContribution[], bases: string[]): string {
+  const overrideList = bases.length > 1 ? `override(${bases.join(', ')})` : 'override';
+  const body = contributions.map(contribution => contribution.code).join('\n\n');
+
+  if (hook === '_transfer') {
+    return `    function _transfer(${HOOK_SIGNATURES[hook]}) internal ${overrideList} {
+        if (amount == 0) {
+            super._transfer(from, to, 0);
+            return;
+        }
+
+${body}
+
+        super._transfer(${HOOK_ARGUMENTS[hook]});
+    }`;
+  }
+
+  return `    function ${hook}(${HOOK_SIGNATURES[hook]}) internal ${overrideList} {
+        super.${hook}(${HOOK_ARGUMENTS[hook]});
+${body ? `\n${body}\n` : ''}    }`;
+}
+
+// Split "uint256 public x = 5;" into the bare declaration and the assignment "x = 5;".
+// Constants, immutables and declarations without a value are left as they are.
+function splitStateInitializer(declaration: string): { declaration: string; assignment: string | null } {
+  const match = declaration.match(/^(.*?\b(\w+))\s*=(?!>)\s*(.+);$/);
+  if (!match || /\b(constant|immutable)\b/.test(match[1])) {
+    return { declaration, assignment: null };
+  }
+  return { declaration: `${match[1]};`, assignment: `${match[2]} = ${match[3]};` };
+}
+
+// Name of a state variable in its declaration, null for lines that declare none
+function stateVariableName(declaration: string): string | null {
+  return declaration.match(/(\w+)\s*(?:=(?!>)|;)/)?.[1] ?? null;
+}
+
+// Validate the options and collect what each selected module contributes to the contract
+function contributeModules(options: TokenBuildOptions) {
+  const contractName = toContractName(options.name);
+  if (!/^\d+$/.test(options.totalSupply)) {
+    throw new TokenBuildError([`Total supply "${options.totalSupply}" must be a whole number`]);
+  }
+  if (!Number.isInteger(options.decimals) || options.decimals < 0 || options.decimals > 255) {
+    throw new TokenBuildError([`Decimals must be a whole number between 0 and 255`]);
+  }
+  for (const [label, tax] of [['Buy tax', options.buyTax], ['Sell tax', options.sellTax]] as const) {
+    if (!Number.isInteger(tax) || tax < 0 || tax > 50) {
+      throw new TokenBuildError([`${label} must be a whole percentage between 0 and 50`]);
+    }
+  }
+  if (!TOKEN_TEMPLATES.includes(options.template)) {
+    throw new TokenBuildError([`Unknown token template "${options.template}"`]);
+  }
+  const settingProblems = [
+    ...validateReflectionFee(options.template, options.reflectionFee),
+    ...validateTaxDistribution(options.taxDistribution),
+    ...validateTaxWallets(options.taxWallets),
+    ...validateAntiBotSettings(options.antiBot, options.features),
+    ...validateTransactionLimits(options.limits, options.totalSupply),
+    ...validateDividendSettings(options),
+    ...validateAllocations(options.allocations),
+    ...validateUpgradeable(options),
+  ];
+  if (settingProblems.length > 0) {
+    throw new TokenBuildError(settingProblems);
+  }
+  const modules = resolveModules(options);
+  const moduleIds = modules.map(tokenModule => tokenModule.id);
+  const requestedRoles: string[] = [];
+
+  const context: ModuleContext = {
+    options,
+    contractName,
+    has: (moduleId: string) => moduleIds.includes(moduleId),
+    guard: (role: string) => {
+      if (!moduleIds.includes('access control')) {
+        return 'onlyOwner';
+      }
+      if (!requestedRoles.includes(role)) {
+        requestedRoles.push(role);
+      }
+      return `onlyRole(${role})`;
+    },
+  };
+
+  const contributions: Array<{ tokenModule: TokenModule; contribution: ModuleContribution }> = modules.map(tokenModule => ({
+    tokenModule,
+    contribution: tokenModule.contribute(context),
+  }));
+
+  // Detect members declared by more than one module
+  const conflicts: string[] = [];
+  const functionOwners = new Map<string, string>();
+  const stateOwners = new Map<string, string>();
+  for (const { tokenModule, contribution } of contributions) {
+    for (const fn of contribution.functions || []) {
+      const owner = functionOwners.get(fn.name);
+      if (owner) {
+        conflicts.push(`function "${fn.name}" is declared by both "${owner}" and "${tokenModule.id}"`);
+      }
+      functionOwners.set(fn.name, tokenModule.id);
+    }
+    for (const declaration of contribution.state || []) {
+      const stateName = stateVariableName(declaration);
+      if (!stateName) continue;
+      const owner = stateOwners.get(stateName);
+      if (owner) {
+        conflicts.push(`state variable "${stateName}" is declared by both "${owner}" and "${tokenModule.id}"`);
+      }
+      stateOwners.set(stateName, tokenModule.id);
+    }
+  }
+  if (conflicts.length > 0) {
+    throw new TokenBuildError(conflicts);
+  }
+
+  return { contractName, moduleIds, context, contributions, requestedRoles };
+}
+
+// Compose a token contract from the selected features. For an upgrade of a deployed version the
+// state and setup that version does not have yet go into a reinitializer the proxy calls once.
+export function composeTokenContract(options: TokenBuildOptions, upgrade?: TokenUpgrade): ComposedContract {
+  const { contractName, moduleIds, context, contributions, requestedRoles } = contributeModules(options);
+
+  const collect = <T>(pick: (contribution: ModuleContribution) => T[] | undefined): T[] =>
+    contributions.flatMap(({ contribution }) => pick(contribution) || []);
+
+  // OpenZeppelin's ERC20 unless a module brings its own base contract
+  const baseContracts = collect(c => (c.baseContract ? [c.baseContract] : []));
+  if (baseContracts.length > 1) {
+    throw new TokenBuildError([`Only one base contract can be used, got ${baseContracts.join(', ')}`]);
+  }
+  const baseContract = baseContracts[0] || 'ERC20';
+
+  const imports = renderImports([
+    ...(baseContract === 'ERC20' ? [{ symbol: 'ERC20', path: '@openzeppelin/contracts/token/ERC20/ERC20.sol' }] : []),
+    ...collect(c => c.imports),
+  ]);
+  const inheritance = Array.from(new Set([baseContract, ...collect(c => c.inherits)]));
+
+  // Roles requested through guard() get a constant and are granted to the initial owner
+  const roleConstants = requestedRoles.map(role => `bytes32 public constant ${role} = keccak256("${role}");`);
+  const roleGrants = requestedRoles.map(role => `_grantRole(${role}, initialOwner);`);
+
+  const state = [...collect(c => c.state), ...roleConstants];
+  const events = collect(c => c.events);
+  const constructorInitializers = collect(c => c.constructorInitializers);
+  const constructorParameters = ['address initialOwner', ...collect(c => c.constructorParameters)].join(', ');
+  const constructorSteps = [...collect(c => c.constructorSteps), ...roleGrants];
+  const mintSteps = collect(c => c.mintSteps);
+  const functions = collect(c => c.functions).map(fn => fn.code);
+
+  // Assemble hook overrides, keeping module order for equal hook orders
+  const hooks: string[] = [];
+  for (const hook of Object.keys(HOOK_SIGNATURES) as HookName[]) {
+    const hookContributions = contributions
+      .flatMap(({ tokenModule, contribution }) =>
+        (contribution.hooks || [])
+          .filter(h => h.hook === hook)
+          .map(h => ({ ...h, moduleOrder: tokenModule.order }))
+      )
+      .sort((a, b) => a.order - b.order || a.moduleOrder - b.moduleOrder);
+    const bases = Array.from(new Set([baseContract, ...collect(c => c.hookBases?.[hook])]));
+
+    if (hookContributions.length > 0 || bases.length > 1) {
+      hooks.push(renderHook(hook, hookContributions, bases));
+    }
+  }
+
+  const declarations = collect(c => c.declarations);
+  const companions = collect(c => c.companions);
+  const indent = (lines: string[], prefix: string) =>
+    lines.map(line => (line ? `${prefix}${line}` : '')).join('\n');
+  const baseConstructor = `${baseContract}(${JSON.stringify(options.name)}, ${JSON.stringify(options.symbol)})${constructorInitializers.length > 0 ? `\n${indent(constructorInitializers, '        ')}` : ''}`;
+  const setupSteps = [
+    ...constructorSteps,
+    ...(mintSteps.length > 0 ? mintSteps : [`_mint(initialOwner, ${options.totalSupply} * 10 ** decimals());`]),
+  ];
+
+  // Behind a proxy the constructor never runs for the token's own storage: state values and the setup
+  // move to initialize(), which the proxy calls once, and the constructor only locks the implementation
+  let stateDeclarations = state;
+  let setup = `    constructor(${constructorParameters})
+        ${baseConstructor}
+    {
+${indent(setupSteps, '        ')}
+    }`;
+  let upgradeInitializer: string | undefined;
+  if (context.has('upgradeable')) {
+    const splitState = state.map(splitStateInitializer);
+    stateDeclarations = splitState.map(split => split.declaration);
+    const stateAssignments = splitState.flatMap(split => (split.assignment ? [split.assignment] : []));
+    setup = `    constructor()
+        ${baseConstructor}
+    {
+        _disableInitializers();
+    }
+
+    function initialize(${constructorParameters}) external initializer {
+${indent([...stateAssignments, ...setupSteps], '        ')}
+    }`;
+
+    // The proxy already ran initialize() of the deployed version, the new version sets what it adds:
+    // values of appended state, setup of added modules and newly used roles. Tokens are not minted again.
+    if (upgrade) {
+      if (!Number.isInteger(upgrade.version) || upgrade.version < 2 || upgrade.version > 255) {
+        throw new TokenBuildError([`Upgrade version must be a whole number between 2 and 255`]);
+      }
+      const previous = contributeModules(upgrade.previous);
+      const previousState = new Set(
+        previous.contributions.flatMap(({ contribution }) => contribution.state || []).map(stateVariableName)
+      );
+      const addedAssignments = splitState.flatMap(split =>
+        split.assignment && !previousState.has(stateVariableName(split.declaration)) ? [split.assignment] : []
+      );
+      const addedSteps = contributions.flatMap(({ tokenModule, contribution }) =>
+        previous.moduleIds.includes(tokenModule.id) ? [] : contribution.constructorSteps || []
+      );
+      const addedGrants = requestedRoles
+        .filter(role => !previous.requestedRoles.includes(role))
+        .map(role => `_grantRole(${role}, initialOwner);`);
+      const reinitializeSteps = [...addedAssignments, ...addedSteps, ...addedGrants];
+
+      upgradeInitializer = `initializeV${upgrade.version}`;
+      setup += `
+
+    // Called by the proxy in the upgrade transaction to version ${upgrade.version}
+    function ${upgradeInitializer}() external reinitializer(${upgrade.version}) {
+${indent([
+  ...(reinitializeSteps.some(step => /\binitialOwner\b/.test(step)) ? ['address initialOwner = owner();'] : []),
+  ...reinitializeSteps,
+], '        ')}
+    }`;
+    }
+  }
+
+  const source = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+${imports.join('\n')}
+${declarations.length > 0 ? `\n${declarations.join('\n\n')}\n` : ''}
+contract ${contractName} is ${inheritance.join(', ')} {
+${indent(stateDeclarations, '    ')}
+${events.length > 0 ? `\n${indent(events, '    ')}\n` : ''}
+${setup}
+${[...functions, ...hooks].map(code => `\n${code}\n`).join('')}}
+${companions.map(companion => `\n${companion.code}\n`).join('')}`;
+
+  return {
+    contractName,
+    source,
+    modules: moduleIds,
+    companions: companions.map(companion => companion.contractName),
+    ...(upgradeInitializer ? { upgradeInitializer } : {}),
+  };
+}
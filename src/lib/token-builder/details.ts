@@ -0,0 +1,80 @@
+import type { TokenTemplate } from '@/types';
+import { composeTokenContract, TokenBuildError } from './composer';
+import { ComposedContract, ContractDetailsInput, FeatureInput, TokenBuildOptions } from './types';
+import { normalizeTaxDistribution } from './tax';
+import { normalizeAntiBotSettings } from './anti-bot';
+import { normalizeTransactionLimits } from './limits';
+import { DEFAULT_REFLECTION_FEE } from './reflection';
+import { normalizeDividendSettings } from './dividends';
+import { normalizeAllocations } from './allocations';
+import { normalizeProxyKind } from './upgradeable';
+
+// Reduce feature entries to lowercase ids, dropping disabled descriptors and duplicates
+export function normalizeFeatures(features: FeatureInput[] = []): string[] {
+  const ids: string[] = [];
+  for (const feature of features) {
+    let id: string | undefined;
+    if (typeof feature === 'object' && feature !== null) {
+      if (feature.enabled === false) continue;
+      id = feature.type || feature.name;
+    } else {
+      id = feature;
+    }
+    if (!id) continue;
+
+    const normalized = String(id).trim().toLowerCase();
+    if (!ids.includes(normalized)) {
+      ids.push(normalized);
+    }
+  }
+  return ids.sort();
+}
+
+// Empty wallet fields mean the initial owner receives that share
+function toWallet(value?: string): string | null {
+  const wallet = value?.trim();
+  return wallet ? wallet : null;
+}
+
+// Convert contract details from a request body into builder options
+export function toBuildOptions(details: ContractDetailsInput): TokenBuildOptions {
+  const missing = (['name', 'symbol', 'totalSupply'] as const).filter(field => !details[field]);
+  if (missing.length > 0) {
+    throw new TokenBuildError(missing.map(field => `${field} is required`));
+  }
+
+  return {
+    name: String(details.name).trim(),
+    symbol: String(details.symbol).trim(),
+    decimals: details.decimals === undefined || details.decimals === '' ? 18 : Number(details.decimals),
+    totalSupply: String(details.totalSupply).trim(),
+    features: normalizeFeatures(details.features),
+    template: details.template === undefined || details.template === '' ? 'standard' : (String(details.template) as TokenTemplate),
+    reflectionFee: details.reflectionFee === undefined || details.reflectionFee === '' ? DEFAULT_REFLECTION_FEE : Number(details.reflectionFee),
+    buyTax: Number(details.buyTax) || 0,
+    sellTax: Number(details.sellTax) || 0,
+    taxDistribution: normalizeTaxDistribution(details.taxDistribution),
+    taxWallets: {
+      marketing: toWallet(details.marketingWallet),
+      dev: toWallet(details.devWallet),
+      treasury: toWallet(details.treasuryWallet),
+    },
+    antiBot: normalizeAntiBotSettings(details.antiBot),
+    limits: normalizeTransactionLimits(details.limits),
+    dividends: normalizeDividendSettings(details.dividends),
+    allocations: normalizeAllocations(details.allocations),
+    upgradeable: normalizeProxyKind(details.upgradeable),
+  };
+}
+
+// Single entry point used by every route that turns ContractDetails into Solidity. Upgrades pass the
+// details of the deployed version, the new one then initializes only what it adds.
+export function generateTokenContract(
+  details: ContractDetailsInput,
+  upgrade?: { previous: ContractDetailsInput; version: number }
+): ComposedContract {
+  return composeTokenContract(
+    toBuildOptions(details),
+    upgrade && { previous: toBuildOptions(upgrade.previous), version: upgrade.version }
+  );
+}
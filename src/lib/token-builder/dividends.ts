@@ -0,0 +1,263 @@
+import { ethers } from 'ethers';
+import type { DividendSettings } from '@/types';
+import { ContractDetailsInput, TokenBuildOptions } from './types';
+
+// Reward token value for dividends paid in the chain's native currency
+export const NATIVE_DIVIDEND_TOKEN = 'native';
+
+export const DEFAULT_DIVIDEND_SETTINGS: DividendSettings = {
+  rewardToken: NATIVE_DIVIDEND_TOKEN,
+  claimWait: 3600,
+  gasForProcessing: 300000,
+  minimumTokenBalance: '0',
+};
+
+// Inclusive bounds, the same ones the generated contracts enforce when the owner changes them later
+export const CLAIM_WAIT_LIMITS = { min: 3600, max: 86400 };
+export const GAS_FOR_PROCESSING_LIMITS = { min: 200000, max: 500000 };
+
+// Read dividend settings from a request body, missing values fall back to the defaults
+export function normalizeDividendSettings(input?: ContractDetailsInput['dividends']): DividendSettings {
+  const settings = { ...DEFAULT_DIVIDEND_SETTINGS };
+  if (input?.rewardToken) {
+    settings.rewardToken = String(input.rewardToken).trim();
+  }
+  if (input?.claimWait !== undefined && input.claimWait !== '') {
+    settings.claimWait = Number(input.claimWait);
+  }
+  if (input?.gasForProcessing !== undefined && input.gasForProcessing !== '') {
+    settings.gasForProcessing = Number(input.gasForProcessing);
+  }
+  if (input?.minimumTokenBalance !== undefined && input.minimumTokenBalance !== '') {
+    settings.minimumTokenBalance = String(input.minimumTokenBalance).trim();
+  }
+  return settings;
+}
+
+export function validateDividendSettings(options: TokenBuildOptions): string[] {
+  const dividendShare = options.taxDistribution.dividends ?? 0;
+  if (options.template !== 'dividend') {
+    return dividendShare > 0 ? ['Only dividend tokens can have a dividends share'] : [];
+  }
+
+  const problems: string[] = [];
+  const { rewardToken, claimWait, gasForProcessing, minimumTokenBalance } = options.dividends;
+  if (options.buyTax === 0 && options.sellTax === 0) {
+    problems.push('Dividend tokens pay holders from the buy and sell tax, set a tax above 0');
+  }
+  if (dividendShare <= 0) {
+    problems.push('Dividend tokens need a dividends share in the fee distribution');
+  }
+  if (rewardToken !== NATIVE_DIVIDEND_TOKEN && (!ethers.isAddress(rewardToken) || rewardToken === ethers.ZeroAddress)) {
+    problems.push('The dividend reward token must be the native currency or a token address');
+  }
+  if (!Number.isInteger(claimWait) || claimWait < CLAIM_WAIT_LIMITS.min || claimWait > CLAIM_WAIT_LIMITS.max) {
+    problems.push(`Claim wait must be a whole number of seconds between ${CLAIM_WAIT_LIMITS.min} and ${CLAIM_WAIT_LIMITS.max}`);
+  }
+  if (
+    !Number.isInteger(gasForProcessing) ||
+    gasForProcessing < GAS_FOR_PROCESSING_LIMITS.min ||
+    gasForProcessing > GAS_FOR_PROCESSING_LIMITS.max
+  ) {
+    problems.push(`Gas for processing must be between ${GAS_FOR_PROCESSING_LIMITS.min} and ${GAS_FOR_PROCESSING_LIMITS.max}`);
+  }
+  if (!/^\d+$/.test(minimumTokenBalance)) {
+    problems.push('Minimum balance for dividends must be a whole number of tokens');
+  } else if (/^\d+$/.test(options.totalSupply) && BigInt(minimumTokenBalance) > BigInt(options.totalSupply)) {
+    problems.push('Minimum balance for dividends cannot exceed the total supply');
+  }
+  return problems;
+}
+
+export function isNativeDividendToken(options: TokenBuildOptions): boolean {
+  return options.dividends.rewardToken === NATIVE_DIVIDEND_TOKEN;
+}
+
+// The tracker is a separate contract in the same source file, deployed after the token
+export function toDividendTrackerName(contractName: string): string {
+  return `${contractName}DividendTracker`;
+}
+
+// Pro-rata dividend tracker: shares mirror token balances, every distribution raises the dividend per share
+// and each holder's correction term keeps shares bought later from earning dividends paid out before.
+// Only the token can change shares or distribute, holders claim through the token or get paid by process().
+export function dividendTrackerContract(trackerName: string, options: TokenBuildOptions): string {
+  const native = isNativeDividendToken(options);
+  const { claimWait, minimumTokenBalance } = options.dividends;
+
+  return `// Pays out ${native ? 'native currency' : 'the reward token'} to token holders pro rata
+contract ${trackerName} {
+    uint256 private constant MAGNITUDE = 2**128;
+
+    address public immutable token;
+${native ? '' : `    address public immutable rewardToken = ${ethers.getAddress(options.dividends.rewardToken.toLowerCase())};\n`}
+    uint256 public immutable minimumTokenBalanceForDividends;
+    uint256 public claimWait = ${claimWait};
+
+    uint256 public totalShares;
+    uint256 public totalDividendsDistributed;
+    uint256 public totalDividendsWithdrawn;
+    uint256 private magnifiedDividendPerShare;
+
+    mapping(address => uint256) public sharesOf;
+    mapping(address => int256) private magnifiedDividendCorrections;
+    mapping(address => uint256) private withdrawnDividends;
+    mapping(address => uint256) public lastClaimTimes;
+
+    // Holders with shares, iterated by process()
+    address[] private holders;
+    mapping(address => uint256) private holderIndexes;
+    uint256 public lastProcessedIndex;
+
+    event DividendsDistributed(uint256 amount);
+    event DividendWithdrawn(address indexed to, uint256 amount);
+    event Claim(address indexed account, uint256 amount, bool indexed automatic);
+    event ClaimWaitUpdated(uint256 newClaimWait);
+
+    modifier onlyToken() {
+        require(msg.sender == token, "Only the token can call this");
+        _;
+    }
+
+    constructor(address token_) {
+        require(token_ != address(0), "Token cannot be zero address");
+        token = token_;
+        minimumTokenBalanceForDividends = ${minimumTokenBalance} * 10 ** ${options.decimals};
+    }
+
+    function _rewardBalance() private view returns (uint256) {
+        return ${native ? 'address(this).balance' : 'IERC20(rewardToken).balanceOf(address(this))'};
+    }
+
+    // Everything received since the last distribution is spread over the current shares.
+    // Without shares the amount is kept and included in the next distribution.
+    function distributeDividends() external ${native ? 'payable ' : ''}onlyToken {
+        uint256 amount = _rewardBalance() - (totalDividendsDistributed - totalDividendsWithdrawn);
+        if (amount == 0 || totalShares == 0) {
+            return;
+        }
+        magnifiedDividendPerShare += amount * MAGNITUDE / totalShares;
+        totalDividendsDistributed += amount;
+        emit DividendsDistributed(amount);
+    }
+
+    function accumulativeDividendOf(address account) public view returns (uint256) {
+        return uint256(int256(magnifiedDividendPerShare * sharesOf[account]) + magnifiedDividendCorrections[account]) / MAGNITUDE;
+    }
+
+    function withdrawableDividendOf(address account) public view returns (uint256) {
+        return accumulativeDividendOf(account) - withdrawnDividends[account];
+    }
+
+    function withdrawnDividendOf(address account) public view returns (uint256) {
+        return withdrawnDividends[account];
+    }
+
+    function getNumberOfHolders() external view returns (uint256) {
+        return holders.length;
+    }
+
+    function updateClaimWait(uint256 newClaimWait) external onlyToken {
+        require(newClaimWait >= ${CLAIM_WAIT_LIMITS.min} && newClaimWait <= ${CLAIM_WAIT_LIMITS.max}, "Claim wait must be between 1 and 24 hours");
+        claimWait = newClaimWait;
+        emit ClaimWaitUpdated(newClaimWait);
+    }
+
+    // Balances below the minimum hold no shares
+    function setBalance(address account, uint256 balance) external onlyToken {
+        uint256 newShares = balance >= minimumTokenBalanceForDividends ? balance : 0;
+        uint256 currentShares = sharesOf[account];
+
+        if (newShares > currentShares) {
+            uint256 added = newShares - currentShares;
+            magnifiedDividendCorrections[account] -= int256(magnifiedDividendPerShare * added);
+            totalShares += added;
+        } else if (newShares < currentShares) {
+            uint256 removed = currentShares - newShares;
+            magnifiedDividendCorrections[account] += int256(magnifiedDividendPerShare * removed);
+            totalShares -= removed;
+        }
+        sharesOf[account] = newShares;
+
+        if (newShares > 0 && holderIndexes[account] == 0) {
+            holders.push(account);
+            holderIndexes[account] = holders.length;
+        } else if (newShares == 0 && holderIndexes[account] != 0) {
+            uint256 index = holderIndexes[account] - 1;
+            address last = holders[holders.length - 1];
+            holders[index] = last;
+            holderIndexes[last] = index + 1;
+            holders.pop();
+            delete holderIndexes[account];
+        }
+    }
+
+    function processAccount(address account, bool automatic) external onlyToken returns (bool) {
+        return _processAccount(account, automatic);
+    }
+
+    // Pay holders in turn until the gas budget is spent, skipping those paid within claimWait
+    function process(uint256 gas) external onlyToken returns (uint256 iterations, uint256 claims, uint256) {
+        uint256 numberOfHolders = holders.length;
+        if (numberOfHolders == 0) {
+            return (0, 0, lastProcessedIndex);
+        }
+
+        uint256 index = lastProcessedIndex;
+        uint256 gasUsed = 0;
+        uint256 gasLeft = gasleft();
+        while (gasUsed < gas && iterations < numberOfHolders) {
+            index++;
+            if (index >= numberOfHolders) {
+                index = 0;
+            }
+
+            address account = holders[index];
+            if (block.timestamp >= lastClaimTimes[account] + claimWait && _processAccount(account, true)) {
+                claims++;
+            }
+            iterations++;
+
+            uint256 newGasLeft = gasleft();
+            if (gasLeft > newGasLeft) {
+                gasUsed += gasLeft - newGasLeft;
+            }
+            gasLeft = newGasLeft;
+        }
+
+        lastProcessedIndex = index;
+        return (iterations, claims, lastProcessedIndex);
+    }
+
+    function _processAccount(address account, bool automatic) private returns (bool) {
+        uint256 amount = withdrawableDividendOf(account);
+        if (amount == 0) {
+            return false;
+        }
+
+        withdrawnDividends[account] += amount;
+        totalDividendsWithdrawn += amount;
+        if (!_sendReward(account, amount)) {
+            // A holder that cannot receive keeps the dividend and can claim it later
+            withdrawnDividends[account] -= amount;
+            totalDividendsWithdrawn -= amount;
+            return false;
+        }
+
+        lastClaimTimes[account] = block.timestamp;
+        emit DividendWithdrawn(account, amount);
+        emit Claim(account, amount, automatic);
+        return true;
+    }
+
+    function _sendReward(address account, uint256 amount) private returns (bool) {
+${native
+    ? `        // Limited gas so a holder contract cannot make transfers of the token fail
+        (bool success, ) = payable(account).call{value: amount, gas: 3000}("");
+        return success;`
+    : `        // Low level call so tokens that do not return a bool on transfer are supported
+        (bool success, bytes memory data) = rewardToken.call(abi.encodeWithSelector(IERC20.transfer.selector, account, amount));
+        return success && (data.length == 0 || abi.decode(data, (bool)));`}
+    }
+}`;
+}
@@ -0,0 +1,73 @@
+export { composeTokenContract, resolveModules, toContractName, TokenBuildError } from './composer';
+export { generateTokenContract, normalizeFeatures, toBuildOptions } from './details';
+export { TOKEN_MODULES, BASE_MODULES } from './modules';
+export {
+  ALLOCATION_BASIS_POINTS,
+  DEFAULT_ALLOCATIONS,
+  MAX_ALLOCATIONS,
+  MAX_VESTING_DAYS,
+  normalizeAllocations,
+  toVestingWalletName,
+  validateAllocations,
+} from './allocations';
+export {
+  ANTI_BOT_FEATURES,
+  DEFAULT_ANTI_BOT_SETTINGS,
+  normalizeAntiBotSettings,
+  validateAntiBotSettings,
+} from './anti-bot';
+export {
+  DEFAULT_TRANSACTION_LIMITS,
+  LIMIT_BASIS_POINTS,
+  LIMIT_NAMES,
+  normalizeTransactionLimits,
+  validateTransactionLimits,
+} from './limits';
+export {
+  CLAIM_WAIT_LIMITS,
+  DEFAULT_DIVIDEND_SETTINGS,
+  GAS_FOR_PROCESSING_LIMITS,
+  NATIVE_DIVIDEND_TOKEN,
+  normalizeDividendSettings,
+  toDividendTrackerName,
+  validateDividendSettings,
+} from './dividends';
+export {
+  DEFAULT_REFLECTION_FEE,
+  MAX_REFLECTION_FEE,
+  REFLECTION_INCOMPATIBLE_FEATURES,
+  TOKEN_TEMPLATES,
+  validateReflectionFee,
+} from './reflection';
+export {
+  DEFAULT_TAX_DISTRIBUTION,
+  TAX_BASIS_POINTS,
+  TAX_SHARES,
+  distributionShares,
+  normalizeTaxDistribution,
+  validateTaxDistribution,
+  validateTaxWallets,
+} from './tax';
+export {
+  PROXY_KINDS,
+  normalizeProxyKind,
+  toProxyAdminName,
+  toProxyName,
+  validateUpgradeable,
+} from './upgradeable';
+export type {
+  CompanionContract,
+  ComposedContract,
+  ContractDetailsInput,
+  FeatureInput,
+  HookContribution,
+  HookName,
+  ModuleContext,
+  ModuleContribution,
+  SolidityFunction,
+  SolidityImport,
+  TaxWallet,
+  TokenBuildOptions,
+  TokenModule,
+  TokenUpgrade,
+} from './types';
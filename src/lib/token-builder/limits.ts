@@ -0,0 +1,62 @@
+import type { TokenLimit, TransactionLimits } from '@/types';
+import { ContractDetailsInput, TokenBuildOptions } from './types';
+
+// Percentages may have two decimals, so the contract works in basis points of the initial supply
+export const LIMIT_BASIS_POINTS = 10000;
+
+export const LIMIT_NAMES: Array<keyof TransactionLimits> = ['maxTransaction', 'maxWallet'];
+
+// 1% of the supply, what tax tokens were built with before the limits were configurable
+export const DEFAULT_TRANSACTION_LIMITS: TransactionLimits = {
+  maxTransaction: { mode: 'percent', value: '1' },
+  maxWallet: { mode: 'percent', value: '1' },
+};
+
+const PERCENT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+// Read limits from a request body, missing limits fall back to the defaults
+export function normalizeTransactionLimits(input?: ContractDetailsInput['limits']): TransactionLimits {
+  return Object.fromEntries(
+    LIMIT_NAMES.map(name => {
+      const limit = input?.[name];
+      const value = limit?.value === undefined || limit.value === '' ? undefined : String(limit.value).trim();
+      return [
+        name,
+        {
+          mode: limit?.mode === 'amount' ? 'amount' : 'percent',
+          value: value ?? DEFAULT_TRANSACTION_LIMITS[name].value,
+        },
+      ];
+    })
+  ) as unknown as TransactionLimits;
+}
+
+function toBasisPoints(percent: string): number {
+  return Math.round(Number(percent) * (LIMIT_BASIS_POINTS / 100));
+}
+
+export function validateTransactionLimits(limits: TransactionLimits, totalSupply: string): string[] {
+  const problems: string[] = [];
+  for (const name of LIMIT_NAMES) {
+    const { mode, value } = limits[name];
+    if (mode === 'percent') {
+      const basisPoints = PERCENT_PATTERN.test(value) ? toBasisPoints(value) : 0;
+      if (basisPoints < 1 || basisPoints > LIMIT_BASIS_POINTS) {
+        problems.push(`${name} must be a percentage between 0.01 and 100 with at most two decimals`);
+      }
+    } else if (!/^\d+$/.test(value) || BigInt(value) === BigInt(0)) {
+      problems.push(`${name} must be a whole number of tokens greater than zero`);
+    } else if (/^\d+$/.test(totalSupply) && BigInt(value) > BigInt(totalSupply)) {
+      problems.push(`${name} cannot exceed the total supply of ${totalSupply}`);
+    }
+  }
+  return problems;
+}
+
+// Solidity expression for the initial value of a limit, in the smallest token unit
+export function limitExpression(limit: TokenLimit, options: TokenBuildOptions): string {
+  if (limit.mode === 'amount') {
+    return `${limit.value} * 10 ** decimals()`;
+  }
+  return `${options.totalSupply} * 10 ** decimals() * ${toBasisPoints(limit.value)} / ${LIMIT_BASIS_POINTS}`;
+}
@@ -0,0 +1,1139 @@
+import { ethers } from 'ethers';
+import { ModuleContext, ModuleContribution, TokenModule } from './types';
+import { TAX_BASIS_POINTS } from './tax';
+import { limitExpression } from './limits';
+import { MAX_REFLECTION_FEE, REFLECTION_BASE_CONTRACT, REFLECTION_INCOMPATIBLE_FEATURES } from './reflection';
+import {
+  dividendTrackerContract,
+  GAS_FOR_PROCESSING_LIMITS,
+  isNativeDividendToken,
+  toDividendTrackerName,
+} from './dividends';
+import {
+  activeAllocations,
+  ALLOCATION_BASIS_POINTS,
+  isVestedAllocation,
+  toAllocationBasisPoints,
+  toVestingWalletName,
+  vestingWalletContract,
+} from './allocations';
+import { proxyAdminContract, proxyContract, toProxyAdminName, toProxyName } from './upgradeable';
+
+// Ownership is always present, privileged functions fall back to onlyOwner
+const ownableModule: TokenModule = {
+  id: 'ownable',
+  order: 0,
+  contribute: () => ({
+    imports: [{ symbol: 'Ownable', path: '@openzeppelin/contracts/access/Ownable.sol' }],
+    inherits: ['Ownable'],
+    constructorInitializers: ['Ownable()'],
+    constructorSteps: ['_transferOwnership(initialOwner);'],
+  }),
+};
+
+// Upgradeable tokens run as an implementation behind a proxy that is deployed with it.
+// ERC20 writes name and symbol in its constructor, which only ever runs for the implementation,
+// so both are returned as constants; the composer moves the rest of the setup into initialize().
+const upgradeableModule: TokenModule = {
+  id: 'upgradeable',
+  order: 1,
+  contribute: ({ options, contractName, guard }) => {
+    const uups = options.upgradeable === 'uups';
+    const proxyName = toProxyName(contractName);
+    const adminName = toProxyAdminName(contractName);
+
+    return {
+      imports: [
+        { symbol: 'Initializable', path: '@openzeppelin/contracts/proxy/utils/Initializable.sol' },
+        ...(uups
+          ? [
+              { symbol: 'UUPSUpgradeable', path: '@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol' },
+              { symbol: 'ERC1967Proxy', path: '@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol' },
+            ]
+          : [
+              { symbol: 'TransparentUpgradeableProxy', path: '@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol' },
+              { symbol: 'ProxyAdmin', path: '@openzeppelin/contracts/proxy/transparent/ProxyAdmin.sol' },
+            ]),
+      ],
+      inherits: uups ? ['Initializable', 'UUPSUpgradeable'] : ['Initializable'],
+      companions: [
+        { contractName: proxyName, code: proxyContract(proxyName, uups ? 'uups' : 'transparent') },
+        ...(uups ? [] : [{ contractName: adminName, code: proxyAdminContract(adminName) }]),
+      ],
+      functions: [
+        {
+          name: 'name',
+          code: `    function name() public pure override returns (string memory) {
+        return ${JSON.stringify(options.name)};
+    }`,
+        },
+        {
+          name: 'symbol',
+          code: `    function symbol() public pure override returns (string memory) {
+        return ${JSON.stringify(options.symbol)};
+    }`,
+        },
+        ...(uups
+          ? [
+              {
+                name: '_authorizeUpgrade',
+                code: `    function _authorizeUpgrade(address newImplementation) internal override ${guard('UPGRADER_ROLE')} {}`,
+              },
+            ]
+          : []),
+      ],
+    };
+  },
+};
+
+// Trading stays closed for everyone except excluded accounts until openTrading() is called.
+// Pairs registered as automated market makers tell buys and sells apart for taxes and launch protections.
+const tradingModule: TokenModule = {
+  id: 'trading',
+  order: 10,
+  contribute: ({ has }) => ({
+    state: [
+      'bool public tradingOpen = false;',
+      'uint256 public launchBlock;',
+      'mapping(address => bool) private _isExcludedFromFees;',
+      'mapping(address => bool) private automatedMarketMakerPairs;',
+    ],
+    events: [
+      'event ExcludeFromFees(address indexed account, bool isExcluded);',
+      'event SetAutomatedMarketMakerPair(address indexed pair, bool indexed value);',
+    ],
+    constructorSteps: ['_isExcludedFromFees[initialOwner] = true;'],
+    functions: [
+      {
+        name: 'openTrading',
+        code: `    function openTrading() external onlyOwner {${has('tax') ? `
+        require(address(uniswapV2Router) != address(0), "Router not set");` : ''}
+        if (!tradingOpen) {
+            launchBlock = block.number;
+        }
+        tradingOpen = true;
+    }`,
+      },
+      {
+        name: 'setAutomatedMarketMakerPair',
+        code: `    function setAutomatedMarketMakerPair(address pair, bool value) public onlyOwner {
+        automatedMarketMakerPairs[pair] = value;
+        emit SetAutomatedMarketMakerPair(pair, value);
+    }`,
+      },
+      {
+        name: 'excludeFromFees',
+        code: `    function excludeFromFees(address account, bool excluded) external onlyOwner {
+        _isExcludedFromFees[account] = excluded;
+        emit ExcludeFromFees(account, excluded);
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 10,
+        code: `        if (!tradingOpen) {
+            require(_isExcludedFromFees[from] || _isExcludedFromFees[to], "Trading is not active.");
+        }`,
+      },
+    ],
+  }),
+};
+
+// Max transaction and max wallet size, applied to every token whether it is taxed or not.
+// The owner can only raise the limits, so they cannot be tightened on holders after launch.
+const limitsModule: TokenModule = {
+  id: 'limits',
+  order: 15,
+  contribute: ({ options }) => ({
+    state: [
+      'uint256 public maxTransactionAmount;',
+      'uint256 public maxWallet;',
+      'mapping(address => bool) private _isExcludedFromLimits;',
+    ],
+    events: [
+      'event ExcludeFromLimits(address indexed account, bool isExcluded);',
+      'event MaxTransactionAmountUpdated(uint256 maxTransactionAmount);',
+      'event MaxWalletUpdated(uint256 maxWallet);',
+    ],
+    constructorSteps: [
+      `maxTransactionAmount = ${limitExpression(options.limits.maxTransaction, options)};`,
+      `maxWallet = ${limitExpression(options.limits.maxWallet, options)};`,
+      '_isExcludedFromLimits[initialOwner] = true;',
+      '_isExcludedFromLimits[address(this)] = true;',
+      '_isExcludedFromLimits[address(0xdead)] = true;',
+    ],
+    functions: [
+      {
+        name: 'setMaxTransactionAmount',
+        code: `    function setMaxTransactionAmount(uint256 newMaxTransactionAmount) external onlyOwner {
+        require(newMaxTransactionAmount >= maxTransactionAmount, "Max transaction can only be raised");
+        maxTransactionAmount = newMaxTransactionAmount;
+        emit MaxTransactionAmountUpdated(newMaxTransactionAmount);
+    }`,
+      },
+      {
+        name: 'setMaxWallet',
+        code: `    function setMaxWallet(uint256 newMaxWallet) external onlyOwner {
+        require(newMaxWallet >= maxWallet, "Max wallet can only be raised");
+        maxWallet = newMaxWallet;
+        emit MaxWalletUpdated(newMaxWallet);
+    }`,
+      },
+      {
+        name: 'removeTokensLimits',
+        code: `    function removeTokensLimits() external onlyOwner {
+        maxTransactionAmount = type(uint256).max;
+        maxWallet = type(uint256).max;
+        emit MaxTransactionAmountUpdated(maxTransactionAmount);
+        emit MaxWalletUpdated(maxWallet);
+    }`,
+      },
+      {
+        name: 'excludeFromLimits',
+        code: `    function excludeFromLimits(address account, bool excluded) external onlyOwner {
+        _isExcludedFromLimits[account] = excluded;
+        emit ExcludeFromLimits(account, excluded);
+    }`,
+      },
+      {
+        name: 'isExcludedFromLimits',
+        code: `    function isExcludedFromLimits(address account) public view returns (bool) {
+        return _isExcludedFromLimits[account];
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 20,
+        code: `        // Check transaction limits, transfers from or to an excluded account are not limited
+        if (!_isExcludedFromLimits[from] && !_isExcludedFromLimits[to]) {
+            if (automatedMarketMakerPairs[from]) {
+                require(amount <= maxTransactionAmount, "Buy transfer amount exceeds the maxTransactionAmount.");
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+            else if (automatedMarketMakerPairs[to]) {
+                require(amount <= maxTransactionAmount, "Sell transfer amount exceeds the maxTransactionAmount.");
+            }
+            else {
+                require(amount + balanceOf(to) <= maxWallet, "Max wallet exceeded");
+            }
+        }`,
+      },
+    ],
+  }),
+};
+
+// Reflection template: the token is built on ReflectionERC20 instead of OpenZeppelin's ERC20 and a fee on
+// every transfer is redistributed to holders. The buy and sell tax still work on top through the tax module.
+const reflectionModule: TokenModule = {
+  id: 'reflection',
+  order: 17,
+  conflicts: REFLECTION_INCOMPATIBLE_FEATURES,
+  contribute: ctx => ({
+    imports: [
+      { symbol: 'Context', path: '@openzeppelin/contracts/utils/Context.sol' },
+      { symbol: 'IERC20', path: '@openzeppelin/contracts/token/ERC20/IERC20.sol' },
+      { symbol: 'IERC20Metadata', path: '@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol' },
+    ],
+    declarations: [REFLECTION_BASE_CONTRACT],
+    baseContract: 'ReflectionERC20',
+    state: [
+      `uint256 public constant MAX_REFLECTION_FEE = ${MAX_REFLECTION_FEE};`,
+      `uint256 public reflectionFee = ${ctx.options.reflectionFee};`,
+    ],
+    functions: [
+      {
+        name: 'setReflectionFee',
+        code: `    function setReflectionFee(uint256 newReflectionFee) external onlyOwner {
+        require(newReflectionFee <= MAX_REFLECTION_FEE, "Reflection fee too high");
+        reflectionFee = newReflectionFee;
+    }`,
+      },
+      {
+        name: 'excludeFromReward',
+        code: `    function excludeFromReward(address account, bool excluded) external onlyOwner {
+        _setExcludedFromReward(account, excluded);
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 25,
+        code: `        // Redistribute the reflection fee to holders
+        if (reflectionFee > 0 && !_isExcludedFromFees[from] && !_isExcludedFromFees[to]${ctx.has('tax') ? ' && !swapping' : ''}) {
+            uint256 reflectedFee = amount * reflectionFee / 100;
+            _reflect(from, reflectedFee);
+            amount = amount - reflectedFee;
+        }`,
+      },
+    ],
+  }),
+};
+
+// Solidity address literals must be checksummed, unset wallets fall back to the initial owner
+function walletLiteral(wallet: string | null): string {
+  return wallet ? ethers.getAddress(wallet) : 'initialOwner';
+}
+
+// Buy/sell fees collected by the contract: a share is burned, the rest is swapped to ETH and split
+// between marketing, auto-liquidity, dev and treasury by basis points the owner can change later
+const taxModule: TokenModule = {
+  id: 'tax',
+  order: 20,
+  requires: ['trading'],
+  contribute: ctx => taxContribution(ctx),
+};
+
+function taxContribution({ options, has }: ModuleContext): ModuleContribution {
+  // Dividend tokens add a sixth share that is paid to holders through the dividend tracker
+  const dividends = has('dividends');
+  const shareArguments = ['marketing', 'liquidity', 'burn', 'dev', 'treasury', ...(dividends ? ['dividend'] : [])];
+
+  return {
+    declarations: [
+      `// Uniswap Router Interface for token swaps
+interface IUniswapV2Router02 {
+    function factory() external pure returns (address);
+    function WETH() external pure returns (address);
+    function swapExactTokensForETHSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external;${dividends ? `
+    function swapExactETHForTokensSupportingFeeOnTransferTokens(
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable;` : ''}
+    function addLiquidityETH(
+        address token,
+        uint256 amountTokenDesired,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity);
+}`,
+    ],
+    state: [
+      'uint256 public constant MAX_TAX = 50;',
+      `uint256 public buyTax = ${options.buyTax};`,
+      `uint256 public sellTax = ${options.sellTax};`,
+      `uint256 public constant FEE_DENOMINATOR = ${TAX_BASIS_POINTS};`,
+      `uint256 public marketingShare = ${options.taxDistribution.marketing};`,
+      `uint256 public liquidityShare = ${options.taxDistribution.liquidity};`,
+      `uint256 public burnShare = ${options.taxDistribution.burn};`,
+      `uint256 public devShare = ${options.taxDistribution.dev};`,
+      `uint256 public treasuryShare = ${options.taxDistribution.treasury};`,
+      ...(dividends ? [`uint256 public dividendShare = ${options.taxDistribution.dividends ?? 0};`] : []),
+      'address public marketingWallet;',
+      'address public devWallet;',
+      'address public treasuryWallet;',
+      'address private deployerWallet;',
+      'IUniswapV2Router02 public uniswapV2Router;',
+      'address public uniswapV2Pair;',
+      'bool private swapping;',
+      'uint256 public swapTokensAtAmount;',
+    ],
+    events: [
+      `event FeeDistributionUpdated(${shareArguments.map(share => `uint256 ${share}Share`).join(', ')});`,
+    ],
+    constructorSteps: [
+      `marketingWallet = ${walletLiteral(options.taxWallets.marketing)};`,
+      `devWallet = ${walletLiteral(options.taxWallets.dev)};`,
+      `treasuryWallet = ${walletLiteral(options.taxWallets.treasury)};`,
+      'deployerWallet = initialOwner;',
+      `swapTokensAtAmount = ${options.totalSupply} * 10 ** decimals() * 1 / 100; // 1% of supply`,
+    ],
+    functions: [
+      {
+        name: 'setUniswapV2Router',
+        code: `    // Called once after deployment: routers differ per chain, keeping them out of the constructor
+    // keeps the creation code and with it the CREATE2 address the same on every chain
+    function setUniswapV2Router(address router) external onlyOwner {
+        require(address(uniswapV2Router) == address(0), "Router already set");
+        require(router != address(0), "Router cannot be zero address");
+        uniswapV2Router = IUniswapV2Router02(router);
+    }`,
+      },
+      {
+        name: 'setBuyTax',
+        code: `    function setBuyTax(uint256 newBuyTax) public onlyOwner {
+        require(newBuyTax <= MAX_TAX, "Tax cannot exceed 50%");
+        buyTax = newBuyTax;
+    }`,
+      },
+      {
+        name: 'setSellTax',
+        code: `    function setSellTax(uint256 newSellTax) public onlyOwner {
+        require(newSellTax <= MAX_TAX, "Tax cannot exceed 50%");
+        sellTax = newSellTax;
+    }`,
+      },
+      {
+        name: 'setTaxes',
+        code: `    function setTaxes(uint256 newBuyTax, uint256 newSellTax) public onlyOwner {
+        require(newBuyTax <= MAX_TAX && newSellTax <= MAX_TAX, "Tax cannot exceed 50%");
+        buyTax = newBuyTax;
+        sellTax = newSellTax;
+    }`,
+      },
+      {
+        name: 'setMarketingWallet',
+        code: `    function setMarketingWallet(address _marketingWallet) external onlyOwner {
+        require(_marketingWallet != address(0), "Marketing wallet cannot be zero address");
+        marketingWallet = _marketingWallet;
+    }`,
+      },
+      {
+        name: 'setDevWallet',
+        code: `    function setDevWallet(address _devWallet) external onlyOwner {
+        require(_devWallet != address(0), "Dev wallet cannot be zero address");
+        devWallet = _devWallet;
+    }`,
+      },
+      {
+        name: 'setTreasuryWallet',
+        code: `    function setTreasuryWallet(address _treasuryWallet) external onlyOwner {
+        require(_treasuryWallet != address(0), "Treasury wallet cannot be zero address");
+        treasuryWallet = _treasuryWallet;
+    }`,
+      },
+      {
+        name: 'setFeeDistribution',
+        code: `    function setFeeDistribution(
+${shareArguments.map(share => `        uint256 _${share}Share`).join(',\n')}
+    ) external onlyOwner {
+        require(
+            ${shareArguments.map(share => `_${share}Share`).join(' + ')} == FEE_DENOMINATOR,
+            "Fee shares must add up to 100%"
+        );
+${shareArguments.map(share => `        ${share}Share = _${share}Share;`).join('\n')}
+        emit FeeDistributionUpdated(${shareArguments.map(share => `_${share}Share`).join(', ')});
+    }`,
+      },
+      {
+        name: 'clearStuckTheEth',
+        code: `    function clearStuckTheEth() external {
+        require(_msgSender() == deployerWallet);
+        require(address(this).balance > 0, "Token: no ETH to clear");
+        payable(msg.sender).transfer(address(this).balance);
+    }`,
+      },
+      {
+        name: 'swapTokensForEth',
+        code: `    function swapTokensForEth(uint256 tokenAmount) private {
+        // Generate the uniswap pair path of token -> WETH
+        address[] memory path = new address[](2);
+        path[0] = address(this);
+        path[1] = uniswapV2Router.WETH();
+
+        _approve(address(this), address(uniswapV2Router), tokenAmount);
+
+        // Make the swap
+        uniswapV2Router.swapExactTokensForETHSupportingFeeOnTransferTokens(
+            tokenAmount,
+            0, // Accept any amount of ETH
+            path,
+            address(this), // Split by swapBack
+            block.timestamp
+        );
+    }`,
+      },
+      {
+        name: 'addLiquidity',
+        code: `    function addLiquidity(uint256 tokenAmount, uint256 ethAmount) private {
+        _approve(address(this), address(uniswapV2Router), tokenAmount);
+
+        // LP tokens go to the owner, or are burned once ownership is renounced
+        uniswapV2Router.addLiquidityETH{value: ethAmount}(
+            address(this),
+            tokenAmount,
+            0,
+            0,
+            owner(),
+            block.timestamp
+        );
+    }`,
+      },
+      {
+        name: 'receive',
+        code: `    // Receives ETH from the router during swaps
+    receive() external payable {}`,
+      },
+      {
+        name: 'swapBack',
+        code: `    function swapBack(uint256 tokens) private {
+        uint256 contractBalance = balanceOf(address(this));
+
+        if (contractBalance == 0 || tokens == 0) {
+            return;
+        }
+
+        uint256 tokensToSwap = tokens > contractBalance ? contractBalance : tokens;
+
+        if (tokensToSwap > swapTokensAtAmount) {
+            tokensToSwap = swapTokensAtAmount;
+        }
+
+        // Burned fees never reach the contract, so its balance is split over the remaining shares
+        uint256 totalShares = marketingShare + liquidityShare + devShare + treasuryShare${dividends ? ' + dividendShare' : ''};
+        if (tokensToSwap == 0 || totalShares == 0) {
+            return;
+        }
+
+        // Half of the liquidity share stays in tokens and is paired with the ETH from the other half
+        uint256 liquidityTokens = tokensToSwap * liquidityShare / totalShares / 2;
+        uint256 initialETHBalance = address(this).balance;
+        swapTokensForEth(tokensToSwap - liquidityTokens);
+        uint256 ethBalance = address(this).balance - initialETHBalance;
+
+        // Shares of the swapped ETH in half basis points, the liquidity share only swapped half its tokens
+        uint256 ethShares = totalShares * 2 - liquidityShare;
+        uint256 ethForLiquidity = ethBalance * liquidityShare / ethShares;
+        uint256 ethForDev = ethBalance * devShare * 2 / ethShares;
+        uint256 ethForTreasury = ethBalance * treasuryShare * 2 / ethShares;${dividends ? `
+        uint256 ethForDividends = ethBalance * dividendShare * 2 / ethShares;` : ''}
+        uint256 ethForMarketing = ethBalance - ethForLiquidity - ethForDev - ethForTreasury${dividends ? ' - ethForDividends' : ''};
+
+        if (liquidityTokens > 0 && ethForLiquidity > 0) {
+            addLiquidity(liquidityTokens, ethForLiquidity);
+        }${dividends ? `
+
+        // Without a tracker or holders to pay, the dividend share goes to marketing
+        if (ethForDividends > 0 && !sendDividends(ethForDividends)) {
+            ethForMarketing += ethForDividends;
+        }` : ''}
+
+        // A wallet that rejects ETH must not block transfers, its share stays claimable via clearStuckTheEth
+        bool success;
+        if (ethForDev > 0) {
+            (success, ) = payable(devWallet).call{value: ethForDev}("");
+        }
+        if (ethForTreasury > 0) {
+            (success, ) = payable(treasuryWallet).call{value: ethForTreasury}("");
+        }
+        if (ethForMarketing > 0) {
+            (success, ) = payable(marketingWallet).call{value: ethForMarketing}("");
+        }
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 30,
+        code: `        // Indicates if fee should be deducted from transfer
+        bool takeFee = !swapping;
+
+        // If any account belongs to _isExcludedFromFee then remove the fee
+        if (_isExcludedFromFees[from] || _isExcludedFromFees[to]) {
+            takeFee = false;
+        }
+
+        // Calculate fees
+        uint256 fees = 0;
+        if (takeFee) {
+            if (automatedMarketMakerPairs[to]) {
+                // Sell transfer
+                fees = amount * sellTax / 100;
+            } else if (automatedMarketMakerPairs[from]) {
+                // Buy transfer
+                fees = amount * buyTax / 100;
+            }
+
+            if (fees > 0) {
+                // The burn share is destroyed right away, the rest is collected for swapBack
+                uint256 burnFees = fees * burnShare / FEE_DENOMINATOR;
+                if (burnFees > 0) {
+                    _burn(from, burnFees);
+                }
+                if (fees > burnFees) {
+                    super._transfer(from, address(this), fees - burnFees);
+                }
+                amount = amount - fees;
+            }
+        }
+
+        // Process accumulated fees
+        uint256 contractTokenBalance = balanceOf(address(this));
+        bool canSwap = contractTokenBalance > swapTokensAtAmount && !swapping;
+
+        if (canSwap && !automatedMarketMakerPairs[from] && !_isExcludedFromFees[from] && !_isExcludedFromFees[to]) {
+            swapping = true;
+            swapBack(swapTokensAtAmount);
+            swapping = false;
+        }`,
+      },
+    ],
+  };
+}
+
+// Dividend template: the dividend share of the fees is paid to holders through a tracker contract that is
+// generated with the token, deployed right after it and linked once with setDividendTracker.
+// Holder shares are synced after every balance change and a few holders are paid on each transfer.
+const dividendsModule: TokenModule = {
+  id: 'dividends',
+  order: 26,
+  requires: ['tax'],
+  conflicts: ['reflection'],
+  contribute: ({ options, contractName, has }) => {
+    const trackerName = toDividendTrackerName(contractName);
+    const native = isNativeDividendToken(options);
+
+    return {
+      imports: native ? [] : [{ symbol: 'IERC20', path: '@openzeppelin/contracts/token/ERC20/IERC20.sol' }],
+      companions: [{ contractName: trackerName, code: dividendTrackerContract(trackerName, options) }],
+      state: [
+        `${trackerName} public dividendTracker;`,
+        `uint256 public gasForProcessing = ${options.dividends.gasForProcessing};`,
+        'mapping(address => bool) private _isExcludedFromDividends;',
+      ],
+      events: [
+        'event DividendTrackerSet(address indexed tracker);',
+        'event ExcludeFromDividends(address indexed account, bool isExcluded);',
+        'event GasForProcessingUpdated(uint256 newGasForProcessing);',
+        'event ProcessedDividendTracker(uint256 iterations, uint256 claims, uint256 lastProcessedIndex, bool indexed automatic);',
+      ],
+      constructorSteps: [
+        '_isExcludedFromDividends[address(this)] = true;',
+        '_isExcludedFromDividends[address(0xdead)] = true;',
+      ],
+      functions: [
+        {
+          name: 'setDividendTracker',
+          code: `    // Called once after deployment, the owner's balance is synced and other holders on their next transfer
+    function setDividendTracker(address tracker) external onlyOwner {
+        require(address(dividendTracker) == address(0), "Dividend tracker already set");
+        require(${trackerName}(tracker).token() == address(this), "Tracker belongs to another token");
+        dividendTracker = ${trackerName}(tracker);
+        _isExcludedFromDividends[tracker] = true;
+        _syncDividendBalance(owner());${has('allocations') ? `
+        for (uint256 i = 0; i < allocationWallets.length; i++) {
+            _syncDividendBalance(allocationWallets[i]);
+        }` : ''}
+        emit DividendTrackerSet(tracker);
+    }`,
+        },
+        {
+          name: '_syncDividendBalance',
+          code: `    // Pairs and excluded accounts hold no dividend shares
+    function _syncDividendBalance(address account) private {
+        if (account == address(0) || _isExcludedFromDividends[account]) {
+            return;
+        }
+        dividendTracker.setBalance(account, automatedMarketMakerPairs[account] ? 0 : balanceOf(account));
+    }`,
+        },
+        {
+          name: 'excludeFromDividends',
+          code: `    function excludeFromDividends(address account, bool excluded) external onlyOwner {
+        require(address(dividendTracker) != address(0), "Dividend tracker not set");
+        _isExcludedFromDividends[account] = excluded;
+        if (excluded) {
+            dividendTracker.setBalance(account, 0);
+        } else {
+            _syncDividendBalance(account);
+        }
+        emit ExcludeFromDividends(account, excluded);
+    }`,
+        },
+        {
+          name: 'isExcludedFromDividends',
+          code: `    function isExcludedFromDividends(address account) public view returns (bool) {
+        return _isExcludedFromDividends[account];
+    }`,
+        },
+        {
+          name: 'updateGasForProcessing',
+          code: `    function updateGasForProcessing(uint256 newGasForProcessing) external onlyOwner {
+        require(
+            newGasForProcessing >= ${GAS_FOR_PROCESSING_LIMITS.min} && newGasForProcessing <= ${GAS_FOR_PROCESSING_LIMITS.max},
+            "Gas for processing must be between ${GAS_FOR_PROCESSING_LIMITS.min} and ${GAS_FOR_PROCESSING_LIMITS.max}"
+        );
+        gasForProcessing = newGasForProcessing;
+        emit GasForProcessingUpdated(newGasForProcessing);
+    }`,
+        },
+        {
+          name: 'updateClaimWait',
+          code: `    function updateClaimWait(uint256 newClaimWait) external onlyOwner {
+        dividendTracker.updateClaimWait(newClaimWait);
+    }`,
+        },
+        {
+          name: 'withdrawableDividendOf',
+          code: `    function withdrawableDividendOf(address account) public view returns (uint256) {
+        if (address(dividendTracker) == address(0)) {
+            return 0;
+        }
+        return dividendTracker.withdrawableDividendOf(account);
+    }`,
+        },
+        {
+          name: 'claim',
+          code: `    function claim() external {
+        require(address(dividendTracker) != address(0), "Dividend tracker not set");
+        dividendTracker.processAccount(_msgSender(), false);
+    }`,
+        },
+        {
+          name: 'processDividendTracker',
+          code: `    // Anyone can pay out pending dividends when automatic processing falls behind
+    function processDividendTracker(uint256 gas) external {
+        require(address(dividendTracker) != address(0), "Dividend tracker not set");
+        (uint256 iterations, uint256 claims, uint256 lastProcessedIndex) = dividendTracker.process(gas);
+        emit ProcessedDividendTracker(iterations, claims, lastProcessedIndex, false);
+    }`,
+        },
+        {
+          name: 'sendDividends',
+          code: native
+            ? `    function sendDividends(uint256 ethAmount) private returns (bool) {
+        if (address(dividendTracker) == address(0) || dividendTracker.totalShares() == 0) {
+            return false;
+        }
+        try dividendTracker.distributeDividends{value: ethAmount}() {
+            return true;
+        } catch {
+            return false;
+        }
+    }`
+            : `    // Swaps the ETH to the reward token straight into the tracker
+    function sendDividends(uint256 ethAmount) private returns (bool) {
+        if (address(dividendTracker) == address(0) || dividendTracker.totalShares() == 0) {
+            return false;
+        }
+        address[] memory path = new address[](2);
+        path[0] = uniswapV2Router.WETH();
+        path[1] = dividendTracker.rewardToken();
+
+        try uniswapV2Router.swapExactETHForTokensSupportingFeeOnTransferTokens{value: ethAmount}(
+            0,
+            path,
+            address(dividendTracker),
+            block.timestamp
+        ) {
+            dividendTracker.distributeDividends();
+            return true;
+        } catch {
+            return false;
+        }
+    }`,
+        },
+      ],
+      hooks: [
+        {
+          hook: '_transfer',
+          order: 40,
+          code: `        // Pay out dividends to a few holders, a failure must never block the transfer
+        if (!swapping && address(dividendTracker) != address(0)) {
+            try dividendTracker.process(gasForProcessing) returns (uint256 iterations, uint256 claims, uint256 lastProcessedIndex) {
+                emit ProcessedDividendTracker(iterations, claims, lastProcessedIndex, true);
+            } catch {}
+        }`,
+        },
+        {
+          hook: '_afterTokenTransfer',
+          order: 10,
+          code: `        if (address(dividendTracker) != address(0)) {
+            _syncDividendBalance(from);
+            _syncDividendBalance(to);
+        }`,
+        },
+      ],
+    };
+  },
+};
+
+// Tokenomics: the supply is minted to the token and handed out per allocation in the constructor.
+// Vested allocations go to a vesting wallet the token deploys, excluded from fees and limits so
+// releases reach the beneficiary whether or not trading is open.
+const allocationsModule: TokenModule = {
+  id: 'allocations',
+  order: 27,
+  contribute: ({ options, contractName }) => {
+    const allocations = activeAllocations(options);
+    const walletName = toVestingWalletName(contractName);
+    const vested = allocations.some(isVestedAllocation);
+
+    const mintSteps = allocations.map((allocation, index) => {
+      // The last allocation takes what is left so rounding never leaves tokens in the contract
+      const amount = index === allocations.length - 1
+        ? 'balanceOf(address(this))'
+        : `allocationSupply * ${toAllocationBasisPoints(allocation.percent)} / ${ALLOCATION_BASIS_POINTS}`;
+      const beneficiary = walletLiteral(allocation.beneficiary || null);
+      const wallet = isVestedAllocation(allocation)
+        ? `address(new ${walletName}(${JSON.stringify(allocation.name)}, ${beneficiary}, uint64(block.timestamp + ${allocation.cliffDays} days), uint64(${allocation.vestingDays} days)))`
+        : beneficiary;
+      return `_distributeAllocation(${JSON.stringify(allocation.name)}, ${wallet}, ${amount}, ${isVestedAllocation(allocation)});`;
+    });
+
+    return {
+      imports: vested ? [{ symbol: 'VestingWallet', path: '@openzeppelin/contracts/finance/VestingWallet.sol' }] : [],
+      companions: vested ? [{ contractName: walletName, code: vestingWalletContract(walletName) }] : [],
+      state: ['address[] public allocationWallets;'],
+      events: ['event AllocationDistributed(string allocation, address indexed wallet, uint256 amount, bool vested);'],
+      mintSteps: [
+        `uint256 allocationSupply = ${options.totalSupply} * 10 ** decimals();`,
+        '_mint(address(this), allocationSupply);',
+        ...mintSteps,
+      ],
+      functions: [
+        {
+          name: '_distributeAllocation',
+          code: `    function _distributeAllocation(string memory allocation, address wallet, uint256 amount, bool vested) private {
+        if (vested) {
+            _isExcludedFromFees[wallet] = true;
+            _isExcludedFromLimits[wallet] = true;
+        }
+        allocationWallets.push(wallet);
+        super._transfer(address(this), wallet, amount);
+        emit AllocationDistributed(allocation, wallet, amount, vested);
+    }`,
+        },
+        {
+          name: 'getAllocationWallets',
+          code: `    function getAllocationWallets() external view returns (address[] memory) {
+        return allocationWallets;
+    }`,
+        },
+      ],
+    };
+  },
+};
+
+// Condition for a pair trade by a wallet that is not excluded; the tax module's own swaps are skipped
+function isTraderTrade(ctx: ModuleContext): string {
+  const trade = '((automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) || (automatedMarketMakerPairs[to] && !_isExcludedFromFees[from]))';
+  return ctx.has('tax') ? `${trade} && !swapping` : trade;
+}
+
+// Buys in the first blocks after openTrading pay an extra tax, collected with the fees or burned without a tax
+const sniperTaxModule: TokenModule = {
+  id: 'sniper tax',
+  order: 21,
+  contribute: ctx => ({
+    state: [
+      `uint256 public sniperTaxBlocks = ${ctx.options.antiBot.sniperTaxBlocks};`,
+      `uint256 public sniperTax = ${ctx.options.antiBot.sniperTax};`,
+    ],
+    functions: [
+      {
+        name: 'disableSniperTax',
+        code: `    function disableSniperTax() external onlyOwner {
+        sniperTaxBlocks = 0;
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 12,
+        code: `        // Buys right after launch pay the sniper tax
+        if (block.number < launchBlock + sniperTaxBlocks && automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) {
+            uint256 sniperFee = amount * sniperTax / 100;
+            ${ctx.has('tax') ? 'super._transfer(from, address(this), sniperFee);' : '_burn(from, sniperFee);'}
+            amount = amount - sniperFee;
+        }`,
+      },
+    ],
+  }),
+};
+
+// Caps the number of pair trades per block, launch bots bundle many buys into the first blocks
+const blockLimitModule: TokenModule = {
+  id: 'block limit',
+  order: 22,
+  contribute: ctx => ({
+    state: [
+      `uint256 public maxTradesPerBlock = ${ctx.options.antiBot.maxTradesPerBlock};`,
+      'mapping(uint256 => uint256) private _tradesInBlock;',
+    ],
+    functions: [
+      {
+        name: 'removeBlockLimit',
+        code: `    function removeBlockLimit() external onlyOwner {
+        maxTradesPerBlock = type(uint256).max;
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 13,
+        code: `        // Limit pair trades per block
+        if (${isTraderTrade(ctx)}) {
+            _tradesInBlock[block.number] += 1;
+            require(_tradesInBlock[block.number] <= maxTradesPerBlock, "Too many trades in this block");
+        }`,
+      },
+    ],
+  }),
+};
+
+// One pair trade per tx.origin every few blocks, stops contracts that trade in a loop or sandwich
+const transferDelayModule: TokenModule = {
+  id: 'transfer delay',
+  order: 23,
+  contribute: ctx => ({
+    state: [
+      `uint256 public transferDelayBlocks = ${ctx.options.antiBot.transferDelayBlocks};`,
+      'bool public transferDelayEnabled = true;',
+      'mapping(address => uint256) private _holderLastTransferBlock;',
+    ],
+    functions: [
+      {
+        name: 'disableTransferDelay',
+        code: `    function disableTransferDelay() external onlyOwner {
+        transferDelayEnabled = false;
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 14,
+        code: `        // Transfer delay per transaction origin
+        if (transferDelayEnabled && ${isTraderTrade(ctx)}) {
+            require(
+                block.number >= _holderLastTransferBlock[tx.origin] + transferDelayBlocks,
+                "Transfer delay enabled, try again later"
+            );
+            _holderLastTransferBlock[tx.origin] = block.number;
+        }`,
+      },
+    ],
+  }),
+};
+
+// The blacklist only holds until a fixed number of blocks after launch and then expires for good,
+// so it cannot be used to lock holders out later on
+const blacklistModule: TokenModule = {
+  id: 'blacklist',
+  order: 24,
+  contribute: ctx => ({
+    state: [
+      `uint256 public blacklistWindowBlocks = ${ctx.options.antiBot.blacklistWindowBlocks};`,
+      'mapping(address => bool) public blacklisted;',
+    ],
+    events: ['event BlacklistUpdated(address indexed account, bool isBlacklisted);'],
+    functions: [
+      {
+        name: 'blacklistActive',
+        code: `    function blacklistActive() public view returns (bool) {
+        return !tradingOpen || block.number < launchBlock + blacklistWindowBlocks;
+    }`,
+      },
+      {
+        name: 'setBlacklisted',
+        code: `    function setBlacklisted(address[] calldata accounts, bool value) external onlyOwner {
+        require(!value || blacklistActive(), "Blacklist window has expired");
+        for (uint256 i = 0; i < accounts.length; i++) {
+            require(!value || !automatedMarketMakerPairs[accounts[i]], "Cannot blacklist a pair");
+            blacklisted[accounts[i]] = value;
+            emit BlacklistUpdated(accounts[i], value);
+        }
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 11,
+        code: `        // Blacklisted wallets are stopped during the launch window only
+        if (blacklistActive()) {
+            require(!blacklisted[from] && !blacklisted[to], "Blacklisted");
+        }`,
+      },
+    ],
+  }),
+};
+
+// Wallets wait a number of seconds between buys
+const buyCooldownModule: TokenModule = {
+  id: 'buy cooldown',
+  order: 25,
+  contribute: ctx => ({
+    state: [
+      `uint256 public buyCooldown = ${ctx.options.antiBot.buyCooldownSeconds};`,
+      'mapping(address => uint256) private _lastBuyTimestamp;',
+    ],
+    functions: [
+      {
+        name: 'setBuyCooldown',
+        code: `    function setBuyCooldown(uint256 newCooldown) external onlyOwner {
+        require(newCooldown <= buyCooldown, "Cooldown can only be lowered");
+        buyCooldown = newCooldown;
+    }`,
+      },
+    ],
+    hooks: [
+      {
+        hook: '_transfer',
+        order: 15,
+        code: `        // Cooldown between buys
+        if (automatedMarketMakerPairs[from] && !_isExcludedFromFees[to]) {
+            require(block.timestamp >= _lastBuyTimestamp[to] + buyCooldown, "Buy cooldown active");
+            _lastBuyTimestamp[to] = block.timestamp;
+        }`,
+      },
+    ],
+  }),
+};
+
+// Only added when the token does not use the ERC20 default of 18 decimals
+const decimalsModule: TokenModule = {
+  id: 'decimals',
+  order: 5,
+  contribute: ({ options }) => ({
+    functions: [
+      {
+        name: 'decimals',
+        code: `    function decimals() public pure override returns (uint8) {
+        return ${options.decimals};
+    }`,
+      },
+    ],
+  }),
+};
+
+const mintableModule: TokenModule = {
+  id: 'mintable',
+  order: 30,
+  contribute: ({ guard }) => ({
+    functions: [
+      {
+        name: 'mint',
+        code: `    function mint(address to, uint256 amount) public ${guard('MINTER_ROLE')} {
+        _mint(to, amount);
+    }`,
+      },
+    ],
+  }),
+};
+
+const burnableModule: TokenModule = {
+  id: 'burnable',
+  order: 40,
+  contribute: () => ({
+    imports: [{ symbol: 'ERC20Burnable', path: '@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol' }],
+    inherits: ['ERC20Burnable'],
+  }),
+};
+
+const pausableModule: TokenModule = {
+  id: 'pausable',
+  order: 50,
+  contribute: ({ guard }) => ({
+    imports: [{ symbol: 'ERC20Pausable', path: '@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol' }],
+    inherits: ['ERC20Pausable'],
+    functions: [
+      {
+        name: 'pause',
+        code: `    function pause() public ${guard('PAUSER_ROLE')} {
+        _pause();
+    }`,
+      },
+      {
+        name: 'unpause',
+        code: `    function unpause() public ${guard('PAUSER_ROLE')} {
+        _unpause();
+    }`,
+      },
+    ],
+    hookBases: { _beforeTokenTransfer: ['ERC20Pausable'] },
+  }),
+};
+
+// Role constants and grants are added by the composer for every role requested through guard()
+const accessControlModule: TokenModule = {
+  id: 'access control',
+  order: 60,
+  contribute: () => ({
+    imports: [{ symbol: 'AccessControl', path: '@openzeppelin/contracts/access/AccessControl.sol' }],
+    inherits: ['AccessControl'],
+    constructorSteps: ['_grantRole(DEFAULT_ADMIN_ROLE, initialOwner);'],
+  }),
+};
+
+const flashMintModule: TokenModule = {
+  id: 'flash minting',
+  order: 70,
+  contribute: () => ({
+    imports: [{ symbol: 'ERC20FlashMint', path: '@openzeppelin/contracts/token/ERC20/extensions/ERC20FlashMint.sol' }],
+    inherits: ['ERC20FlashMint'],
+  }),
+};
+
+const permitModule: TokenModule = {
+  id: 'permit',
+  order: 80,
+  contribute: ({ options }) => ({
+    imports: [{ symbol: 'ERC20Permit', path: '@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol' }],
+    inherits: ['ERC20Permit'],
+    constructorInitializers: [`ERC20Permit(${JSON.stringify(options.name)})`],
+  }),
+};
+
+const cappedModule: TokenModule = {
+  id: 'capped supply',
+  order: 90,
+  contribute: ({ options }) => ({
+    imports: [{ symbol: 'ERC20Capped', path: '@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol' }],
+    inherits: ['ERC20Capped'],
+    constructorInitializers: [`ERC20Capped(${options.totalSupply} * 10 ** ${options.decimals})`],
+    functions: [
+      {
+        name: 'remainingMintableSupply',
+        code: `    function remainingMintableSupply() public view returns (uint256) {
+        return cap() - totalSupply();
+    }`,
+      },
+      {
+        name: 'getSupplyCap',
+        code: `    function getSupplyCap() public view returns (uint256) {
+        return cap();
+    }`,
+      },
+    ],
+    hookBases: { _mint: ['ERC20Capped'] },
+  }),
+};
+
+// Every module the composer knows about, keyed by feature id
+export const TOKEN_MODULES: Record<string, TokenModule> = Object.fromEntries(
+  [
+    ownableModule,
+    upgradeableModule,
+    decimalsModule,
+    tradingModule,
+    limitsModule,
+    reflectionModule,
+    taxModule,
+    dividendsModule,
+    allocationsModule,
+    sniperTaxModule,
+    blockLimitModule,
+    transferDelayModule,
+    blacklistModule,
+    buyCooldownModule,
+    mintableModule,
+    burnableModule,
+    pausableModule,
+    accessControlModule,
+    flashMintModule,
+    permitModule,
+    cappedModule,
+  ].map(tokenModule => [tokenModule.id, tokenModule])
+);
+
+// Modules that are part of every token regardless of the selected features
+export const BASE_MODULES = ['ownable', 'trading', 'limits'];
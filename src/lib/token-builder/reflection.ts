@@ -0,0 +1,249 @@
+import type { TokenTemplate } from '@/types';
+
+export const TOKEN_TEMPLATES: TokenTemplate[] = ['standard', 'reflection', 'dividend'];
+
+// Highest reflection fee in percent, on top of the buy and sell tax
+export const MAX_REFLECTION_FEE = 10;
+
+export const DEFAULT_REFLECTION_FEE = 2;
+
+// Modules that extend OpenZeppelin's ERC20 internals and cannot sit on top of reflected balances
+export const REFLECTION_INCOMPATIBLE_FEATURES = ['mintable', 'burnable', 'pausable', 'flash minting', 'permit', 'capped supply'];
+
+export function validateReflectionFee(template: TokenTemplate, reflectionFee: number): string[] {
+  if (template !== 'reflection') {
+    return [];
+  }
+  if (!Number.isInteger(reflectionFee) || reflectionFee < 0 || reflectionFee > MAX_REFLECTION_FEE) {
+    return [`Reflection fee must be a whole percentage between 0 and ${MAX_REFLECTION_FEE}`];
+  }
+  return [];
+}
+
+// ERC20 base for the reflection template, replaces OpenZeppelin's ERC20 with the same internal API
+// (_transfer, _approve, _mint, _burn) so the other modules compose on top of it unchanged.
+// Balances are held in reflected units: a reflected fee shrinks the reflected supply, which raises the
+// token balance of every holder that is not excluded. Excluded accounts keep a plain token balance and
+// are left out of the rate, so they neither receive reflections nor dilute them.
+export const REFLECTION_BASE_CONTRACT = `// ERC20 with reflection accounting
+abstract contract ReflectionERC20 is Context, IERC20, IERC20Metadata {
+    uint256 private constant MAX = type(uint256).max;
+
+    mapping(address => uint256) private _rOwned;
+    mapping(address => uint256) private _tOwned;
+    mapping(address => mapping(address => uint256)) private _allowances;
+
+    mapping(address => bool) private _isExcludedFromReward;
+    address[] private _excludedFromReward;
+
+    uint256 private _tTotal;
+    uint256 private _rTotal;
+    uint256 private _tFeeTotal;
+
+    string private _name;
+    string private _symbol;
+
+    event ExcludeFromReward(address indexed account, bool isExcluded);
+
+    constructor(string memory name_, string memory symbol_) {
+        _name = name_;
+        _symbol = symbol_;
+    }
+
+    function name() public view virtual override returns (string memory) {
+        return _name;
+    }
+
+    function symbol() public view virtual override returns (string memory) {
+        return _symbol;
+    }
+
+    function decimals() public view virtual override returns (uint8) {
+        return 18;
+    }
+
+    function totalSupply() public view virtual override returns (uint256) {
+        return _tTotal;
+    }
+
+    function balanceOf(address account) public view virtual override returns (uint256) {
+        if (_isExcludedFromReward[account]) {
+            return _tOwned[account];
+        }
+        return tokenFromReflection(_rOwned[account]);
+    }
+
+    function transfer(address to, uint256 amount) public virtual override returns (bool) {
+        _transfer(_msgSender(), to, amount);
+        return true;
+    }
+
+    function allowance(address holder, address spender) public view virtual override returns (uint256) {
+        return _allowances[holder][spender];
+    }
+
+    function approve(address spender, uint256 amount) public virtual override returns (bool) {
+        _approve(_msgSender(), spender, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) public virtual override returns (bool) {
+        _spendAllowance(from, _msgSender(), amount);
+        _transfer(from, to, amount);
+        return true;
+    }
+
+    function increaseAllowance(address spender, uint256 addedValue) public virtual returns (bool) {
+        _approve(_msgSender(), spender, allowance(_msgSender(), spender) + addedValue);
+        return true;
+    }
+
+    function decreaseAllowance(address spender, uint256 subtractedValue) public virtual returns (bool) {
+        uint256 currentAllowance = allowance(_msgSender(), spender);
+        require(currentAllowance >= subtractedValue, "ERC20: decreased allowance below zero");
+        _approve(_msgSender(), spender, currentAllowance - subtractedValue);
+        return true;
+    }
+
+    // Total amount of tokens reflected to holders so far
+    function totalFees() public view returns (uint256) {
+        return _tFeeTotal;
+    }
+
+    function isExcludedFromReward(address account) public view returns (bool) {
+        return _isExcludedFromReward[account];
+    }
+
+    function reflectionFromToken(uint256 tAmount) public view returns (uint256) {
+        require(tAmount <= _tTotal, "Amount must be less than supply");
+        return tAmount * _getRate();
+    }
+
+    function tokenFromReflection(uint256 rAmount) public view returns (uint256) {
+        require(rAmount <= _rTotal, "Amount must be less than total reflections");
+        return rAmount / _getRate();
+    }
+
+    // Reflected units per token, computed over the holders that receive reflections
+    function _getRate() private view returns (uint256) {
+        uint256 rSupply = _rTotal;
+        uint256 tSupply = _tTotal;
+        for (uint256 i = 0; i < _excludedFromReward.length; i++) {
+            address account = _excludedFromReward[i];
+            if (_rOwned[account] > rSupply || _tOwned[account] > tSupply) {
+                return _rTotal / _tTotal;
+            }
+            rSupply -= _rOwned[account];
+            tSupply -= _tOwned[account];
+        }
+        if (tSupply == 0 || rSupply < _rTotal / _tTotal) {
+            return _rTotal / _tTotal;
+        }
+        return rSupply / tSupply;
+    }
+
+    function _setExcludedFromReward(address account, bool excluded) internal {
+        require(_isExcludedFromReward[account] != excluded, "Account is already in that state");
+        if (excluded) {
+            // Freeze the balance at its current value, it stops growing with reflections
+            if (_rOwned[account] > 0) {
+                _tOwned[account] = tokenFromReflection(_rOwned[account]);
+            }
+            _isExcludedFromReward[account] = true;
+            _excludedFromReward.push(account);
+        } else {
+            // Re-enter at the current rate so reflections made while excluded are not paid out retroactively,
+            // the reflected units the account held beyond that leave the reflected supply with it
+            uint256 rOwned = _tOwned[account] * _getRate();
+            _rTotal = _rTotal - _rOwned[account] + rOwned;
+            _rOwned[account] = rOwned;
+            _tOwned[account] = 0;
+            _isExcludedFromReward[account] = false;
+            for (uint256 i = 0; i < _excludedFromReward.length; i++) {
+                if (_excludedFromReward[i] == account) {
+                    _excludedFromReward[i] = _excludedFromReward[_excludedFromReward.length - 1];
+                    _excludedFromReward.pop();
+                    break;
+                }
+            }
+        }
+        emit ExcludeFromReward(account, excluded);
+    }
+
+    // Take tAmount from an account and spread it over every holder that receives reflections
+    function _reflect(address from, uint256 tAmount) internal {
+        require(balanceOf(from) >= tAmount, "ERC20: transfer amount exceeds balance");
+        uint256 rAmount = tAmount * _getRate();
+        if (_isExcludedFromReward[from]) {
+            _tOwned[from] -= tAmount;
+        }
+        _rOwned[from] -= rAmount;
+        _rTotal -= rAmount;
+        _tFeeTotal += tAmount;
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal virtual {
+        require(from != address(0), "ERC20: transfer from the zero address");
+        require(to != address(0), "ERC20: transfer to the zero address");
+        require(balanceOf(from) >= amount, "ERC20: transfer amount exceeds balance");
+
+        uint256 rAmount = amount * _getRate();
+        if (_isExcludedFromReward[from]) {
+            _tOwned[from] -= amount;
+        }
+        _rOwned[from] -= rAmount;
+        if (_isExcludedFromReward[to]) {
+            _tOwned[to] += amount;
+        }
+        _rOwned[to] += rAmount;
+
+        emit Transfer(from, to, amount);
+    }
+
+    // The reflected supply is sized once from the initial supply, so only the constructor can mint
+    function _mint(address account, uint256 amount) internal virtual {
+        require(account != address(0), "ERC20: mint to the zero address");
+        require(_tTotal == 0, "Supply is fixed after the initial mint");
+
+        _tTotal = amount;
+        _rTotal = MAX - (MAX % amount);
+        if (_isExcludedFromReward[account]) {
+            _tOwned[account] = amount;
+        }
+        _rOwned[account] = _rTotal;
+
+        emit Transfer(address(0), account, amount);
+    }
+
+    // Burning at the current rate removes the tokens without changing anyone else's balance
+    function _burn(address account, uint256 amount) internal virtual {
+        require(account != address(0), "ERC20: burn from the zero address");
+        require(balanceOf(account) >= amount, "ERC20: burn amount exceeds balance");
+
+        uint256 rAmount = amount * _getRate();
+        if (_isExcludedFromReward[account]) {
+            _tOwned[account] -= amount;
+        }
+        _rOwned[account] -= rAmount;
+        _rTotal -= rAmount;
+        _tTotal -= amount;
+
+        emit Transfer(account, address(0), amount);
+    }
+
+    function _approve(address holder, address spender, uint256 amount) internal virtual {
+        require(holder != address(0), "ERC20: approve from the zero address");
+        require(spender != address(0), "ERC20: approve to the zero address");
+
+        _allowances[holder][spender] = amount;
+        emit Approval(holder, spender, amount);
+    }
+
+    function _spendAllowance(address holder, address spender, uint256 amount) internal virtual {
+        uint256 currentAllowance = allowance(holder, spender);
+        if (currentAllowance != type(uint256).max) {
+            require(currentAllowance >= amount, "ERC20: insufficient allowance");
+            _approve(holder, spender, currentAllowance - amount);
+        }
+    }
+}`;
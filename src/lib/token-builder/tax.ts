@@ -0,0 +1,55 @@
+import { ethers } from 'ethers';
+import type { TaxDistribution } from '@/types';
+import { ContractDetailsInput, TaxWallet } from './types';
+
+// Fee shares are expressed in basis points of the collected fees
+export const TAX_BASIS_POINTS = 10000;
+
+export const TAX_SHARES: Array<keyof TaxDistribution> = ['marketing', 'liquidity', 'burn', 'dev', 'treasury'];
+
+// Everything to marketing, what tokens were built with before fees could be split
+export const DEFAULT_TAX_DISTRIBUTION: TaxDistribution = {
+  marketing: TAX_BASIS_POINTS,
+  liquidity: 0,
+  burn: 0,
+  dev: 0,
+  treasury: 0,
+};
+
+// The dividends share only exists on dividend tokens and is left out of the distribution otherwise
+export function distributionShares(distribution: Partial<TaxDistribution>): Array<keyof TaxDistribution> {
+  return distribution.dividends === undefined ? TAX_SHARES : [...TAX_SHARES, 'dividends'];
+}
+
+// Read a distribution from a request body, missing shares count as zero
+export function normalizeTaxDistribution(input?: ContractDetailsInput['taxDistribution']): TaxDistribution {
+  if (!input) {
+    return { ...DEFAULT_TAX_DISTRIBUTION };
+  }
+  const shares = input.dividends === undefined || input.dividends === '' ? TAX_SHARES : distributionShares({ dividends: 0 });
+  return Object.fromEntries(
+    shares.map(share => [share, input[share] === undefined || input[share] === '' ? 0 : Number(input[share])])
+  ) as unknown as TaxDistribution;
+}
+
+export function validateTaxDistribution(distribution: TaxDistribution): string[] {
+  const problems: string[] = [];
+  const shares = distributionShares(distribution);
+  for (const share of shares) {
+    const value = distribution[share] ?? 0;
+    if (!Number.isInteger(value) || value < 0 || value > TAX_BASIS_POINTS) {
+      problems.push(`The ${share} share must be a whole number of basis points between 0 and ${TAX_BASIS_POINTS}`);
+    }
+  }
+  const total = shares.reduce((sum, share) => sum + (distribution[share] ?? 0), 0);
+  if (problems.length === 0 && total !== TAX_BASIS_POINTS) {
+    problems.push(`Tax shares add up to ${total} basis points instead of ${TAX_BASIS_POINTS}`);
+  }
+  return problems;
+}
+
+export function validateTaxWallets(wallets: Record<TaxWallet, string | null>): string[] {
+  return (Object.entries(wallets) as Array<[TaxWallet, string | null]>)
+    .filter(([, wallet]) => wallet !== null && (!ethers.isAddress(wallet) || wallet === ethers.ZeroAddress))
+    .map(([name]) => `The ${name} wallet must be a valid non-zero address`);
+}
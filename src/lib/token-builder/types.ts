@@ -0,0 +1,143 @@
+import type {
+  AntiBotSettings,
+  DividendSettings,
+  ProxyKind,
+  TaxDistribution,
+  TokenAllocation,
+  TokenLimit,
+  TokenTemplate,
+  TransactionLimits,
+} from '@/types';
+
+// Options a token is built from - a normalized subset of ContractDetails
+export interface TokenBuildOptions {
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: string;
+  features: string[];
+  template: TokenTemplate;
+  reflectionFee: number;
+  buyTax: number;
+  sellTax: number;
+  taxDistribution: TaxDistribution;
+  // Fee wallets baked into the constructor, null means the initial owner
+  taxWallets: Record<TaxWallet, string | null>;
+  antiBot: AntiBotSettings;
+  limits: TransactionLimits;
+  dividends: DividendSettings;
+  allocations: TokenAllocation[];
+  // Proxy the token is deployed behind, null for a plain contract
+  upgradeable: ProxyKind | null;
+}
+
+export type TaxWallet = 'marketing' | 'dev' | 'treasury';
+
+// Internal functions whose overrides are assembled from module contributions
+export type HookName = '_transfer' | '_beforeTokenTransfer' | '_afterTokenTransfer' | '_mint';
+
+export interface SolidityImport {
+  symbol: string;
+  path: string;
+}
+
+export interface SolidityFunction {
+  // Used for conflict detection, two modules may not declare the same name
+  name: string;
+  code: string;
+}
+
+export interface HookContribution {
+  hook: HookName;
+  // Lower runs first; ties are broken by module order
+  order: number;
+  code: string;
+}
+
+// Everything a single feature adds to the generated contract
+export interface ModuleContribution {
+  imports?: SolidityImport[];
+  // Top-level declarations placed before the contract (interfaces, libraries)
+  declarations?: string[];
+  inherits?: string[];
+  state?: string[];
+  events?: string[];
+  constructorInitializers?: string[];
+  // Extra constructor parameters after the initial owner, also taken by initialize() behind a proxy
+  constructorParameters?: string[];
+  constructorSteps?: string[];
+  // Replace the default mint of the whole supply to the initial owner, run after the constructor steps
+  mintSteps?: string[];
+  functions?: SolidityFunction[];
+  hooks?: HookContribution[];
+  // Base contracts that also define a hook and must appear in its override list
+  hookBases?: Partial<Record<HookName, string[]>>;
+  // Replaces OpenZeppelin's ERC20 as the token base, the contract itself comes with the declarations
+  baseContract?: string;
+  // Contracts placed after the token in the same source file and deployed separately
+  companions?: CompanionContract[];
+}
+
+export interface CompanionContract {
+  contractName: string;
+  code: string;
+}
+
+export interface ModuleContext {
+  options: TokenBuildOptions;
+  contractName: string;
+  has(moduleId: string): boolean;
+  // Returns the modifier guarding a privileged function: onlyOwner, or onlyRole(role) with access control
+  guard(role: string): string;
+}
+
+export interface TokenModule {
+  id: string;
+  // Position of the module in the generated source, keeps output deterministic
+  order: number;
+  requires?: string[];
+  conflicts?: string[];
+  contribute(ctx: ModuleContext): ModuleContribution;
+}
+
+export interface ComposedContract {
+  contractName: string;
+  source: string;
+  modules: string[];
+  // Names of the companion contracts compiled from the same source
+  companions: string[];
+  // Upgrades only: the reinitializer the proxy calls in the upgrade transaction
+  upgradeInitializer?: string;
+}
+
+// Deployed version an upgradeable token is upgraded from
+export interface TokenUpgrade {
+  previous: TokenBuildOptions;
+  // Initializable version of the new implementation, initialize() is version 1
+  version: number;
+}
+
+// Feature entries as sent by clients, either an id or a descriptor object
+export type FeatureInput = string | { type?: string; name?: string; enabled?: boolean };
+
+// Contract details as received by the API routes before normalization
+export interface ContractDetailsInput {
+  name?: string;
+  symbol?: string;
+  decimals?: string | number;
+  totalSupply?: string | number;
+  features?: FeatureInput[];
+  template?: string;
+  reflectionFee?: string | number;
+  buyTax?: string | number;
+  sellTax?: string | number;
+  taxDistribution?: Partial<Record<keyof TaxDistribution, string | number>>;
+  marketingWallet?: string;
+  devWallet?: string;
+  treasuryWallet?: string;
+  antiBot?: Partial<Record<keyof AntiBotSettings, string | number>>;
+  limits?: Partial<Record<keyof TransactionLimits, Partial<{ mode: TokenLimit['mode']; value: string | number }>>>;
+  dividends?: Partial<Record<keyof DividendSettings, string | number>>;
+  allocations?: Array<Partial<Record<keyof TokenAllocation, string | number>>>;
+  upgradeable?: string | boolean | null;
+}
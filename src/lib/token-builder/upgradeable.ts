@@ -0,0 +1,58 @@
+import type { ProxyKind } from '@/types';
+import { ContractDetailsInput, TokenBuildOptions } from './types';
+
+export const PROXY_KINDS: ProxyKind[] = ['uups', 'transparent'];
+
+// EIP712 keeps names of up to 31 bytes in immutables, longer ones go to storage the proxy never sees
+const MAX_PERMIT_NAME_BYTES = 31;
+
+// Read the proxy kind from a request body, anything empty means a plain, non-upgradeable token
+export function normalizeProxyKind(input?: ContractDetailsInput['upgradeable']): ProxyKind | null {
+  if (input === undefined || input === null || input === '' || input === false) {
+    return null;
+  }
+  return String(input).trim().toLowerCase() as ProxyKind;
+}
+
+export function validateUpgradeable(options: TokenBuildOptions): string[] {
+  if (options.upgradeable === null) {
+    return options.features.includes('upgradeable') ? ['Choose a proxy type to make the token upgradeable'] : [];
+  }
+  if (!PROXY_KINDS.includes(options.upgradeable)) {
+    return [`Unknown proxy type "${options.upgradeable}", use ${PROXY_KINDS.join(' or ')}`];
+  }
+  if (options.features.includes('permit') && new TextEncoder().encode(options.name).length > MAX_PERMIT_NAME_BYTES) {
+    return [`Upgradeable tokens with permit need a name of at most ${MAX_PERMIT_NAME_BYTES} bytes`];
+  }
+  return [];
+}
+
+export function toProxyName(contractName: string): string {
+  return `${contractName}Proxy`;
+}
+
+export function toProxyAdminName(contractName: string): string {
+  return `${contractName}ProxyAdmin`;
+}
+
+// Deployed with the implementation and the encoded initialize(initialOwner) call, holds the token's state
+export function proxyContract(proxyName: string, kind: ProxyKind): string {
+  if (kind === 'uups') {
+    return `// Holds the token's state, upgrades go through upgradeTo on the token itself
+contract ${proxyName} is ERC1967Proxy {
+    constructor(address implementation, bytes memory data) ERC1967Proxy(implementation, data) {}
+}`;
+  }
+  return `// Holds the token's state, upgrades go through the proxy admin
+contract ${proxyName} is TransparentUpgradeableProxy {
+    constructor(address implementation, address admin, bytes memory data)
+        TransparentUpgradeableProxy(implementation, admin, data)
+    {}
+}`;
+}
+
+// The deployer owns the admin, the admin is the only account that can upgrade a transparent proxy
+export function proxyAdminContract(adminName: string): string {
+  return `// Upgrades the token's transparent proxy, owned by the deployer
+contract ${adminName} is ProxyAdmin {}`;
+}
@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import type { AbiItem } from '@/types';
+import { compileSolidity } from '@/lib/solidity/compiler';
+import { generateTokenContract } from '@/lib/token-builder';
+import {
+  decodeConstructorArgs,
+  encodeConstructorArgs,
+  extractConstructorArgs,
+  normalizeConstructorArgs,
+} from '@/lib/verification/constructor-args';
+
+const OWNER = '0x1000000000000000000000000000000000000001';
+const ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+
+// A constructor with static and dynamic types, so offsets and padding are part of the round trip
+const MIXED_ABI: AbiItem[] = [
+  {
+    type: 'constructor',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'label', type: 'string' },
+      { name: 'wallets', type: 'address[]' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'data', type: 'bytes' },
+      { name: 'enabled', type: 'bool' },
+    ],
+  },
+];
+const MIXED_BYTECODE = '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe';
+const MIXED_ARGS = ['Launch', [OWNER, ROUTER], ethers.parseEther('1000'), '0xdeadbeef', true];
+
+// Encode, build the creation input the way the deployer does, extract the arguments again and decode them
+function roundTrip(abi: AbiItem[], bytecode: string, args: unknown[]) {
+  const encoded = encodeConstructorArgs(abi, args);
+  const creationInput = ethers.concat([bytecode, new ethers.Interface(abi as ethers.InterfaceAbi).encodeDeploy(args)]);
+  const extracted = extractConstructorArgs(bytecode, creationInput);
+  return { encoded, extracted, decoded: decodeConstructorArgs(abi, extracted) };
+}
+
+describe('constructor arguments', () => {
+  it('round-trips mixed static and dynamic arguments', () => {
+    const { encoded, extracted, decoded } = roundTrip(MIXED_ABI, MIXED_BYTECODE, MIXED_ARGS);
+
+    expect(extracted).toBe(encoded);
+    expect(decoded.toArray()).toEqual(MIXED_ARGS);
+  });
+
+  it('round-trips a constructor without arguments', () => {
+    const { encoded, extracted, decoded } = roundTrip([], MIXED_BYTECODE, []);
+
+    expect(encoded).toBe('');
+    expect(extracted).toBe('');
+    expect(decoded.length).toBe(0);
+  });
+
+  describe('generated tax token', () => {
+    let abi: AbiItem[];
+    let bytecode: string;
+
+    beforeAll(async () => {
+      const { source, contractName } = generateTokenContract({ name: 'Args Token', symbol: 'ARGS', totalSupply: '1000000', buyTax: 5, sellTax: 5 });
+      const compiled = await compileSolidity({ source, contractName });
+      expect(compiled.success).toBe(true);
+      abi = compiled.abi;
+      bytecode = compiled.bytecode;
+    });
+
+    it('round-trips the initial owner through a real creation input', async () => {
+      const factory = new ethers.ContractFactory(abi, bytecode);
+      const { data: creationInput } = await factory.getDeployTransaction(OWNER);
+
+      const encoded = encodeConstructorArgs(abi, [OWNER]);
+      const extracted = extractConstructorArgs(bytecode, creationInput);
+      expect(extracted).toBe(encoded);
+      expect(decodeConstructorArgs(abi, extracted).toArray()).toEqual([OWNER]);
+    });
+
+    it('rejects a creation input built from other bytecode', async () => {
+      const { data: creationInput } = await new ethers.ContractFactory(MIXED_ABI, MIXED_BYTECODE).getDeployTransaction(...MIXED_ARGS);
+
+      expect(() => extractConstructorArgs(bytecode, creationInput)).toThrow('does not start with the compiled bytecode');
+    });
+
+    it('rejects arguments that do not fit the constructor', () => {
+      const encoded = encodeConstructorArgs(abi, [OWNER]);
+
+      expect(() => decodeConstructorArgs(abi, `${encoded}00`)).toThrow();
+      expect(() => decodeConstructorArgs(abi, `${encoded}${'0'.repeat(64)}`)).toThrow('not a canonical encoding');
+      expect(() => decodeConstructorArgs(abi, encoded.slice(0, 32))).toThrow();
+      expect(() => encodeConstructorArgs(abi, [])).toThrow('takes 1 argument(s), got 0');
+    });
+  });
+
+  it('normalizes hex to lower case without 0x', () => {
+    expect(normalizeConstructorArgs('0xABcd')).toBe('abcd');
+    expect(normalizeConstructorArgs('abc')).toBeNull();
+    expect(normalizeConstructorArgs('0xzz')).toBeNull();
+    expect(normalizeConstructorArgs(42)).toBeNull();
+  });
+});
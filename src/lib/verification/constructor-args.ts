@@ -0,0 +1,57 @@
+import { ethers } from 'ethers';
+import { AbiItem } from '@/types';
+
+// Constructor arguments are passed around as the hex explorers expect: ABI encoded, without 0x
+const ARGS_HEX_PATTERN = /^([0-9a-f]{2})*$/;
+
+function getConstructorInputs(abi: AbiItem[]): ethers.ParamType[] {
+  return [...new ethers.Interface(abi as ethers.InterfaceAbi).deploy.inputs];
+}
+
+function strip0x(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+// Normalize constructor argument hex to lower case without 0x, null when it is not valid hex
+export function normalizeConstructorArgs(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const hex = strip0x(value).toLowerCase();
+  return ARGS_HEX_PATTERN.test(hex) ? hex : null;
+}
+
+// ABI encode constructor arguments using the types of the compiled constructor
+export function encodeConstructorArgs(abi: AbiItem[], args: unknown[]): string {
+  const inputs = getConstructorInputs(abi);
+  if (inputs.length !== args.length) {
+    throw new Error(`Constructor takes ${inputs.length} argument(s), got ${args.length}`);
+  }
+  return strip0x(ethers.AbiCoder.defaultAbiCoder().encode(inputs, args));
+}
+
+// Decode constructor argument hex back into values, throws when it does not fit the constructor
+export function decodeConstructorArgs(abi: AbiItem[], argsHex: string): ethers.Result {
+  const inputs = getConstructorInputs(abi);
+  const hex = normalizeConstructorArgs(argsHex);
+  if (hex === null) {
+    throw new Error('Constructor arguments must be hex encoded');
+  }
+
+  const decoded = ethers.AbiCoder.defaultAbiCoder().decode(inputs, `0x${hex}`);
+  // decode ignores trailing bytes, re-encoding catches arguments that are longer than the constructor reads
+  if (strip0x(ethers.AbiCoder.defaultAbiCoder().encode(inputs, decoded)) !== hex) {
+    throw new Error('Constructor arguments are not a canonical encoding for the constructor');
+  }
+  return decoded;
+}
+
+// The creation transaction input is the creation bytecode followed by the encoded constructor arguments
+export function extractConstructorArgs(bytecode: string, creationInput: string): string {
+  const code = strip0x(bytecode).toLowerCase();
+  const input = strip0x(creationInput).toLowerCase();
+  if (!input.startsWith(code)) {
+    throw new Error('Creation transaction input does not start with the compiled bytecode');
+  }
+  return input.slice(code.length);
+}
@@ -0,0 +1,334 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { CompilerProfile, VerificationJob, VerificationStatus } from '@/types';
+import { compileSolidity } from '@/lib/solidity/compiler';
+import { flattenAndValidate } from '@/lib/solidity/flattener';
+import { getDeployment, getSourcifyBundle, getStandardJsonInput, setVerificationStatus } from '@/lib/deployments/registry';
+import { ExplorerProvider, VerificationSubmission, getDefaultProvider, getProvider } from './providers';
+
+// How long to wait between explorer requests; delays grow by backoffFactor up to maxDelayMs
+export const VERIFICATION_RETRY_POLICY = {
+  // Explorers need a moment to index a freshly deployed contract
+  initialDelayMs: 12000,
+  retryDelayMs: 12000,
+  backoffFactor: 1.5,
+  maxDelayMs: 120000,
+  maxSubmitAttempts: 8,
+  statusCheckDelayMs: 8000,
+  maxStatusChecks: 20,
+};
+
+export interface VerificationRequest {
+  address: string;
+  chainId: number;
+  sourceCode: string;
+  contractName: string;
+  compilerProfile: CompilerProfile;
+  // ABI encoded hex without 0x, taken from the registered deployment when omitted
+  constructorArguments?: string;
+  deploymentId?: string;
+  // Provider id, defaults to the preferred configured provider for the chain
+  provider?: string;
+}
+
+// The persisted job keeps the request so an interrupted job can be resumed after a restart
+interface StoredVerificationJob extends VerificationJob {
+  request: VerificationRequest;
+}
+
+const TERMINAL_STATUSES = ['success', 'failed'];
+
+// Jobs with a runner in this process
+const runningJobs = new Set<string>();
+
+export function getVerificationJobDir(): string {
+  return process.env.VERIFICATION_JOB_DIR || path.join(process.cwd(), 'verification-jobs');
+}
+
+function isJobId(id: string): boolean {
+  return /^[0-9a-f-]{36}$/.test(id);
+}
+
+function getJobPath(id: string): string {
+  return path.join(getVerificationJobDir(), `${id}.json`);
+}
+
+async function saveJob(job: StoredVerificationJob): Promise<StoredVerificationJob> {
+  job.updatedAt = new Date().toISOString();
+  const jobPath = getJobPath(job.id);
+  const tempPath = `${jobPath}.${process.pid}.tmp`;
+  await fs.ensureDir(getVerificationJobDir());
+  await fs.writeJson(tempPath, job, { spaces: 2 });
+  await fs.move(tempPath, jobPath, { overwrite: true });
+  return job;
+}
+
+async function loadJob(id: string): Promise<StoredVerificationJob | null> {
+  if (!isJobId(id) || !(await fs.pathExists(getJobPath(id)))) {
+    return null;
+  }
+  return fs.readJson(getJobPath(id));
+}
+
+// Strip the request, which holds the full source, from what is returned to clients
+function toPublicJob(job: StoredVerificationJob): VerificationJob {
+  const publicJob: VerificationJob & { request?: VerificationRequest } = { ...job };
+  delete publicJob.request;
+  return publicJob;
+}
+
+function getRetryDelay(attempt: number): number {
+  const { retryDelayMs, backoffFactor, maxDelayMs } = VERIFICATION_RETRY_POLICY;
+  return Math.min(retryDelayMs * Math.pow(backoffFactor, Math.max(attempt - 1, 0)), maxDelayMs);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Helper function to keep the registry manifest in sync, a registry failure never fails the verification.
+// Companions verified from the same artifact, e.g. a proxy, leave the token's status alone.
+async function updateRegistryStatus(deploymentId: string | undefined, contractName: string, status: VerificationStatus) {
+  if (!deploymentId) return;
+  try {
+    const deployment = await getDeployment(deploymentId);
+    if (deployment?.contractName !== contractName) return;
+    await setVerificationStatus(deploymentId, status);
+  } catch (error) {
+    console.error(`Error updating verification status of deployment ${deploymentId}:`, error);
+  }
+}
+
+// Build what is submitted to the provider in the job's current code format
+async function buildSubmission(job: StoredVerificationJob): Promise<VerificationSubmission> {
+  const { request } = job;
+  const profile = request.compilerProfile;
+
+  // Submit the exact input the contract was compiled from, recompiling only when it was not registered.
+  // Companions such as the proxy or dividend tracker live in the token's source unit, not one named after them.
+  const deployment = request.deploymentId ? await getDeployment(request.deploymentId) : null;
+  let standardJsonInput = deployment ? await getStandardJsonInput(deployment.id) : null;
+  let sourceUnitName = deployment?.files.source ?? `${request.contractName}.sol`;
+  if (!standardJsonInput || !standardJsonInput.sources[sourceUnitName]) {
+    const compiled = await compileSolidity({ source: request.sourceCode, contractName: request.contractName, profile });
+    if (!compiled.success || !compiled.standardJsonInput) {
+      throw new Error(`Source does not compile: ${compiled.errors.map(error => error.message).join('; ')}`);
+    }
+    standardJsonInput = compiled.standardJsonInput;
+    sourceUnitName = compiled.fileName;
+  }
+
+  const submission: VerificationSubmission = {
+    chainId: request.chainId,
+    address: request.address,
+    contractName: request.contractName,
+    sourceUnitName,
+    compilerProfile: profile,
+    codeFormat: job.codeFormat,
+    standardJsonInput,
+    constructorArguments: request.constructorArguments ?? '',
+  };
+
+  if (request.constructorArguments === undefined && deployment) {
+    submission.constructorArguments = deployment?.constructorArguments || '';
+  }
+
+  // Full-match builds carry their metadata, providers that understand it can verify from it directly.
+  // The bundle describes the token only, companions from the same source are verified from the input.
+  if (deployment && request.compilerProfile.appendMetadata) {
+    if (deployment.contractName === request.contractName) {
+      submission.metadataBundle = (await getSourcifyBundle(deployment.id)) || undefined;
+    }
+  }
+
+  if (job.codeFormat === 'solidity-single-file') {
+    const flattened = await flattenAndValidate({ source: request.sourceCode, contractName: request.contractName, profile });
+    submission.flattenedSource = flattened.source;
+  }
+  return submission;
+}
+
+function finishJob(job: StoredVerificationJob, status: 'success' | 'failed', message: string): StoredVerificationJob {
+  job.status = status;
+  job.message = message;
+  job.nextAttemptAt = null;
+  job.completedAt = new Date().toISOString();
+  return job;
+}
+
+// The single-file format has no viaIR switch, so IR builds cannot fall back to a flattened file
+function canFallBackToSingleFile(job: StoredVerificationJob, provider: ExplorerProvider): boolean {
+  return job.codeFormat === 'solidity-standard-json-input' &&
+    !job.request.compilerProfile.viaIR &&
+    provider.codeFormats.includes('solidity-single-file');
+}
+
+function fallBackToSingleFile(job: StoredVerificationJob, reason: string): StoredVerificationJob {
+  console.log(`Verification job ${job.id}: ${reason}, retrying with a flattened single file`);
+  job.codeFormat = 'solidity-single-file';
+  job.status = 'submitting';
+  job.guid = null;
+  job.statusChecks = 0;
+  job.message = reason;
+  job.nextAttemptAt = new Date().toISOString();
+  return job;
+}
+
+// Submit the job to the provider once and decide what happens next
+async function submitStep(job: StoredVerificationJob, provider: ExplorerProvider): Promise<StoredVerificationJob> {
+  job.status = 'submitting';
+  job.attempts++;
+
+  try {
+    const result = await provider.submit(await buildSubmission(job));
+    console.log(`Verification job ${job.id} submission ${job.attempts}:`, result);
+
+    if (result.state === 'submitted') {
+      job.status = 'checking';
+      job.guid = result.receipt;
+      job.message = result.message;
+      job.nextAttemptAt = new Date(Date.now() + VERIFICATION_RETRY_POLICY.statusCheckDelayMs).toISOString();
+      return job;
+    }
+    if (result.state === 'verified') {
+      return finishJob(job, 'success', result.message);
+    }
+    if (result.state === 'rejected') {
+      // Rejected outright, retrying the same input would fail the same way
+      return canFallBackToSingleFile(job, provider)
+        ? fallBackToSingleFile(job, result.message)
+        : finishJob(job, 'failed', result.message);
+    }
+    job.message = result.message;
+  } catch (error) {
+    console.error(`Verification job ${job.id} submission ${job.attempts} failed:`, error);
+    job.message = error instanceof Error ? error.message : String(error);
+  }
+
+  if (job.attempts >= VERIFICATION_RETRY_POLICY.maxSubmitAttempts) {
+    return finishJob(job, 'failed', `Gave up after ${job.attempts} attempts: ${job.message}`);
+  }
+  job.nextAttemptAt = new Date(Date.now() + getRetryDelay(job.attempts)).toISOString();
+  return job;
+}
+
+// Ask the provider whether the accepted submission has been processed
+async function checkStep(job: StoredVerificationJob, provider: ExplorerProvider): Promise<StoredVerificationJob> {
+  job.statusChecks++;
+
+  try {
+    const { state, message } = await provider.checkStatus(job.chainId, job.guid!);
+    if (state === 'verified') {
+      return finishJob(job, 'success', message);
+    }
+    if (state === 'failed') {
+      return canFallBackToSingleFile(job, provider)
+        ? fallBackToSingleFile(job, message)
+        : finishJob(job, 'failed', message);
+    }
+    job.message = message;
+  } catch (error) {
+    console.error(`Verification job ${job.id} status check failed:`, error);
+    job.message = error instanceof Error ? error.message : String(error);
+  }
+
+  if (job.statusChecks >= VERIFICATION_RETRY_POLICY.maxStatusChecks) {
+    return finishJob(job, 'failed', `${job.explorer} did not finish verifying ${job.guid}: ${job.message}`);
+  }
+  job.nextAttemptAt = new Date(Date.now() + VERIFICATION_RETRY_POLICY.statusCheckDelayMs).toISOString();
+  return job;
+}
+
+// Drive a job to completion, persisting after every step so it can be resumed
+async function runJob(id: string) {
+  if (runningJobs.has(id)) return;
+  runningJobs.add(id);
+
+  let job = await loadJob(id);
+  try {
+    const provider = job ? getProvider(job.provider) : undefined;
+    if (job && (!provider || !provider.isConfigured(job.chainId))) {
+      job = await saveJob(finishJob(job, 'failed', `${job.explorer} is not configured on this server`));
+    }
+
+    while (job && !TERMINAL_STATUSES.includes(job.status)) {
+      const waitMs = job.nextAttemptAt ? new Date(job.nextAttemptAt).getTime() - Date.now() : 0;
+      if (waitMs > 0) {
+        await delay(waitMs);
+      }
+
+      job = job.status === 'checking'
+        ? await checkStep(job, provider!)
+        : await submitStep(job, provider!);
+      job = await saveJob(job);
+    }
+
+    if (job) {
+      console.log(`Verification job ${job.id} finished: ${job.status} - ${job.message}`);
+      await updateRegistryStatus(job.request.deploymentId, job.contractName, job.status === 'success' ? 'success' : 'failed');
+    }
+  } catch (error) {
+    console.error(`Verification job ${id} crashed:`, error);
+    if (job) {
+      await saveJob(finishJob(job, 'failed', error instanceof Error ? error.message : String(error)));
+      await updateRegistryStatus(job.request.deploymentId, job.contractName, 'failed');
+    }
+  } finally {
+    runningJobs.delete(id);
+  }
+}
+
+// Resolve the provider a request will be verified with, callers validate the choice before queueing
+export function resolveVerificationProvider(chainId: number, providerId?: string): ExplorerProvider | undefined {
+  return providerId ? getProvider(providerId) : getDefaultProvider(chainId);
+}
+
+// Persist a new verification job and start working on it in the background
+export async function createVerificationJob(request: VerificationRequest): Promise<VerificationJob> {
+  const provider = resolveVerificationProvider(request.chainId, request.provider);
+  if (!provider || !provider.isConfigured(request.chainId)) {
+    throw new Error(`No verification provider configured for chain ${request.chainId}`);
+  }
+
+  const now = new Date();
+  const job: StoredVerificationJob = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    address: request.address,
+    chainId: request.chainId,
+    contractName: request.contractName,
+    deploymentId: request.deploymentId || null,
+    provider: provider.id,
+    explorer: provider.name,
+    explorerUrl: provider.getContractUrl(request.chainId, request.address),
+    codeFormat: provider.codeFormats[0],
+    attempts: 0,
+    statusChecks: 0,
+    nextAttemptAt: new Date(now.getTime() + VERIFICATION_RETRY_POLICY.initialDelayMs).toISOString(),
+    guid: null,
+    message: null,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    completedAt: null,
+    request,
+  };
+
+  await saveJob(job);
+  await updateRegistryStatus(request.deploymentId, request.contractName, 'pending');
+  console.log(`Verification job ${job.id} queued for ${request.contractName} at ${request.address} on chain ${request.chainId}`);
+
+  runJob(job.id).catch(error => console.error(`Verification job ${job.id} failed to start:`, error));
+  return toPublicJob(job);
+}
+
+// Read a job, resuming it when it was interrupted, e.g. by a server restart
+export async function getVerificationJob(id: string): Promise<VerificationJob | null> {
+  const job = await loadJob(id);
+  if (!job) {
+    return null;
+  }
+  if (!TERMINAL_STATUSES.includes(job.status) && !runningJobs.has(id)) {
+    console.log(`Resuming verification job ${id}`);
+    runJob(id).catch(error => console.error(`Verification job ${id} failed to resume:`, error));
+  }
+  return toPublicJob(job);
+}
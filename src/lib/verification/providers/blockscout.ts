@@ -0,0 +1,23 @@
+import { createEtherscanProvider } from './etherscan';
+
+// Blockscout instances expose the Etherscan compatible API under /api
+function blockscoutChain(host: string) {
+  return { apiUrl: `https://${host}/api`, browserUrl: `https://${host}` };
+}
+
+export const blockscoutProvider = createEtherscanProvider({
+  id: 'blockscout',
+  name: 'Blockscout',
+  chains: {
+    1: blockscoutChain('eth.blockscout.com'),
+    11155111: blockscoutChain('eth-sepolia.blockscout.com'),
+    137: blockscoutChain('polygon.blockscout.com'),
+    8453: blockscoutChain('base.blockscout.com'),
+    84532: blockscoutChain('base-sepolia.blockscout.com'),
+    42161: blockscoutChain('arbitrum.blockscout.com'),
+    10: blockscoutChain('optimism.blockscout.com'),
+    11155420: blockscoutChain('optimism-sepolia.blockscout.com'),
+  },
+  apiKeyEnv: ['BLOCKSCOUT_API_KEY'],
+  requiresApiKey: false,
+});
@@ -0,0 +1,119 @@
+import { toExplorerCompilerVersion } from '@/lib/solidity/profiles';
+import { CheckResult, ExplorerProvider, SubmitResult, VerificationSubmission } from './types';
+
+interface EtherscanResponse {
+  status: string;
+  message?: string;
+  result: string;
+}
+
+interface EtherscanChain {
+  apiUrl: string;
+  browserUrl: string;
+}
+
+export interface EtherscanProviderConfig {
+  id: string;
+  name: string;
+  chains: Record<number, EtherscanChain>;
+  // Environment variables checked in order for the API key
+  apiKeyEnv: string[];
+  // Blockscout instances accept requests without a key
+  requiresApiKey: boolean;
+}
+
+// Explorers implementing the Etherscan contract API: verifysourcecode + checkverifystatus
+export function createEtherscanProvider(config: EtherscanProviderConfig): ExplorerProvider {
+  const getApiKey = (chainId: number) => {
+    if (!config.chains[chainId]) return undefined;
+    return config.apiKeyEnv.map(name => process.env[name]).find(Boolean);
+  };
+
+  const parseSubmitResponse = (result: EtherscanResponse): SubmitResult => {
+    const message = String(result.result);
+    if (result.status === '1') {
+      return { state: 'submitted', receipt: message, message: `Submitted to ${config.name}` };
+    }
+    if (message.toLowerCase().includes('already verified')) {
+      return { state: 'verified', message };
+    }
+    // The explorer has not indexed the bytecode at the address yet
+    if (message.includes('Unable to locate ContractCode') || message.includes('not been verified')) {
+      return { state: 'retry', message: `Contract not yet indexed on ${config.name}` };
+    }
+    return { state: 'rejected', message };
+  };
+
+  const parseStatusResponse = (result: EtherscanResponse): CheckResult => {
+    const message = String(result.result);
+    const normalized = message.toLowerCase();
+    if (normalized.includes('pending')) {
+      return { state: 'pending', message };
+    }
+    if ((result.status === '1' && normalized.includes('verified')) || normalized.includes('already verified')) {
+      return { state: 'verified', message };
+    }
+    return { state: 'failed', message };
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    codeFormats: ['solidity-standard-json-input', 'solidity-single-file'],
+    supportsChain: (chainId: number) => !!config.chains[chainId],
+    getApiKey,
+    isConfigured: (chainId: number) => !!config.chains[chainId] && (!config.requiresApiKey || !!getApiKey(chainId)),
+    getContractUrl: (chainId: number, address: string) => `${config.chains[chainId].browserUrl}/address/${address}#code`,
+
+    async submit(submission: VerificationSubmission): Promise<SubmitResult> {
+      const { chainId, compilerProfile: profile } = submission;
+      const isSingleFile = submission.codeFormat === 'solidity-single-file';
+      const verificationData: Record<string, string> = {
+        apikey: getApiKey(chainId) || '',
+        module: 'contract',
+        action: 'verifysourcecode',
+        contractaddress: submission.address,
+        sourceCode: isSingleFile ? submission.flattenedSource || '' : JSON.stringify(submission.standardJsonInput),
+        codeformat: submission.codeFormat,
+        contractname: isSingleFile ? submission.contractName : `${submission.sourceUnitName}:${submission.contractName}`,
+        compilerversion: toExplorerCompilerVersion(profile),
+        optimizationUsed: profile.optimizer.enabled ? '1' : '0',
+        runs: String(profile.optimizer.runs),
+        constructorArguements: submission.constructorArguments, // Note: API expects this typo in the parameter name
+        evmversion: profile.evmVersion,
+        licenseType: '3', // MIT License
+      };
+
+      const response = await fetch(config.chains[chainId].apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(verificationData).toString(),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to submit verification request to ${config.name}. Status: ${response.status}`);
+      }
+
+      const result: EtherscanResponse = await response.json();
+      console.log(`${config.name} verification response:`, result);
+      return parseSubmitResponse(result);
+    },
+
+    async checkStatus(chainId: number, guid: string): Promise<CheckResult> {
+      const statusParams = new URLSearchParams({
+        apikey: getApiKey(chainId) || '',
+        module: 'contract',
+        action: 'checkverifystatus',
+        guid,
+      });
+
+      const response = await fetch(`${config.chains[chainId].apiUrl}?${statusParams.toString()}`);
+      if (!response.ok) {
+        throw new Error(`${config.name} status check failed with code ${response.status}`);
+      }
+
+      const result: EtherscanResponse = await response.json();
+      console.log(`${config.name} verification status:`, result);
+      return parseStatusResponse(result);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { ExplorerProvider } from './types';
+import { createEtherscanProvider } from './etherscan';
+import { blockscoutProvider } from './blockscout';
+import { sourcifyProvider } from './sourcify';
+
+export type { CheckResult, CodeFormat, ExplorerProvider, SubmitResult, VerificationSubmission } from './types';
+
+// Each Etherscan family explorer runs its own API and issues its own keys
+const etherscanFamily: ExplorerProvider[] = [
+  createEtherscanProvider({
+    id: 'etherscan',
+    name: 'Etherscan',
+    chains: {
+      1: { apiUrl: 'https://api.etherscan.io/api', browserUrl: 'https://etherscan.io' },
+      11155111: { apiUrl: 'https://api-sepolia.etherscan.io/api', browserUrl: 'https://sepolia.etherscan.io' },
+      17000: { apiUrl: 'https://api-holesky.etherscan.io/api', browserUrl: 'https://holesky.etherscan.io' },
+    },
+    apiKeyEnv: ['ETHERSCAN_API_KEY'],
+    requiresApiKey: true,
+  }),
+  createEtherscanProvider({
+    id: 'polygonscan',
+    name: 'Polygonscan',
+    chains: {
+      137: { apiUrl: 'https://api.polygonscan.com/api', browserUrl: 'https://polygonscan.com' },
+      80002: { apiUrl: 'https://api-amoy.polygonscan.com/api', browserUrl: 'https://amoy.polygonscan.com' },
+    },
+    apiKeyEnv: ['POLYGONSCAN_API_KEY'],
+    requiresApiKey: true,
+  }),
+  createEtherscanProvider({
+    id: 'bscscan',
+    name: 'BscScan',
+    chains: {
+      56: { apiUrl: 'https://api.bscscan.com/api', browserUrl: 'https://bscscan.com' },
+      97: { apiUrl: 'https://api-testnet.bscscan.com/api', browserUrl: 'https://testnet.bscscan.com' },
+    },
+    apiKeyEnv: ['BSCSCAN_API_KEY'],
+    requiresApiKey: true,
+  }),
+  createEtherscanProvider({
+    id: 'basescan',
+    name: 'Basescan',
+    chains: {
+      8453: { apiUrl: 'https://api.basescan.org/api', browserUrl: 'https://basescan.org' },
+      84532: { apiUrl: 'https://api-sepolia.basescan.org/api', browserUrl: 'https://sepolia.basescan.org' },
+    },
+    apiKeyEnv: ['BASESCAN_API_KEY'],
+    requiresApiKey: true,
+  }),
+  createEtherscanProvider({
+    id: 'arbiscan',
+    name: 'Arbiscan',
+    chains: {
+      42161: { apiUrl: 'https://api.arbiscan.io/api', browserUrl: 'https://arbiscan.io' },
+      421614: { apiUrl: 'https://api-sepolia.arbiscan.io/api', browserUrl: 'https://sepolia.arbiscan.io' },
+    },
+    apiKeyEnv: ['ARBISCAN_API_KEY'],
+    requiresApiKey: true,
+  }),
+  createEtherscanProvider({
+    id: 'optimism-etherscan',
+    name: 'Optimistic Etherscan',
+    chains: {
+      10: { apiUrl: 'https://api-optimistic.etherscan.io/api', browserUrl: 'https://optimistic.etherscan.io' },
+      11155420: { apiUrl: 'https://api-sepolia-optimistic.etherscan.io/api', browserUrl: 'https://sepolia-optimism.etherscan.io' },
+    },
+    apiKeyEnv: ['OPTIMISM_API_KEY', 'OPTIMISTIC_ETHERSCAN_API_KEY'],
+    requiresApiKey: true,
+  }),
+];
+
+// In order of preference when the caller does not pick a provider
+export const EXPLORER_PROVIDERS: ExplorerProvider[] = [...etherscanFamily, blockscoutProvider, sourcifyProvider];
+
+export function getProvider(id: string): ExplorerProvider | undefined {
+  return EXPLORER_PROVIDERS.find(provider => provider.id === id);
+}
+
+export function getProvidersForChain(chainId: number): ExplorerProvider[] {
+  return EXPLORER_PROVIDERS.filter(provider => provider.supportsChain(chainId));
+}
+
+// The chain's own explorer when it has an API key, otherwise the first keyless backend that supports the chain
+export function getDefaultProvider(chainId: number): ExplorerProvider | undefined {
+  return getProvidersForChain(chainId).find(provider => provider.isConfigured(chainId));
+}
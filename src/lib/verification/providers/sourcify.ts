@@ -0,0 +1,118 @@
+import { CheckResult, ExplorerProvider, SubmitResult, VerificationSubmission } from './types';
+
+// Chains Sourcify monitors, covering every network the app deploys to
+const SOURCIFY_CHAINS = [1, 11155111, 17000, 137, 80002, 56, 97, 8453, 84532, 42161, 421614, 10, 11155420];
+
+interface SourcifyBundleResponse {
+  result?: Array<{ address: string; chainId: string; status: 'perfect' | 'partial' | string; message?: string }>;
+  error?: string;
+}
+
+interface SourcifyJobResponse {
+  isJobCompleted: boolean;
+  verificationId: string;
+  contract?: {
+    match: 'match' | 'exact_match' | null;
+  };
+  error?: {
+    customCode: string;
+    message: string;
+  };
+}
+
+function getServerUrl(): string {
+  return (process.env.SOURCIFY_SERVER_URL || 'https://sourcify.dev/server').replace(/\/$/, '');
+}
+
+// A self-hosted server decides for itself which chains it can read from, e.g. a local devnet
+function isSupportedChain(chainId: number): boolean {
+  return !!process.env.SOURCIFY_SERVER_URL || SOURCIFY_CHAINS.includes(chainId);
+}
+
+// Verify from metadata.json and its sources, answered synchronously; a matching metadata hash gives a perfect match
+async function submitMetadataBundle(submission: VerificationSubmission): Promise<SubmitResult> {
+  const response = await fetch(`${getServerUrl()}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      address: submission.address,
+      chain: String(submission.chainId),
+      files: submission.metadataBundle,
+    }),
+  });
+
+  const result: SourcifyBundleResponse = await response.json().catch(() => ({}));
+  console.log('Sourcify metadata verification response:', response.status, result);
+
+  const match = result.result?.[0];
+  if (response.ok && match && (match.status === 'perfect' || match.status === 'partial')) {
+    return { state: 'verified', message: `Verified on Sourcify (${match.status} match)` };
+  }
+  const message = result.error || match?.message || `Sourcify returned ${response.status}`;
+  // The server reads the deployed code over RPC, which can lag behind the deployment
+  if (response.status === 429 || response.status >= 500 || /not deployed|does not exist|no contract/i.test(message)) {
+    return { state: 'retry', message };
+  }
+  return { state: 'rejected', message };
+}
+
+// Sourcify has no API keys, it verifies against the standard JSON input and needs no explorer indexing
+export const sourcifyProvider: ExplorerProvider = {
+  id: 'sourcify',
+  name: 'Sourcify',
+  codeFormats: ['solidity-standard-json-input'],
+  supportsChain: isSupportedChain,
+  getApiKey: () => undefined,
+  isConfigured: isSupportedChain,
+  getContractUrl: (chainId: number, address: string) =>
+    `${process.env.SOURCIFY_REPO_URL || 'https://repo.sourcify.dev'}/${chainId}/${address}`,
+
+  async submit(submission: VerificationSubmission): Promise<SubmitResult> {
+    if (submission.metadataBundle) {
+      return submitMetadataBundle(submission);
+    }
+
+    const response = await fetch(`${getServerUrl()}/v2/verify/${submission.chainId}/${submission.address}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        stdJsonInput: submission.standardJsonInput,
+        compilerVersion: submission.compilerProfile.solcVersion,
+        contractIdentifier: `${submission.sourceUnitName}:${submission.contractName}`,
+      }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    console.log('Sourcify verification response:', response.status, result);
+
+    if (response.status === 409) {
+      return { state: 'verified', message: result.message || 'Contract is already verified on Sourcify' };
+    }
+    if (response.ok && result.verificationId) {
+      return { state: 'submitted', receipt: result.verificationId, message: 'Submitted to Sourcify' };
+    }
+    // Sourcify reads the bytecode from an RPC node, which may lag behind the deployment
+    if (response.status === 429 || response.status >= 500 || result.customCode === 'contract_not_deployed') {
+      return { state: 'retry', message: result.message || `Sourcify returned ${response.status}` };
+    }
+    return { state: 'rejected', message: result.message || `Sourcify returned ${response.status}` };
+  },
+
+  async checkStatus(_chainId: number, verificationId: string): Promise<CheckResult> {
+    const response = await fetch(`${getServerUrl()}/v2/verify/${verificationId}`);
+    if (!response.ok) {
+      throw new Error(`Sourcify status check failed with code ${response.status}`);
+    }
+
+    const result: SourcifyJobResponse = await response.json();
+    console.log('Sourcify verification status:', result);
+
+    if (!result.isJobCompleted) {
+      return { state: 'pending', message: 'Pending in queue' };
+    }
+    if (result.contract?.match) {
+      return { state: 'verified', message: `Verified on Sourcify (${result.contract.match})` };
+    }
+    return { state: 'failed', message: result.error?.message || 'Sourcify could not verify the contract' };
+  },
+};
@@ -0,0 +1,49 @@
+import type { SolcInput } from '@/lib/solidity/compiler';
+import { CompilerProfile } from '@/types';
+
+export type CodeFormat = 'solidity-standard-json-input' | 'solidity-single-file';
+
+// Everything a provider may need to verify one deployed contract
+export interface VerificationSubmission {
+  chainId: number;
+  address: string;
+  contractName: string;
+  // Source unit holding the contract inside standardJsonInput
+  sourceUnitName: string;
+  compilerProfile: CompilerProfile;
+  codeFormat: CodeFormat;
+  standardJsonInput: SolcInput;
+  // Only set for the single-file format
+  flattenedSource?: string;
+  // ABI encoded constructor arguments, hex without 0x
+  constructorArguments: string;
+  // metadata.json plus the sources it references, only for builds that kept the metadata hash
+  metadataBundle?: Record<string, string>;
+}
+
+export type SubmitResult =
+  // Accepted for processing, receipt is what checkStatus is called with (a GUID or job id)
+  | { state: 'submitted'; receipt: string; message: string }
+  | { state: 'verified'; message: string }
+  // Worth repeating later, e.g. the contract is not indexed yet
+  | { state: 'retry'; message: string }
+  | { state: 'rejected'; message: string };
+
+export interface CheckResult {
+  state: 'pending' | 'verified' | 'failed';
+  message: string;
+}
+
+export interface ExplorerProvider {
+  id: string;
+  name: string;
+  // Code formats the provider accepts, the first one is tried first
+  codeFormats: CodeFormat[];
+  supportsChain(chainId: number): boolean;
+  getApiKey(chainId: number): string | undefined;
+  // Supported and usable on this server, e.g. an API key is present when one is required
+  isConfigured(chainId: number): boolean;
+  getContractUrl(chainId: number, address: string): string;
+  submit(submission: VerificationSubmission): Promise<SubmitResult>;
+  checkStatus(chainId: number, receipt: string): Promise<CheckResult>;
+}
@@ -4,11 +4,109 @@ export interface ContractDetails {
   decimals: string;
   totalSupply: string;
   features: string[];
-  optimizationLevel: 'none' | 'standard' | 'high';
+  // Token family the contract is generated from, standard when not set
+  template?: TokenTemplate;
+  // Percentage of every transfer redistributed to holders, reflection template only
+  reflectionFee?: number;
+  optimizationLevel: OptimizationLevel;
+  // Keep the CBOR metadata hash in the bytecode so Sourcify can report a full match
+  fullMatch?: boolean;
   logoUrl?: string;
   description?: string;
   buyTax: number;
   sellTax: number;
+  // How collected fees are split, defaults to everything going to the marketing wallet
+  taxDistribution?: TaxDistribution;
+  // Fee wallets, each defaults to the deployer when left empty
+  marketingWallet?: string;
+  devWallet?: string;
+  treasuryWallet?: string;
+  // Parameters of the selected anti-bot features
+  antiBot?: AntiBotSettings;
+  // Max transaction and max wallet size, enforced on every token
+  limits?: TransactionLimits;
+  // Reward token and payout settings of the dividend tracker, dividend template only
+  dividends?: DividendSettings;
+  // Tokenomics table, the whole supply goes to the deployer when not set
+  allocations?: TokenAllocation[];
+  // Deploy an initializer-based implementation behind a proxy, not upgradeable when not set
+  upgradeable?: ProxyKind | null;
+  // Deploy through the CREATE2 factory at an address that is the same on every chain, regular deployment when not set
+  create2?: Create2Settings | null;
+}
+
+// Hex characters the CREATE2 address should start and end with, both may be empty
+export interface Create2Settings {
+  prefix: string;
+  suffix: string;
+}
+
+// UUPS proxies are upgraded through the token itself, transparent proxies through a ProxyAdmin contract
+export type ProxyKind = 'uups' | 'transparent';
+
+// One row of the tokenomics table, vested rows are held by a vesting wallet the token deploys
+export interface TokenAllocation {
+  name: string;
+  // Percentage of the initial supply with up to two decimals, all rows add up to 100
+  percent: string;
+  // Receives the tokens, or the vested tokens, the deployer when empty
+  beneficiary: string;
+  // Days after deployment before anything vests
+  cliffDays: number;
+  // Days over which the tokens vest linearly after the cliff, 0 unlocks everything at the cliff
+  vestingDays: number;
+}
+
+export interface DividendSettings {
+  // 'native' pays out the chain currency, otherwise the address of the token holders are paid in
+  rewardToken: string;
+  // Seconds between automatic payouts to the same holder
+  claimWait: number;
+  // Gas the token spends on automatic payouts per transfer
+  gasForProcessing: number;
+  // Whole tokens a wallet must hold to earn dividends
+  minimumTokenBalance: string;
+}
+
+// A limit given as a percentage of the initial supply or as a whole number of tokens
+export interface TokenLimit {
+  mode: 'percent' | 'amount';
+  value: string;
+}
+
+export interface TransactionLimits {
+  maxTransaction: TokenLimit;
+  maxWallet: TokenLimit;
+}
+
+export type TokenTemplate = 'standard' | 'reflection' | 'dividend';
+
+// Launch protections, each value only applies when its feature is selected
+export interface AntiBotSettings {
+  // Buys within this many blocks of openTrading pay sniperTax percent
+  sniperTaxBlocks: number;
+  sniperTax: number;
+  // Pair trades allowed per block across all traders
+  maxTradesPerBlock: number;
+  // Blocks a tx.origin must wait between pair trades
+  transferDelayBlocks: number;
+  // Blocks after launch during which the blacklist is enforced, afterwards it expires for good
+  blacklistWindowBlocks: number;
+  // Seconds a wallet must wait between buys
+  buyCooldownSeconds: number;
+}
+
+// Share of the collected fees per destination, in basis points that add up to 10000
+export interface TaxDistribution {
+  marketing: number;
+  // Half is swapped to ETH and paired with the other half as liquidity
+  liquidity: number;
+  burn: number;
+  // Paid in ETH, never in reflected tokens
+  dev: number;
+  treasury: number;
+  // Swapped to the reward token and paid to holders, dividend template only
+  dividends?: number;
 }
 
 export interface AbiItem {
@@ -21,19 +119,295 @@ export interface AbiItem {
 
 export interface DeploymentResponse {
   contractCode: string;
+  // Name of the compiled token contract, the display name may contain spaces
+  contractName: string;
   abi: AbiItem[];
   bytecode: string;
+  compilerProfile: CompilerProfile;
+  deploymentId: string;
+  // Compiled dividend tracker, deployed after the token with the token address
+  dividendTracker?: {
+    contractName: string;
+    abi: AbiItem[];
+    bytecode: string;
+  };
+  // Upgradeable tokens: the ABI and bytecode above are the implementation, users talk to this proxy
+  proxy?: {
+    kind: ProxyKind;
+    contractName: string;
+    abi: AbiItem[];
+    bytecode: string;
+  };
+  // Transparent proxies only, the admin contract deployed before the proxy
+  proxyAdmin?: {
+    contractName: string;
+    abi: AbiItem[];
+    bytecode: string;
+  };
   logoUrl?: string;
   savedContractPath?: string;
 }
 
+export type EvmVersion = 'london' | 'paris' | 'shanghai' | 'cancun';
+
+export type OptimizationLevel = 'none' | 'standard' | 'high';
+
+export interface CompilerProfile {
+  // Full solc version including the commit, e.g. 0.8.30+commit.73712a01
+  solcVersion: string;
+  evmVersion: EvmVersion;
+  // Level the optimizer and viaIR settings below were derived from
+  optimizationLevel: OptimizationLevel;
+  optimizer: {
+    enabled: boolean;
+    runs: number;
+  };
+  viaIR: boolean;
+  // Append the CBOR encoded metadata hash to the runtime code, required for a Sourcify full match
+  appendMetadata: boolean;
+}
+
+export interface CompilerDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  type: string;
+  errorCode?: string;
+  message: string;
+  formattedMessage: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ContractPreview {
+  contractCode: string;
+  contractName: string;
+  compiled: boolean;
+  compilerProfile: CompilerProfile;
+  abi: AbiItem[];
+  bytecodeSize: number;
+  deployedBytecodeSize: number;
+  estimatedDeployGas: string | null;
+  deployGasIsLowerBound: boolean;
+  errors: CompilerDiagnostic[];
+  warnings: CompilerDiagnostic[];
+}
+
+// Size and deploy cost of the same contract compiled at one optimization level
+export interface OptimizationComparison {
+  level: OptimizationLevel;
+  compiled: boolean;
+  compilerProfile: CompilerProfile;
+  bytecodeSize: number;
+  deployedBytecodeSize: number;
+  estimatedDeployGas: string | null;
+  deployGasIsLowerBound: boolean;
+}
+
 export interface DeploymentResult {
   address: string;
   txHash: string;
   blockNumber: number;
   gasUsed: string;
   verificationStatus: 'pending' | 'success' | 'failed';
+  // ABI encoded constructor arguments, hex without 0x
   constructorArgs?: string;
+  deploymentId?: string;
+  verificationJobId?: string;
+  // Verified source on the explorer the job used
+  verificationUrl?: string;
+  // Tracker paying out dividends, dividend tokens only
+  dividendTrackerAddress?: string;
+  // Upgradeable tokens: address is the proxy, these are the contracts behind it
+  implementationAddress?: string;
+  proxyAdminAddress?: string;
+  // CREATE2 deployments, the same salt and creation code give the same address on every chain
+  create2Salt?: string;
+}
+
+export type ChainDeploymentStatus = 'pending' | 'switching' | 'deploying' | 'deployed' | 'failed';
+
+// Progress of one chain in a multi-chain launch
+export interface ChainDeployment {
+  chainId: number;
+  status: ChainDeploymentStatus;
+  // Set once the token is on chain, carries the chain's own registry entry and verification job
+  result?: DeploymentResult;
+  // Why the chain failed, or what went wrong after the token was deployed
+  error?: string;
+}
+
+// Aggregated result of deploying the same compiled token to several chains
+export interface MultiChainDeployment {
+  // Registry entry of the compiled artifact, the first chain uses it and the others get a copy
+  deploymentId: string | null;
+  chains: ChainDeployment[];
+}
+
+// Steps of a single-chain deployment in order, failed and cancelled end it early
+export type DeploymentStage =
+  | 'generated'
+  | 'compiled'
+  | 'signed'
+  | 'broadcast'
+  | 'mined'
+  | 'verified'
+  | 'metadata_submitted'
+  | 'failed'
+  | 'cancelled';
+
+// Transactions sent after the token is mined: the contracts it needs and the calls linking the router and dividend tracker
+export type DeploymentCompanion = 'proxyAdmin' | 'proxy' | 'routerLink' | 'dividendTracker' | 'dividendTrackerLink';
+
+// Progress of one companion transaction, kept so a resumed deployment re-polls it instead of sending it again
+export interface DeploymentCompanionState {
+  stage: Extract<DeploymentStage, 'signed' | 'broadcast' | 'mined'>;
+  nonce: number;
+  txHash: string | null;
+  // Contract the transaction creates, null for the link call
+  address: string | null;
+}
+
+// Progress of a deployment, saved in the browser and in the registry after every step so a deployment
+// interrupted by a reload can be resumed, re-polled by transaction hash or cancelled
+export interface DeploymentState {
+  stage: DeploymentStage;
+  // Registry entry of the compiled artifact, null until the server has compiled the contract
+  deploymentId: string | null;
+  chainId: number;
+  // Deploying account and the nonce of its creation transaction, set when the transaction goes to the wallet
+  from: string | null;
+  nonce: number | null;
+  // Where the creation transaction deploys to, known before it is mined
+  address: string | null;
+  txHash: string | null;
+  create2Salt: string | null;
+  // Companion transactions sent so far, missing in states saved before they were tracked
+  companions?: Partial<Record<DeploymentCompanion, DeploymentCompanionState>>;
+  // Set once the token and the contracts it needs are deployed and recorded
+  result: DeploymentResult | null;
+  // Last problem, a deployment that is still resumable keeps its stage
+  error: string | null;
+  updatedAt: string;
+}
+
+export type VerificationStatus = 'unverified' | 'pending' | 'success' | 'failed';
+
+export type VerificationJobStatus = 'queued' | 'submitting' | 'checking' | 'success' | 'failed';
+
+// Background verification of a deployed contract, as reported by the status endpoint
+export interface VerificationJob {
+  id: string;
+  status: VerificationJobStatus;
+  address: string;
+  chainId: number;
+  contractName: string;
+  deploymentId: string | null;
+  // Id of the explorer provider, see src/lib/verification/providers
+  provider: string;
+  explorer: string;
+  // Where the verified source can be viewed once the job succeeds
+  explorerUrl: string;
+  codeFormat: 'solidity-standard-json-input' | 'solidity-single-file';
+  // Submissions made so far, including ones rejected because the contract was not indexed yet
+  attempts: number;
+  statusChecks: number;
+  nextAttemptAt: string | null;
+  // Receipt assigned by the explorer once a submission is accepted, a GUID or a verification id
+  guid: string | null;
+  message: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+// Registry entry linking a compiled contract to where and by whom it was deployed
+export interface DeploymentManifest {
+  id: string;
+  contractName: string;
+  createdAt: string;
+  updatedAt: string;
+  // keccak256 of the source, the same hash solc records in the contract metadata
+  sourceHash: string;
+  compilerProfile: CompilerProfile;
+  contractDetails: ContractDetails;
+  // Target chain at compile time, replaced by the actual chain once deployed
+  chainId: number | null;
+  address: string | null;
+  txHash: string | null;
+  blockNumber: number | null;
+  owner: string | null;
+  // ABI encoded constructor arguments of the creation transaction, hex without 0x
+  constructorArguments?: string | null;
+  // Companion tracker of a dividend token, deployed with the token address as its only argument
+  dividendTracker?: {
+    contractName: string;
+    address: string | null;
+  } | null;
+  // Upgradeable tokens, address above is the proxy
+  proxy?: ProxyDeployment | null;
+  // Deployed through the CREATE2 factory, redeploying the same creation code with this salt gives the same address
+  create2?: Create2Deployment | null;
+  // Progress reported by the client while deploying, null for artifacts that were never deployed from the UI
+  state?: DeploymentState | null;
+  verificationStatus: VerificationStatus;
+  // Artifact file names, relative to the deployment directory
+  files: {
+    source: string;
+    abi: string;
+    bytecode: string;
+    metadata: string;
+    // Compile input with all sources inlined, submitted for standard JSON verification
+    standardJsonInput: string;
+    // Flattened source, null when flattening could not reproduce the bytecode
+    verification: string | null;
+    // Directory with metadata.json and sources/ for Sourcify, only for full-match builds
+    sourcifyBundle?: string | null;
+    // solc storage layout of the token, compared against new versions before an upgrade
+    storageLayout?: string | null;
+  };
+}
+
+export interface ProxyDeployment {
+  kind: ProxyKind;
+  contractName: string;
+  // Transparent proxies only
+  adminContractName: string | null;
+  // Current implementation, changes with every upgrade
+  implementation: string | null;
+  admin: string | null;
+  // ABI encoded proxy constructor arguments, hex without 0x
+  constructorArguments: string | null;
+  // Implementations the proxy was upgraded to, oldest first
+  upgrades: ProxyUpgrade[];
+}
+
+export interface Create2Deployment {
+  factory: string;
+  salt: string;
+}
+
+// Salt found by the vanity search and the address it deploys the creation code to
+export interface VanitySalt {
+  salt: string;
+  address: string;
+  attempts: number;
+}
+
+export interface ProxyUpgrade {
+  // Registry entry of the new implementation, holds its sources and storage layout
+  deploymentId: string;
+  implementation: string;
+  txHash: string;
+  upgradedAt: string;
+}
+
+// Result of comparing the storage layout of a new implementation with the current one
+export interface StorageLayoutCheck {
+  compatible: boolean;
+  // Variables that moved, changed type or disappeared, any of them makes the upgrade unsafe
+  problems: string[];
+  // Variables appended after the existing ones, they start out zero in the proxy
+  added: string[];
 }
 
 export interface PriceRatio {
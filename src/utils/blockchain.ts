@@ -85,6 +85,33 @@ export const getNetworkSymbol = (chainId: number): string => {
   return network ? network.symbol : 'ETH';
 };
 
+// Ask the browser wallet to switch to a configured network, adding it to the wallet first when it is unknown
+export const switchWalletNetwork = async (chainId: number): Promise<void> => {
+  if (!window.ethereum) {
+    throw new Error('Please install MetaMask to use this application');
+  }
+  const hexChainId = ethers.toQuantity(chainId);
+  try {
+    await window.ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: hexChainId }] });
+  } catch (error) {
+    // 4902: the wallet has no such chain yet
+    const network = getNetworkConfig(chainId);
+    if ((error as { code?: number }).code !== 4902 || !network) {
+      throw error;
+    }
+    await window.ethereum.request({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId: hexChainId,
+        chainName: network.name,
+        nativeCurrency: { name: network.symbol, symbol: network.symbol, decimals: 18 },
+        rpcUrls: [network.rpcUrl],
+        blockExplorerUrls: [network.blockExplorer],
+      }],
+    });
+  }
+};
+
 export const getRouterAddress = (chainId: number): string => {
   const network = getNetworkConfig(chainId);
   return network ? network.routerAddress : '';
@@ -1,25 +0,0 @@
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.20;
-
-import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
-
-contract GalaxyGem is ERC20, Ownable {
-    
-    
-    constructor(address initialOwner)
-        ERC20("GalaxyGem", "GLXY")
-        Ownable()
-    {
-        
-        _transferOwnership(initialOwner);
-        _mint(initialOwner, 921710531 * 10 ** decimals());
-    }
-
-    
-    function mint(address to, uint256 amount) public onlyOwner {
-        _mint(to, amount);
-    }
-
-    
-}
\ No newline at end of file
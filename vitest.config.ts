@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const config = defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    // Compiling with solc and running a local chain is slow, and both use a lot of memory
+    testTimeout: 120000,
+    hookTimeout: 300000,
+    fileParallelism: false,
+  },
+});
+
+export default config;